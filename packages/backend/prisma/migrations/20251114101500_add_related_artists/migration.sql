@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "related_artists" (
+    "artistId" VARCHAR(150) NOT NULL,
+    "relatedArtistId" VARCHAR(150) NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "fetchedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "related_artists_pkey" PRIMARY KEY ("artistId","relatedArtistId")
+);
+
+-- CreateIndex
+CREATE INDEX "related_artists_relatedArtistId_idx" ON "related_artists"("relatedArtistId");
+
+-- CreateIndex
+CREATE INDEX "related_artists_fetchedAt_idx" ON "related_artists"("fetchedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "match_history" ADD COLUMN     "matchExplanation" JSONB,
+ADD COLUMN     "songFeatures" JSONB;
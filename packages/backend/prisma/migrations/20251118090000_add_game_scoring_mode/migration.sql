@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "scoring_mode" AS ENUM ('SIMILARITY', 'CONTRAST');
+
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN     "scoringMode" "scoring_mode" NOT NULL DEFAULT 'SIMILARITY';
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "round_type" AS ENUM ('SONG_MATCH', 'PROMPT');
+
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN     "promptIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "roundType" "round_type" NOT NULL DEFAULT 'SONG_MATCH';
+
+-- AlterTable
+ALTER TABLE "game_rounds" ADD COLUMN     "promptId" VARCHAR(50);
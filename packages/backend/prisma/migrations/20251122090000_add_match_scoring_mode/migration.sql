@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "match_history_algorithmVersion_idx";
+
+-- AlterTable
+ALTER TABLE "match_history" ADD COLUMN     "scoringMode" "scoring_mode" NOT NULL DEFAULT 'SIMILARITY';
+
+-- CreateIndex
+CREATE INDEX "match_history_algorithmVersion_scoringMode_idx" ON "match_history"("algorithmVersion", "scoringMode");
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "match_history_algorithmVersion_scoringMode_idx";
+
+-- AlterTable
+ALTER TABLE "match_history" ADD COLUMN     "weightProfile" VARCHAR(20) NOT NULL DEFAULT 'default';
+
+-- CreateIndex
+CREATE INDEX "match_history_algorithmVersion_scoringMode_weightProfile_idx" ON "match_history"("algorithmVersion", "scoringMode", "weightProfile");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "match_history" ADD COLUMN     "keyScoring" VARCHAR(10) NOT NULL DEFAULT 'circle';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "match_history" ADD COLUMN     "calibratedScore" INTEGER;
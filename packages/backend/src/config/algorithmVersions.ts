@@ -0,0 +1,206 @@
+import { AlgorithmVersion, WeightProfile } from '../types/music.types';
+import { WeightProfileName, validateComponentWeights } from './weightProfiles';
+
+/**
+ * Algorithm Versions
+ *
+ * Registry of matching strategies keyed by version. Older versions stay
+ * available side by side so matches can be reproduced and A/B tested;
+ * MatchingService picks the version per request, falling back to
+ * MATCH_ALGORITHM_VERSION.
+ *
+ * Every version used to score a match is stored with it (MatchHistory,
+ * GameRound) and is part of the match cache key.
+ *
+ * Each version keeps its own frozen copy of its weight profiles, so tuning
+ * WEIGHT_PROFILES (e.g. after calibration) never changes the scores of a
+ * released version; tuned weights ship as a new version.
+ */
+
+export const ALGORITHM_VERSION_NAMES = ['1.0', '1.1', '1.2', '1.3', '1.4'] as const;
+
+export type AlgorithmVersionName = (typeof ALGORITHM_VERSION_NAMES)[number];
+
+export const LATEST_ALGORITHM_VERSION: AlgorithmVersionName = '1.4';
+
+// Original three-layer weighting (60% / 25% / 15%)
+const LEGACY_DEFAULT_PROFILE: WeightProfile = {
+  name: 'default',
+  description: 'Original three-layer weighting (60% feel, 25% structure, 15% metadata)',
+  weights: {
+    valence: 0.15,
+    energy: 0.15,
+    danceability: 0.12,
+    tempo: 0.1,
+    acousticness: 0.08,
+    keyMode: 0.1,
+    timeSignature: 0.05,
+    loudness: 0.05,
+    duration: 0.05,
+    genre: 0.08,
+    artist: 0.04,
+    era: 0.03,
+    instrumentalness: 0,
+    speechiness: 0,
+    liveness: 0,
+  },
+};
+
+// Four-layer profiles as released with 1.1 (unchanged through 1.4)
+// This is the canonical record of the released weights; WEIGHT_PROFILES started
+// out equal to it and is the working copy that tuning edits. The values are
+// pinned by a test, so the two may diverge but this one never changes
+const PROFILES_1_1: Record<WeightProfileName, WeightProfile> = {
+  default: {
+    name: 'default',
+    description:
+      'Balanced vibe matching (55% feel, 21% structure, 14% metadata, 10% texture)',
+    weights: {
+      valence: 0.14,
+      energy: 0.14,
+      danceability: 0.11,
+      tempo: 0.09,
+      acousticness: 0.07,
+      keyMode: 0.09,
+      timeSignature: 0.04,
+      loudness: 0.04,
+      duration: 0.04,
+      genre: 0.07,
+      artist: 0.04,
+      era: 0.03,
+      instrumentalness: 0.04,
+      speechiness: 0.04,
+      liveness: 0.02,
+    },
+  },
+  party: {
+    name: 'party',
+    description: 'Dance floor flow: energy, danceability and tempo dominate',
+    weights: {
+      valence: 0.11,
+      energy: 0.17,
+      danceability: 0.17,
+      tempo: 0.13,
+      acousticness: 0.03,
+      keyMode: 0.04,
+      timeSignature: 0.03,
+      loudness: 0.05,
+      duration: 0.02,
+      genre: 0.09,
+      artist: 0.03,
+      era: 0.04,
+      instrumentalness: 0.03,
+      speechiness: 0.04,
+      liveness: 0.02,
+    },
+  },
+  chill: {
+    name: 'chill',
+    description: 'Mood-first matching that rewards similar acoustic texture',
+    weights: {
+      valence: 0.17,
+      energy: 0.15,
+      danceability: 0.05,
+      tempo: 0.07,
+      acousticness: 0.12,
+      keyMode: 0.08,
+      timeSignature: 0.03,
+      loudness: 0.06,
+      duration: 0.03,
+      genre: 0.09,
+      artist: 0.03,
+      era: 0.02,
+      instrumentalness: 0.05,
+      speechiness: 0.04,
+      liveness: 0.01,
+    },
+  },
+  harmonic: {
+    name: 'harmonic',
+    description: 'Key, tempo and meter compatibility for mixing songs together',
+    weights: {
+      valence: 0.09,
+      energy: 0.09,
+      danceability: 0.07,
+      tempo: 0.13,
+      acousticness: 0.04,
+      keyMode: 0.24,
+      timeSignature: 0.08,
+      loudness: 0.04,
+      duration: 0.03,
+      genre: 0.07,
+      artist: 0.03,
+      era: 0.02,
+      instrumentalness: 0.03,
+      speechiness: 0.03,
+      liveness: 0.01,
+    },
+  },
+};
+export const ALGORITHM_VERSIONS: Record<AlgorithmVersionName, AlgorithmVersion> = {
+  '1.0': {
+    version: '1.0',
+    description: 'Three-layer algorithm (feel, structure, metadata)',
+    texture: false,
+    genreScoring: 'jaccard',
+    artistScoring: 'name',
+    missingFeatures: 'neutral',
+    weightProfiles: { default: LEGACY_DEFAULT_PROFILE },
+  },
+  '1.1': {
+    version: '1.1',
+    description: 'Adds Layer 4 (texture) and named weight profiles',
+    texture: true,
+    genreScoring: 'jaccard',
+    artistScoring: 'name',
+    missingFeatures: 'neutral',
+    weightProfiles: PROFILES_1_1,
+  },
+  '1.2': {
+    version: '1.2',
+    description: 'Genre taxonomy: partial credit for related genres',
+    texture: true,
+    genreScoring: 'taxonomy',
+    artistScoring: 'name',
+    missingFeatures: 'neutral',
+    weightProfiles: PROFILES_1_1,
+  },
+  '1.3': {
+    version: '1.3',
+    description: 'Artist graph: partial credit for collaborators and related artists',
+    texture: true,
+    genreScoring: 'taxonomy',
+    artistScoring: 'graph',
+    missingFeatures: 'neutral',
+    weightProfiles: PROFILES_1_1,
+  },
+  '1.4': {
+    version: '1.4',
+    description: 'Missing features are left out of the score instead of scored neutrally',
+    texture: true,
+    genreScoring: 'taxonomy',
+    artistScoring: 'graph',
+    missingFeatures: 'exclude',
+    weightProfiles: PROFILES_1_1,
+  },
+};
+
+export function isAlgorithmVersionName(version: string): version is AlgorithmVersionName {
+  return (ALGORITHM_VERSION_NAMES as readonly string[]).includes(version);
+}
+
+// Fail fast on startup if a version's profiles were edited incorrectly, and
+// freeze them so nothing can tune a released version at runtime
+for (const algorithm of Object.values(ALGORITHM_VERSIONS)) {
+  for (const profile of Object.values(algorithm.weightProfiles)) {
+    Object.freeze(profile.weights);
+    Object.freeze(profile);
+    const errors = validateComponentWeights(profile.weights);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid weight profile "${profile.name}" in algorithm ${algorithm.version}: ` +
+          errors.join('; ')
+      );
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { ALGORITHM_VERSION_NAMES, LATEST_ALGORITHM_VERSION } from './algorithmVersions';
 
 // Load environment variables
 dotenv.config();
@@ -24,7 +25,13 @@ const envSchema = z.object({
   // Apple Music (optional for MVP)
   APPLE_MUSIC_TEAM_ID: z.string().optional(),
   APPLE_MUSIC_KEY_ID: z.string().optional(),
-  APPLE_MUSIC_PRIVATE_KEY: z.string().optional(),
+  APPLE_MUSIC_PRIVATE_KEY: z.string().optional(), // PEM (.p8), newlines may be escaped as \n
+  APPLE_MUSIC_STOREFRONT: z.string().length(2).default('us'), // Catalog country
+  APPLE_MUSIC_API_URL: z.string().url().default('https://api.music.apple.com'),
+
+  // YouTube Data API (optional)
+  YOUTUBE_API_KEY: z.string().optional(),
+  YOUTUBE_API_URL: z.string().url().default('https://www.googleapis.com'),
 
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('60000'),
@@ -33,6 +40,9 @@ const envSchema = z.object({
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:3001'),
 
+  // Matching
+  MATCH_ALGORITHM_VERSION: z.enum(ALGORITHM_VERSION_NAMES).default(LATEST_ALGORITHM_VERSION),
+
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
 });
@@ -0,0 +1,17 @@
+/**
+ * Locales
+ *
+ * Languages match explanations can be rendered in. Message texts live in
+ * data/locales/<locale>.json; clients pick one with Accept-Language.
+ */
+
+export const SUPPORTED_LOCALES = ['en', 'es', 'pt'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Fallback for unsupported languages and for messages missing from a catalog
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export function isSupportedLocale(locale: string): locale is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(locale);
+}
@@ -0,0 +1,33 @@
+import type { MusicService } from '@prisma/client';
+
+/**
+ * Music Platforms
+ *
+ * Platform names as used in the API, SongCache and prefixed song IDs
+ * (platform:trackId), mapped to the MusicService enum stored on users, game
+ * sessions and playlists. A platform can be used once a MusicProvider for it
+ * is registered (see di/container.ts).
+ */
+
+export const PLATFORM_NAMES = ['spotify', 'apple', 'youtube'] as const;
+
+export type Platform = (typeof PLATFORM_NAMES)[number];
+
+export const PLATFORM_SERVICES: Record<Platform, MusicService> = {
+  spotify: 'SPOTIFY',
+  apple: 'APPLE',
+  youtube: 'YOUTUBE',
+};
+
+/**
+ * Platform name for a stored MusicService value
+ */
+export function platformForService(service: MusicService): Platform {
+  const platform = PLATFORM_NAMES.find((name) => PLATFORM_SERVICES[name] === service);
+  if (!platform) throw new Error(`Unknown music service: ${service}`);
+  return platform;
+}
+
+export function isPlatform(name: string): name is Platform {
+  return (PLATFORM_NAMES as readonly string[]).includes(name);
+}
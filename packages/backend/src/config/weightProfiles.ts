@@ -0,0 +1,188 @@
+import {
+  ComponentWeights,
+  Layer1Component,
+  Layer2Component,
+  Layer3Component,
+  Layer4Component,
+  MatchComponent,
+  WeightProfile,
+} from '../types/music.types';
+
+/**
+ * Weight Profiles
+ *
+ * Named component weightings for the matching algorithm. Game designers can
+ * add or tune a mode here without touching MatchingService.
+ *
+ * Each weight is the component's share of the overall score. Layer weights
+ * are the sum of their components, so every profile must sum to 1.
+ *
+ * Released algorithm versions score with frozen copies of these profiles
+ * (see config/algorithmVersions.ts): tuned weights take effect once a new
+ * version that uses them is registered.
+ */
+
+export const LAYER1_COMPONENTS: readonly Layer1Component[] = [
+  'valence',
+  'energy',
+  'danceability',
+  'tempo',
+  'acousticness',
+];
+
+export const LAYER2_COMPONENTS: readonly Layer2Component[] = [
+  'keyMode',
+  'timeSignature',
+  'loudness',
+  'duration',
+];
+
+export const LAYER3_COMPONENTS: readonly Layer3Component[] = ['genre', 'artist', 'era'];
+
+export const LAYER4_COMPONENTS: readonly Layer4Component[] = [
+  'instrumentalness',
+  'speechiness',
+  'liveness',
+];
+
+export const MATCH_COMPONENTS: readonly MatchComponent[] = [
+  ...LAYER1_COMPONENTS,
+  ...LAYER2_COMPONENTS,
+  ...LAYER3_COMPONENTS,
+  ...LAYER4_COMPONENTS,
+];
+
+export const DEFAULT_WEIGHT_PROFILE = 'default';
+
+export const WEIGHT_PROFILE_NAMES = ['default', 'party', 'chill', 'harmonic'] as const;
+
+export type WeightProfileName = (typeof WEIGHT_PROFILE_NAMES)[number];
+
+// Tolerance for floating point error when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+// Working profiles, tuned e.g. after calibration; released versions score with
+// their own frozen copies (see algorithmVersions.ts)
+export const WEIGHT_PROFILES: Record<WeightProfileName, WeightProfile> = {
+  default: {
+    name: 'default',
+    description:
+      'Balanced vibe matching (55% feel, 21% structure, 14% metadata, 10% texture)',
+    weights: {
+      valence: 0.14,
+      energy: 0.14,
+      danceability: 0.11,
+      tempo: 0.09,
+      acousticness: 0.07,
+      keyMode: 0.09,
+      timeSignature: 0.04,
+      loudness: 0.04,
+      duration: 0.04,
+      genre: 0.07,
+      artist: 0.04,
+      era: 0.03,
+      instrumentalness: 0.04,
+      speechiness: 0.04,
+      liveness: 0.02,
+    },
+  },
+  party: {
+    name: 'party',
+    description: 'Dance floor flow: energy, danceability and tempo dominate',
+    weights: {
+      valence: 0.11,
+      energy: 0.17,
+      danceability: 0.17,
+      tempo: 0.13,
+      acousticness: 0.03,
+      keyMode: 0.04,
+      timeSignature: 0.03,
+      loudness: 0.05,
+      duration: 0.02,
+      genre: 0.09,
+      artist: 0.03,
+      era: 0.04,
+      instrumentalness: 0.03,
+      speechiness: 0.04,
+      liveness: 0.02,
+    },
+  },
+  chill: {
+    name: 'chill',
+    description: 'Mood-first matching that rewards similar acoustic texture',
+    weights: {
+      valence: 0.17,
+      energy: 0.15,
+      danceability: 0.05,
+      tempo: 0.07,
+      acousticness: 0.12,
+      keyMode: 0.08,
+      timeSignature: 0.03,
+      loudness: 0.06,
+      duration: 0.03,
+      genre: 0.09,
+      artist: 0.03,
+      era: 0.02,
+      instrumentalness: 0.05,
+      speechiness: 0.04,
+      liveness: 0.01,
+    },
+  },
+  harmonic: {
+    name: 'harmonic',
+    description: 'Key, tempo and meter compatibility for mixing songs together',
+    weights: {
+      valence: 0.09,
+      energy: 0.09,
+      danceability: 0.07,
+      tempo: 0.13,
+      acousticness: 0.04,
+      keyMode: 0.24,
+      timeSignature: 0.08,
+      loudness: 0.04,
+      duration: 0.03,
+      genre: 0.07,
+      artist: 0.03,
+      era: 0.02,
+      instrumentalness: 0.03,
+      speechiness: 0.03,
+      liveness: 0.01,
+    },
+  },
+};
+
+/**
+ * Validate component weights
+ * Returns a list of problems (empty when the weights are valid)
+ */
+export function validateComponentWeights(weights: ComponentWeights): string[] {
+  const errors: string[] = [];
+
+  for (const component of MATCH_COMPONENTS) {
+    const weight = weights[component];
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+      errors.push(`Missing weight for component "${component}"`);
+    } else if (weight < 0) {
+      errors.push(`Weight for component "${component}" must not be negative`);
+    }
+  }
+
+  const total = MATCH_COMPONENTS.reduce((sum, component) => sum + (weights[component] || 0), 0);
+  if (Math.abs(total - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push(`Component weights must sum to 1 (got ${total.toFixed(4)})`);
+  }
+
+  return errors;
+}
+
+export function isWeightProfileName(name: string): name is WeightProfileName {
+  return (WEIGHT_PROFILE_NAMES as readonly string[]).includes(name);
+}
+
+// Fail fast on startup if a profile was edited incorrectly
+for (const profile of Object.values(WEIGHT_PROFILES)) {
+  const errors = validateComponentWeights(profile.weights);
+  if (errors.length > 0) {
+    throw new Error(`Invalid weight profile "${profile.name}": ${errors.join('; ')}`);
+  }
+}
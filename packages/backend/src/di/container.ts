@@ -4,10 +4,34 @@ import { PrismaClient } from '@prisma/client';
 import { Redis } from 'ioredis';
 import { prisma } from '../config/database';
 import { redis } from '../config/redis';
+import { env } from '../config/env';
 import { MatchingService } from '../services/matching.service';
+import { GenreTaxonomyService } from '../services/genreTaxonomy.service';
+import { MessageCatalogService } from '../services/messageCatalog.service';
+import { ScoreCalibrationService } from '../services/scoreCalibration.service';
 import { MatchCacheService } from '../services/matchCache.service';
+import { MatchHistoryService } from '../services/matchHistory.service';
+import { MatchVisualizationService } from '../services/matchVisualization.service';
+import { WeightCalibrationService } from '../services/weightCalibration.service';
 import { SpotifyService } from '../services/spotify.service';
+import { AppleMusicService } from '../services/appleMusic.service';
+import { YouTubeService } from '../services/youtube.service';
+import { SpotifyProvider } from '../providers/spotify.provider';
+import { AppleMusicProvider } from '../providers/appleMusic.provider';
+import { YouTubeProvider } from '../providers/youtube.provider';
+import { ProviderRegistryService } from '../services/providerRegistry.service';
+import { MusicProvider } from '../types/provider.types';
+import { ArtistGraphService } from '../services/artistGraph.service';
+import { FeatureEstimationService } from '../services/featureEstimation.service';
+import { AudioAnalysisService } from '../services/audioAnalysis.service';
 import { SongCacheService } from '../services/songCache.service';
+import { SongIndexService } from '../services/songIndex.service';
+import { PlaylistAnalysisService } from '../services/playlistAnalysis.service';
+import { PlaylistSequencerService } from '../services/playlistSequencer.service';
+import { VibePromptService } from '../services/vibePrompt.service';
+import { CounterfactualService } from '../services/counterfactual.service';
+import { SongResolverService } from '../services/songResolver.service';
+import { GameService } from '../services/game.service';
 
 /**
  * Dependency Injection Container Setup
@@ -21,12 +45,42 @@ container.registerInstance<PrismaClient>('PrismaClient', prisma);
 container.registerInstance<Redis>('Redis', redis);
 
 // Register matching services
+container.registerSingleton<GenreTaxonomyService>(GenreTaxonomyService);
+container.registerSingleton<MessageCatalogService>(MessageCatalogService);
+container.registerSingleton<ScoreCalibrationService>(ScoreCalibrationService);
 container.registerSingleton<MatchingService>(MatchingService);
 container.registerSingleton<MatchCacheService>(MatchCacheService);
+container.registerSingleton<MatchHistoryService>(MatchHistoryService);
+container.registerSingleton<MatchVisualizationService>(MatchVisualizationService);
+container.registerSingleton<WeightCalibrationService>(WeightCalibrationService);
+container.registerSingleton<VibePromptService>(VibePromptService);
 
 // Register music services
 container.registerSingleton<SpotifyService>(SpotifyService);
+container.registerSingleton<AppleMusicService>(AppleMusicService);
+container.registerSingleton<YouTubeService>(YouTubeService);
+container.registerSingleton<ArtistGraphService>(ArtistGraphService);
+container.registerSingleton<FeatureEstimationService>(FeatureEstimationService);
+container.registerSingleton<AudioAnalysisService>(AudioAnalysisService);
 container.registerSingleton<SongCacheService>(SongCacheService);
+container.registerSingleton<SongIndexService>(SongIndexService);
+container.registerSingleton<PlaylistAnalysisService>(PlaylistAnalysisService);
+container.registerSingleton<PlaylistSequencerService>(PlaylistSequencerService);
+container.registerSingleton<CounterfactualService>(CounterfactualService);
+container.registerSingleton<SongResolverService>(SongResolverService);
+
+// Register game services
+container.registerSingleton<GameService>(GameService);
+
+// Register music providers (one per platform, looked up by ProviderRegistryService)
+container.registerSingleton<MusicProvider>('MusicProvider', SpotifyProvider);
+if (env.APPLE_MUSIC_TEAM_ID && env.APPLE_MUSIC_KEY_ID && env.APPLE_MUSIC_PRIVATE_KEY) {
+  container.registerSingleton<MusicProvider>('MusicProvider', AppleMusicProvider);
+}
+if (env.YOUTUBE_API_KEY) {
+  container.registerSingleton<MusicProvider>('MusicProvider', YouTubeProvider);
+}
+container.registerSingleton<ProviderRegistryService>(ProviderRegistryService);
 
 // Register repositories (will be implemented later)
 // Example:
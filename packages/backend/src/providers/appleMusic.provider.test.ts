@@ -0,0 +1,179 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { generateKeyPairSync } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { AppleMusicProvider } from './appleMusic.provider';
+import { AppleMusicService } from '../services/appleMusic.service';
+import { AppleMusicSong } from '../types/appleMusic.types';
+
+describe('AppleMusicProvider', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  const song = (id: string): AppleMusicSong => ({
+    id,
+    type: 'songs',
+    attributes: {
+      name: `Song ${id}`,
+      artistName: 'Calvin Harris & Rihanna',
+      albumName: '18 Months',
+      releaseDate: '2012-10-26',
+      durationInMillis: 222000,
+      genreNames: ['Dance', 'Music'],
+      isrc: 'GBARL1100728',
+      url: `https://music.apple.com/us/song/${id}`,
+      artwork: {
+        url: 'https://is1-ssl.mzstatic.com/image/{w}x{h}bb.jpg',
+        width: 3000,
+        height: 3000,
+      },
+      previews: [{ url: `https://audio-ssl.itunes.apple.com/${id}.m4a` }],
+      contentRating: 'explicit',
+    },
+    relationships: {
+      artists: {
+        data: [
+          { id: 'a1', type: 'artists', attributes: { name: 'Calvin Harris' } },
+          { id: 'a2', type: 'artists', attributes: { name: 'Rihanna' } },
+        ],
+      },
+      albums: { data: [{ id: 'al1', type: 'albums' }] },
+    },
+  });
+
+  // Local stand-in for api.music.apple.com: routes by path, records requests
+  let server: Server;
+  let requests: IncomingMessage[];
+  let routes: Record<string, { status?: number; body: unknown }>;
+  let provider: AppleMusicProvider;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const route = routes[new URL(req.url!, 'http://localhost').pathname];
+      res.writeHead(route?.status ?? (route ? 200 : 404), { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(route?.body ?? { errors: [{ status: '404', title: 'Not Found' }] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    Object.assign(env, {
+      APPLE_MUSIC_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      APPLE_MUSIC_STOREFRONT: 'us',
+      APPLE_MUSIC_TEAM_ID: 'TEAM123456',
+      APPLE_MUSIC_KEY_ID: 'KEY1234567',
+      // Escaped newlines, as the key is usually stored in .env
+      APPLE_MUSIC_PRIVATE_KEY: privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString()
+        .replace(/\n/g, '\\n'),
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    routes = {};
+    provider = new AppleMusicProvider(new AppleMusicService());
+  });
+
+  it('should sign ES256 developer tokens for the team and key', async () => {
+    routes['/v1/catalog/us/songs/s1'] = { body: { data: [song('s1')] } };
+
+    await provider.getTrack('s1');
+    await provider.getTrack('s1');
+
+    const tokens = requests.map((req) => req.headers.authorization!.replace('Bearer ', ''));
+    const payload = jwt.verify(tokens[0]!, publicKey, { algorithms: ['ES256'] }) as jwt.JwtPayload;
+    expect(payload.iss).toBe('TEAM123456');
+    expect(jwt.decode(tokens[0]!, { complete: true })?.header.kid).toBe('KEY1234567');
+    expect(tokens[1]).toBe(tokens[0]); // Reused until it nears expiry
+  });
+
+  it('should map catalog songs to provider tracks', async () => {
+    routes['/v1/catalog/us/songs/s1'] = { body: { data: [song('s1')] } };
+
+    const track = await provider.getTrack('s1');
+
+    expect(track).toMatchObject({
+      id: 's1',
+      name: 'Song s1',
+      artist: 'Calvin Harris & Rihanna',
+      artistId: 'a1',
+      artists: [
+        { id: 'a1', name: 'Calvin Harris' },
+        { id: 'a2', name: 'Rihanna' },
+      ],
+      albumId: 'al1',
+      releaseYear: 2012,
+      durationMs: 222000,
+      previewUrl: 'https://audio-ssl.itunes.apple.com/s1.m4a',
+      externalUrl: 'https://music.apple.com/us/song/s1',
+      imageUrl: 'https://is1-ssl.mzstatic.com/image/3000x3000bb.jpg',
+      explicit: true,
+      isrc: 'GBARL1100728',
+      genres: ['dance'],
+      platform: 'apple',
+    });
+    expect(requests[0]!.url).toContain('include=artists,albums');
+  });
+
+  it('should find catalog songs by ISRC', async () => {
+    routes['/v1/catalog/us/songs'] = { body: { data: [song('s1')] } };
+
+    const tracks = await provider.findByIsrc('GBARL1100728');
+
+    expect(tracks.map((track) => track.id)).toEqual(['s1']);
+    expect(requests[0]!.url).toContain('filter%5Bisrc%5D=GBARL1100728');
+  });
+
+  it('should search the catalog within Apple page limits', async () => {
+    routes['/v1/catalog/gb/search'] = {
+      body: {
+        results: {
+          songs: { data: [song('s1'), song('s2')], next: '/v1/catalog/gb/search?offset=2' },
+        },
+      },
+    };
+
+    const result = await provider.search({ query: 'we found love', limit: 50, market: 'GB' });
+
+    const params = new URL(requests[0]!.url!, 'http://localhost').searchParams;
+    expect(params.get('term')).toBe('we found love');
+    expect(params.get('limit')).toBe('25');
+    expect(result.tracks.map((track) => track.id)).toEqual(['s1', 's2']);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should report no audio features', async () => {
+    await expect(provider.getFeatures()).resolves.toBeNull();
+    await expect(provider.getFeaturesBatch()).resolves.toEqual(new Map());
+  });
+
+  it('should read the user library with the music user token', async () => {
+    routes['/v1/me/recent/played/tracks'] = {
+      body: { data: [song('s1'), { ...song('i.upload'), type: 'library-songs' as 'songs' }] },
+    };
+
+    const tracks = await provider.getUserRecentlyPlayed('music-user-token', { limit: 5 });
+
+    expect(requests[0]!.headers['music-user-token']).toBe('music-user-token');
+    expect(tracks.map((track) => track.id)).toEqual(['s1']);
+  });
+
+  it('should convert API errors', async () => {
+    await expect(provider.getTrack('missing')).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'NOT_FOUND',
+    });
+
+    routes['/v1/me/recent/played/tracks'] = { status: 403, body: { errors: [] } };
+    await expect(provider.getUserRecentlyPlayed('expired')).rejects.toMatchObject({
+      code: 'APPLE_MUSIC_AUTH_ERROR',
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { injectable } from 'tsyringe';
+import { AppleMusicService } from '../services/appleMusic.service';
+import { AppleMusicSong } from '../types/appleMusic.types';
+import { SongSearchFilters } from '../types/spotify.types';
+import {
+  LibraryOptions,
+  MusicProvider,
+  ProviderAudioFeatures,
+  ProviderSearchResult,
+  ProviderTrack,
+} from '../types/provider.types';
+
+/**
+ * AppleMusicProvider
+ *
+ * MusicProvider backed by the Apple Music API (see AppleMusicService).
+ * Apple Music publishes no audio features, so SongCache estimates them
+ * (metadata plus preview analysis), and there is no related-artist graph.
+ */
+@injectable()
+export class AppleMusicProvider implements MusicProvider {
+  readonly platform = 'apple';
+
+  private readonly MAX_SONGS_PER_REQUEST = 300;
+
+  // Apple has no popularity score; neutral so estimates aren't skewed
+  private readonly DEFAULT_POPULARITY = 50;
+
+  // Catch-all genre on every song
+  private readonly GENERIC_GENRE = 'music';
+
+  constructor(private appleMusicService: AppleMusicService) {}
+
+  async search(filters: SongSearchFilters): Promise<ProviderSearchResult> {
+    const { results } = await this.appleMusicService.searchSongs(filters);
+    const tracks = (results.songs?.data ?? []).map((song) => this.toTrack(song));
+    const offset = filters.offset || 0;
+    const hasMore = results.songs?.next !== undefined;
+
+    // Apple reports no total; count what has been seen, plus one while there are more pages
+    return {
+      tracks,
+      total: offset + tracks.length + (hasMore ? 1 : 0),
+      limit: tracks.length,
+      offset,
+      hasMore,
+    };
+  }
+
+  async getTrack(trackId: string): Promise<ProviderTrack> {
+    return this.toTrack(await this.appleMusicService.getSong(trackId));
+  }
+
+  async getTracks(trackIds: string[]): Promise<ProviderTrack[]> {
+    const tracks: ProviderTrack[] = [];
+    for (let i = 0; i < trackIds.length; i += this.MAX_SONGS_PER_REQUEST) {
+      const chunk = trackIds.slice(i, i + this.MAX_SONGS_PER_REQUEST);
+      const songs = await this.appleMusicService.getMultipleSongs(chunk);
+      tracks.push(...songs.map((song) => this.toTrack(song)));
+    }
+    return tracks;
+  }
+
+  async getFeatures(): Promise<ProviderAudioFeatures | null> {
+    return null;
+  }
+
+  async getFeaturesBatch(): Promise<Map<string, ProviderAudioFeatures>> {
+    return new Map();
+  }
+
+  async findByIsrc(isrc: string): Promise<ProviderTrack[]> {
+    const songs = await this.appleMusicService.getSongsByIsrc(isrc);
+    return songs.map((song) => this.toTrack(song));
+  }
+
+  /**
+   * Apple Music exposes no per-user top tracks (or play counts); recently
+   * played songs are the closest signal, so timeRange is ignored
+   */
+  async getUserTopTracks(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    return this.getUserRecentlyPlayed(userToken, options);
+  }
+
+  async getUserRecentlyPlayed(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    const songs = await this.appleMusicService.getRecentlyPlayedSongs(userToken, {
+      limit: options.limit,
+    });
+    return songs.map((song) => this.toTrack(song));
+  }
+
+  /**
+   * Convert an Apple Music song to provider track metadata
+   * Credited artists come from the artists relationship when it was included
+   */
+  private toTrack(song: AppleMusicSong): ProviderTrack {
+    const { attributes, relationships } = song;
+    const artists = (relationships?.artists?.data ?? []).map((artist) => ({
+      id: artist.id,
+      name: artist.attributes?.name ?? attributes.artistName,
+    }));
+    const artwork = attributes.artwork;
+
+    return {
+      id: song.id,
+      name: attributes.name,
+      artist: attributes.artistName,
+      artistId: artists[0]?.id ?? '',
+      artists: artists.length > 0 ? artists : undefined,
+      album: attributes.albumName,
+      albumId: relationships?.albums?.data[0]?.id ?? '',
+      releaseYear: attributes.releaseDate ? parseInt(attributes.releaseDate.substring(0, 4)) : 0,
+      durationMs: attributes.durationInMillis,
+      previewUrl: attributes.previews[0]?.url ?? null, // AAC (.m4a), not analyzed
+      externalUrl: attributes.url,
+      imageUrl: artwork
+        ? artwork.url.replace('{w}', String(artwork.width)).replace('{h}', String(artwork.height))
+        : null,
+      popularity: this.DEFAULT_POPULARITY,
+      explicit: attributes.contentRating === 'explicit',
+      isrc: attributes.isrc?.toUpperCase(),
+      genres: attributes.genreNames
+        .map((genre) => genre.toLowerCase())
+        .filter((genre) => genre !== this.GENERIC_GENRE),
+      platform: this.platform,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SpotifyProvider } from './spotify.provider';
+import { SpotifyService } from '../services/spotify.service';
+import { SpotifyAudioFeatures, SpotifyTrack } from '../types/spotify.types';
+
+describe('SpotifyProvider', () => {
+  const track = (id: string): SpotifyTrack => ({
+    id,
+    name: `Song ${id}`,
+    artists: [
+      {
+        id: 'artist-1',
+        name: 'Night Drive',
+        genres: ['house'],
+        external_urls: { spotify: 'https://open.spotify.com/artist/artist-1' },
+      },
+    ],
+    album: {
+      id: 'album-1',
+      name: 'Album',
+      artists: [],
+      release_date: '2019-05-01',
+      images: [{ url: 'https://i.scdn.co/image/large', height: 640, width: 640 }],
+      external_urls: { spotify: 'https://open.spotify.com/album/album-1' },
+    },
+    duration_ms: 200000,
+    preview_url: null,
+    external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    popularity: 60,
+    explicit: false,
+    external_ids: { isrc: 'usabc1900001' },
+  });
+
+  const features = (id: string) => ({ id, tempo: 124 }) as SpotifyAudioFeatures;
+
+  let spotifyService: Record<
+    'getTrack' | 'getMultipleTracks' | 'getMultipleAudioFeatures' | 'searchTracks',
+    ReturnType<typeof vi.fn>
+  >;
+  let provider: SpotifyProvider;
+
+  beforeEach(() => {
+    spotifyService = {
+      getTrack: vi.fn(async (id: string) => track(id)),
+      getMultipleTracks: vi.fn(async (ids: string[]) => ids.map(track)),
+      getMultipleAudioFeatures: vi.fn(async (ids: string[]) => ids.map(features)),
+      searchTracks: vi.fn(async () => ({ tracks: { items: [track('t1')] } })),
+    };
+    provider = new SpotifyProvider(spotifyService as unknown as SpotifyService);
+  });
+
+  it('should convert Spotify tracks to provider tracks', async () => {
+    const result = await provider.getTrack('t1');
+
+    expect(result).toMatchObject({
+      id: 't1',
+      artist: 'Night Drive',
+      artistId: 'artist-1',
+      releaseYear: 2019,
+      imageUrl: 'https://i.scdn.co/image/large',
+      genres: ['house'],
+      isrc: 'USABC1900001',
+      platform: 'spotify',
+    });
+  });
+
+  it('should find tracks by ISRC', async () => {
+    const tracks = await provider.findByIsrc('USABC1900001');
+
+    expect(spotifyService.searchTracks).toHaveBeenCalledWith({
+      query: 'isrc:USABC1900001',
+      limit: 5,
+    });
+    expect(tracks.map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('should split batch lookups into Spotify request limits', async () => {
+    const ids = Array.from({ length: 120 }, (_, i) => `t${i}`);
+
+    const tracks = await provider.getTracks(ids);
+    const featuresById = await provider.getFeaturesBatch(tracks);
+
+    expect(spotifyService.getMultipleTracks.mock.calls.map(([chunk]) => chunk.length)).toEqual([
+      50, 50, 20,
+    ]);
+    expect(spotifyService.getMultipleAudioFeatures).toHaveBeenCalledTimes(2);
+    expect(tracks).toHaveLength(120);
+    expect(featuresById.size).toBe(120);
+  });
+
+  it('should leave out tracks without features', async () => {
+    spotifyService.getMultipleAudioFeatures.mockResolvedValue([features('t1'), null]);
+
+    const featuresById = await provider.getFeaturesBatch(await provider.getTracks(['t1', 't2']));
+
+    expect([...featuresById.keys()]).toEqual(['t1']);
+  });
+});
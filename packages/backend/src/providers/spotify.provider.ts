@@ -0,0 +1,132 @@
+import { injectable } from 'tsyringe';
+import { SpotifyService } from '../services/spotify.service';
+import { SongSearchFilters, SpotifyTrack } from '../types/spotify.types';
+import {
+  LibraryOptions,
+  MusicProvider,
+  ProviderArtist,
+  ProviderAudioFeatures,
+  ProviderSearchResult,
+  ProviderTrack,
+} from '../types/provider.types';
+
+/**
+ * SpotifyProvider
+ *
+ * MusicProvider backed by the Spotify Web API (see SpotifyService).
+ * Batch lookups are split into Spotify's per-request limits.
+ */
+@injectable()
+export class SpotifyProvider implements MusicProvider {
+  readonly platform = 'spotify';
+
+  private readonly MAX_TRACKS_PER_REQUEST = 50;
+  private readonly MAX_FEATURES_PER_REQUEST = 100;
+
+  constructor(private spotifyService: SpotifyService) {}
+
+  async search(filters: SongSearchFilters): Promise<ProviderSearchResult> {
+    const { tracks } = await this.spotifyService.searchTracks(filters);
+
+    return {
+      tracks: tracks.items.map((track) => this.toTrack(track)),
+      total: tracks.total,
+      limit: tracks.limit,
+      offset: tracks.offset,
+      hasMore: tracks.next !== null,
+    };
+  }
+
+  async getTrack(trackId: string): Promise<ProviderTrack> {
+    return this.toTrack(await this.spotifyService.getTrack(trackId));
+  }
+
+  async getTracks(trackIds: string[]): Promise<ProviderTrack[]> {
+    const tracks: ProviderTrack[] = [];
+    for (const chunk of this.chunk(trackIds, this.MAX_TRACKS_PER_REQUEST)) {
+      const fetched = await this.spotifyService.getMultipleTracks(chunk);
+      tracks.push(...fetched.map((track) => this.toTrack(track)));
+    }
+    return tracks;
+  }
+
+  async getFeatures(track: ProviderTrack): Promise<ProviderAudioFeatures | null> {
+    return (await this.spotifyService.getAudioFeatures(track.id)) ?? null;
+  }
+
+  async getFeaturesBatch(tracks: ProviderTrack[]): Promise<Map<string, ProviderAudioFeatures>> {
+    const features = new Map<string, ProviderAudioFeatures>();
+    const trackIds = tracks.map((track) => track.id);
+    for (const chunk of this.chunk(trackIds, this.MAX_FEATURES_PER_REQUEST)) {
+      // Tracks without features come back as null entries
+      const fetched = await this.spotifyService.getMultipleAudioFeatures(chunk);
+      for (const item of fetched) {
+        if (item) features.set(item.id, item);
+      }
+    }
+    return features;
+  }
+
+  async getUserTopTracks(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    const response = await this.spotifyService.getUserTopTracks(userToken, options);
+    return response.items.map((track) => this.toTrack(track));
+  }
+
+  async getUserRecentlyPlayed(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    const response = await this.spotifyService.getUserRecentlyPlayed(userToken, {
+      limit: options.limit,
+    });
+    return response.items.map((item) => this.toTrack(item.track));
+  }
+
+  async findByIsrc(isrc: string): Promise<ProviderTrack[]> {
+    const { tracks } = await this.spotifyService.searchTracks({ query: `isrc:${isrc}`, limit: 5 });
+    return tracks.items.map((track) => this.toTrack(track));
+  }
+
+  async getRelatedArtists(artistId: string): Promise<ProviderArtist[]> {
+    const artists = await this.spotifyService.getRelatedArtists(artistId);
+    return artists.map((artist) => ({ id: artist.id, name: artist.name }));
+  }
+
+  /**
+   * Convert a Spotify track to provider track metadata
+   * Genres come from the main artist
+   */
+  private toTrack(track: SpotifyTrack): ProviderTrack {
+    return {
+      id: track.id,
+      name: track.name,
+      artist: track.artists[0]?.name || 'Unknown Artist',
+      artistId: track.artists[0]?.id || '',
+      artists: track.artists.map((artist) => ({ id: artist.id, name: artist.name })),
+      album: track.album.name,
+      albumId: track.album.id,
+      releaseYear: track.album.release_date
+        ? parseInt(track.album.release_date.substring(0, 4))
+        : 0,
+      durationMs: track.duration_ms,
+      previewUrl: track.preview_url,
+      externalUrl: track.external_urls.spotify,
+      spotifyUrl: track.external_urls.spotify,
+      imageUrl: track.album.images[0]?.url ?? null, // Largest first
+      popularity: track.popularity,
+      explicit: track.explicit,
+      isrc: track.external_ids?.isrc?.toUpperCase(),
+      genres: track.artists[0]?.genres || [],
+      platform: this.platform,
+    };
+  }
+
+  private chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+  }
+}
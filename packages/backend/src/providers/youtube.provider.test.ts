@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { env } from '../config/env';
+import { YouTubeProvider } from './youtube.provider';
+import { YouTubeService } from '../services/youtube.service';
+import { SpotifyService } from '../services/spotify.service';
+import { SpotifyAudioFeatures, SpotifyTrack } from '../types/spotify.types';
+
+describe('YouTubeProvider', () => {
+  // Recorded responses (see src/test/fixtures/youtube/README.md)
+  const fixture = (name: string) =>
+    JSON.parse(readFileSync(new URL(`../test/fixtures/youtube/${name}`, import.meta.url), 'utf8'));
+
+  const spotifyTrack = (id: string, durationMs: number) =>
+    ({ id, duration_ms: durationMs }) as SpotifyTrack;
+  const features = (id: string) => ({ id, tempo: 124 }) as SpotifyAudioFeatures;
+
+  // Local stand-in for www.googleapis.com serving the fixtures
+  let server: Server;
+  let requests: URL[];
+  let spotifyService: Record<
+    'searchTracks' | 'getAudioFeatures' | 'getMultipleAudioFeatures',
+    ReturnType<typeof vi.fn>
+  >;
+  let provider: YouTubeProvider;
+
+  const respond = (url: URL, req: IncomingMessage) => {
+    const params = url.searchParams;
+    if (url.pathname === '/youtube/v3/search') {
+      return fixture(params.get('pageToken') ? 'search-page-2.json' : 'search-page-1.json');
+    }
+    if (params.get('myRating') === 'like') {
+      const authorized = req.headers.authorization === 'Bearer user-token';
+      return authorized ? fixture('liked-videos.json') : null;
+    }
+    const ids = params.get('id')!.split(',');
+    const videos = fixture('videos.json');
+    return { ...videos, items: videos.items.filter((v: { id: string }) => ids.includes(v.id)) };
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url);
+      const body = url.searchParams.get('key') === 'test-key' ? respond(url, req) : null;
+      res.writeHead(body ? 200 : 401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body ?? { error: { code: 401, message: 'Invalid credentials' } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    Object.assign(env, {
+      YOUTUBE_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      YOUTUBE_API_KEY: 'test-key',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    spotifyService = {
+      searchTracks: vi.fn(async ({ query }: { query: string }) => ({
+        tracks: {
+          items: query.startsWith('isrc:USUM71115208')
+            ? [spotifyTrack('sp-we-found-love', 215227)]
+            : query.includes('Midnight City')
+              ? [
+                  spotifyTrack('sp-midnight-city-edit', 200000),
+                  spotifyTrack('sp-midnight-city', 243960),
+                ]
+              : [spotifyTrack('sp-get-lucky-edit', 248413)],
+        },
+      })),
+      getAudioFeatures: vi.fn(async (id: string) => features(id)),
+      getMultipleAudioFeatures: vi.fn(async (ids: string[]) => ids.map(features)),
+    };
+    provider = new YouTubeProvider(
+      new YouTubeService(),
+      spotifyService as unknown as SpotifyService
+    );
+  });
+
+  it('should page through search results to reach the offset', async () => {
+    const result = await provider.search({ query: 'night drive', limit: 1, offset: 2 });
+
+    expect(requests.filter((url) => url.pathname.endsWith('/search'))).toHaveLength(2);
+    expect(result.tracks.map((track) => track.id)).toEqual(['5NV6Rdv1a3I']);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should normalize video titles into artist and song', async () => {
+    const [video, topic, audio] = await provider.getTracks([
+      'tg00YEETFzg',
+      'Q6-bw6RU6ts',
+      '5NV6Rdv1a3I',
+    ]);
+
+    expect(video).toMatchObject({
+      name: 'We Found Love',
+      artist: 'Rihanna',
+      artistId: 'UC2xskkQVFEpLcGFnNSLQY0A',
+      releaseYear: 2011,
+      durationMs: 278000,
+      popularity: 91,
+      imageUrl: 'https://i.ytimg.com/vi/tg00YEETFzg/maxresdefault.jpg',
+      externalUrl: 'https://www.youtube.com/watch?v=tg00YEETFzg',
+      platform: 'youtube',
+    });
+    expect(video!.artists!.map((artist) => artist.name)).toEqual(['Rihanna', 'Calvin Harris']);
+    expect(topic).toMatchObject({ name: 'Midnight City', artist: 'M83', releaseYear: 2011 });
+    expect(audio!.artists!.map((artist) => artist.name)).toEqual([
+      'Daft Punk',
+      'Pharrell Williams',
+      'Nile Rodgers',
+    ]);
+  });
+
+  it('should take features from the same ISRC on Spotify', async () => {
+    const track = await provider.getTrack('tg00YEETFzg');
+    requests = [];
+
+    const result = await provider.getFeatures(track);
+
+    // The video was already fetched with the track
+    expect(requests).toHaveLength(0);
+    expect(spotifyService.searchTracks).toHaveBeenCalledWith({
+      query: 'isrc:USUM71115208',
+      limit: 1,
+    });
+    expect(spotifyService.getAudioFeatures).toHaveBeenCalledWith('sp-we-found-love');
+    expect(result).toMatchObject({ id: 'tg00YEETFzg', tempo: 124 });
+  });
+
+  it('should fall back to title and artist with a matching duration', async () => {
+    const result = await provider.getFeaturesBatch(
+      await provider.getTracks(['Q6-bw6RU6ts', '5NV6Rdv1a3I'])
+    );
+
+    expect(spotifyService.searchTracks).toHaveBeenCalledWith({
+      query: 'track:Midnight City artist:M83',
+      limit: 5,
+    });
+    // The radio edit of Get Lucky is too short to be the same recording
+    expect(spotifyService.getMultipleAudioFeatures).toHaveBeenCalledWith(['sp-midnight-city']);
+    expect([...result.keys()]).toEqual(['Q6-bw6RU6ts']);
+  });
+
+  it('should read liked music videos with the user token', async () => {
+    const tracks = await provider.getUserRecentlyPlayed('user-token');
+
+    expect(tracks.map((track) => track.id)).toEqual(['tg00YEETFzg']);
+  });
+
+  it('should convert API errors', async () => {
+    await expect(provider.getTrack('unknown')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(provider.getUserRecentlyPlayed('expired')).rejects.toMatchObject({
+      statusCode: 401,
+      code: 'YOUTUBE_AUTH_ERROR',
+    });
+  });
+});
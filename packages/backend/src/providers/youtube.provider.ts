@@ -0,0 +1,236 @@
+import { injectable } from 'tsyringe';
+import { logger } from '../utils/logger';
+import { parseVideoTitle } from '../utils/videoTitles';
+import { YouTubeService } from '../services/youtube.service';
+import { SpotifyService } from '../services/spotify.service';
+import { YouTubeVideo } from '../types/youtube.types';
+import { SongSearchFilters, SpotifyTrack } from '../types/spotify.types';
+import {
+  LibraryOptions,
+  MusicProvider,
+  ProviderAudioFeatures,
+  ProviderSearchResult,
+  ProviderTrack,
+} from '../types/provider.types';
+
+// "ISRC: USUM71115208" or "ISRC US-UM7-11-15208", as labels put it in descriptions
+const DESCRIPTION_ISRC = /\bISRC:?\s*([A-Z]{2}-?[A-Z0-9]{3}-?\d{2}-?\d{5})\b/i;
+
+// "Released on: 2011-10-17" in auto-generated (Topic) descriptions
+const DESCRIPTION_RELEASE = /\bReleased on:\s*(\d{4})/i;
+
+const ISO_DURATION = /^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/;
+
+/**
+ * YouTubeProvider
+ *
+ * MusicProvider backed by the YouTube Data API (see YouTubeService).
+ * Artist and song title come from the video title ("Artist - Song (Official
+ * Video)") or the channel. YouTube has no audio features: they are taken
+ * from the same recording on Spotify, found by the ISRC in the description
+ * or, without one, by title and artist with a near-identical duration.
+ */
+@injectable()
+export class YouTubeProvider implements MusicProvider {
+  readonly platform = 'youtube';
+
+  private readonly MAX_VIDEOS_PER_REQUEST = 50;
+  private readonly MAX_FEATURES_PER_REQUEST = 100;
+
+  // Search pages are token-addressed, so offsets are reached by paging
+  private readonly MAX_SEARCH_RESULTS = 200;
+
+  // Official videos with intros or skits are a different length than the recording
+  private readonly DURATION_TOLERANCE_MS = 10000;
+  private readonly SPOTIFY_CANDIDATES = 5;
+
+  constructor(
+    private youtubeService: YouTubeService,
+    private spotifyService: SpotifyService
+  ) {}
+
+  async search(filters: SongSearchFilters): Promise<ProviderSearchResult> {
+    const limit = filters.limit || 20;
+    const offset = filters.offset || 0;
+    const wanted = Math.min(offset + limit, this.MAX_SEARCH_RESULTS);
+
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+    let total = 0;
+    do {
+      const page = await this.youtubeService.searchVideos(
+        { ...filters, limit: Math.min(wanted - videoIds.length, this.MAX_VIDEOS_PER_REQUEST) },
+        pageToken
+      );
+      videoIds.push(...page.items.map((item) => item.id.videoId));
+      total = page.pageInfo.totalResults;
+      pageToken = page.nextPageToken;
+    } while (pageToken && videoIds.length < wanted);
+
+    // Search results carry no duration or statistics
+    const tracks = await this.getTracks(videoIds.slice(offset, wanted));
+
+    return {
+      tracks,
+      total,
+      limit,
+      offset,
+      hasMore: pageToken !== undefined && wanted < this.MAX_SEARCH_RESULTS,
+    };
+  }
+
+  async getTrack(trackId: string): Promise<ProviderTrack> {
+    return this.toTrack(await this.youtubeService.getVideo(trackId));
+  }
+
+  async getTracks(trackIds: string[]): Promise<ProviderTrack[]> {
+    const videos = await this.getVideos(trackIds);
+    return videos.map((video) => this.toTrack(video));
+  }
+
+  async getFeatures(track: ProviderTrack): Promise<ProviderAudioFeatures | null> {
+    const spotifyTrack = await this.findOnSpotify(track);
+    if (!spotifyTrack) return null;
+
+    const features = await this.spotifyService.getAudioFeatures(spotifyTrack.id);
+    return features ? { ...features, id: track.id } : null;
+  }
+
+  async getFeaturesBatch(tracks: ProviderTrack[]): Promise<Map<string, ProviderAudioFeatures>> {
+    // Video ID by Spotify track ID
+    const videoIds = new Map<string, string>();
+    for (const track of tracks) {
+      try {
+        const spotifyTrack = await this.findOnSpotify(track);
+        if (spotifyTrack) videoIds.set(spotifyTrack.id, track.id);
+      } catch (error) {
+        logger.warn(`Spotify lookup failed for video ${track.id}:`, error);
+      }
+    }
+
+    const features = new Map<string, ProviderAudioFeatures>();
+    const spotifyIds = [...videoIds.keys()];
+    for (let i = 0; i < spotifyIds.length; i += this.MAX_FEATURES_PER_REQUEST) {
+      const chunk = spotifyIds.slice(i, i + this.MAX_FEATURES_PER_REQUEST);
+      // Tracks without features come back as null entries
+      const fetched = await this.spotifyService.getMultipleAudioFeatures(chunk);
+      for (const item of fetched) {
+        const videoId = item && videoIds.get(item.id);
+        if (videoId) features.set(videoId, { ...item, id: videoId });
+      }
+    }
+    return features;
+  }
+
+  /**
+   * YouTube has no play history or top tracks in its API; liked music
+   * videos stand in for both, so timeRange is ignored
+   */
+  async getUserTopTracks(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    return this.getUserRecentlyPlayed(userToken, options);
+  }
+
+  async getUserRecentlyPlayed(
+    userToken: string,
+    options: LibraryOptions = {}
+  ): Promise<ProviderTrack[]> {
+    const videos = await this.youtubeService.getLikedMusicVideos(userToken, {
+      limit: options.limit,
+    });
+    return videos.map((video) => this.toTrack(video));
+  }
+
+  /**
+   * The same recording on Spotify
+   * By ISRC when the description has one, otherwise the first title and
+   * artist match whose duration is within tolerance
+   */
+  private async findOnSpotify(track: ProviderTrack): Promise<SpotifyTrack | null> {
+    if (track.isrc) {
+      const { tracks } = await this.spotifyService.searchTracks({
+        query: `isrc:${track.isrc}`,
+        limit: 1,
+      });
+      if (tracks.items[0]) return tracks.items[0];
+    }
+
+    const { tracks } = await this.spotifyService.searchTracks({
+      query: `track:${track.name} artist:${track.artist}`,
+      limit: this.SPOTIFY_CANDIDATES,
+    });
+    return (
+      tracks.items.find(
+        (item) => Math.abs(item.duration_ms - track.durationMs) <= this.DURATION_TOLERANCE_MS
+      ) ?? null
+    );
+  }
+
+  private async getVideos(videoIds: string[]): Promise<YouTubeVideo[]> {
+    const videos: YouTubeVideo[] = [];
+    for (let i = 0; i < videoIds.length; i += this.MAX_VIDEOS_PER_REQUEST) {
+      const chunk = videoIds.slice(i, i + this.MAX_VIDEOS_PER_REQUEST);
+      videos.push(...(await this.youtubeService.getMultipleVideos(chunk)));
+    }
+    return videos;
+  }
+
+  /**
+   * Convert a video to provider track metadata
+   * The channel stands in for the main artist's ID; YouTube has no genres
+   */
+  private toTrack(video: YouTubeVideo): ProviderTrack {
+    const { snippet, contentDetails, statistics } = video;
+    const { artist, title } = parseVideoTitle(snippet.title, snippet.channelTitle);
+    const [main = artist, credit] = artist.split(' feat. ');
+    const featured = credit ? credit.split(/\s*(?:,|&)\s*/) : [];
+    const releaseYear =
+      snippet.description.match(DESCRIPTION_RELEASE)?.[1] ?? snippet.publishedAt.substring(0, 4);
+    const thumbnails = snippet.thumbnails;
+    const thumbnail =
+      thumbnails.maxres ?? thumbnails.standard ?? thumbnails.high ?? thumbnails.default;
+
+    return {
+      id: video.id,
+      name: title,
+      artist: main,
+      artistId: snippet.channelId,
+      artists: [
+        { id: snippet.channelId, name: main },
+        ...featured.map((name) => ({ id: '', name })),
+      ],
+      album: '',
+      albumId: '',
+      releaseYear: parseInt(releaseYear) || 0,
+      durationMs: this.parseDuration(contentDetails?.duration),
+      previewUrl: null,
+      externalUrl: `https://www.youtube.com/watch?v=${video.id}`,
+      imageUrl: thumbnail?.url ?? null, // Largest available
+      popularity: this.popularity(Number(statistics?.viewCount ?? 0)),
+      explicit: contentDetails?.contentRating?.ytRating === 'ytAgeRestricted',
+      isrc: snippet.description.match(DESCRIPTION_ISRC)?.[1]?.replace(/-/g, '').toUpperCase(),
+      genres: [],
+      platform: this.platform,
+    };
+  }
+
+  /**
+   * ISO 8601 duration (PT3M42S) in milliseconds
+   */
+  private parseDuration(duration: string | undefined): number {
+    const match = duration?.match(ISO_DURATION);
+    if (!match) return 0;
+    const [days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+    return (((days! * 24 + hours!) * 60 + minutes!) * 60 + seconds!) * 1000;
+  }
+
+  /**
+   * Rough 0-100 popularity from view count: 10 points per tenfold views
+   * (1M views = 60, 1B views = 90)
+   */
+  private popularity(views: number): number {
+    return views > 0 ? Math.min(100, Math.round(Math.log10(views) * 10)) : 0;
+  }
+}
@@ -0,0 +1,113 @@
+import { Request, Router } from 'express';
+import { container } from '../di/container';
+import { GameService } from '../services/game.service';
+import { MessageCatalogService } from '../services/messageCatalog.service';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from '../config/locales';
+import {
+  createGameSchema,
+  gameParamsSchema,
+  roundParamsSchema,
+  submitSongSchema,
+} from '../schemas/game.schemas';
+import { TargetMatchResult } from '../types/music.types';
+
+export const gameRouter = Router();
+
+// Get services from DI container
+const gameService = container.resolve(GameService);
+const messageCatalogService = container.resolve(MessageCatalogService);
+
+/**
+ * POST /api/v1/games
+ * Create a game with the settings its rounds are scored with
+ */
+gameRouter.post(
+  '/',
+  validate(createGameSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const game = await gameService.createGame(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: game,
+    });
+  })
+);
+
+/**
+ * GET /api/v1/games/:gameId
+ * Get game details
+ */
+gameRouter.get(
+  '/:gameId',
+  validate(gameParamsSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { gameId } = req.params as any;
+
+    const game = await gameService.getGame(gameId);
+
+    res.json({
+      success: true,
+      data: game,
+    });
+  })
+);
+
+/**
+ * POST /api/v1/games/:gameId/rounds/:roundNumber/submit-song
+ * Submit a song for the current round; the second song scores the round
+ */
+gameRouter.post(
+  '/:gameId/rounds/:roundNumber/submit-song',
+  validate(roundParamsSchema, 'params'),
+  validate(submitSongSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { gameId, roundNumber } = req.params as any;
+    const { playerId, songId, platform } = req.body;
+
+    const submission = await gameService.submitSong(gameId, roundNumber, playerId, {
+      platform,
+      id: songId,
+    });
+
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    res.json({
+      success: true,
+      data: {
+        ...submission,
+        match: submission.match && {
+          ...submission.match,
+          explanation: messageCatalogService.localizeExplanation(
+            submission.match.explanation,
+            locale
+          ),
+        },
+        targetMatches: submission.targetMatches && {
+          firstPlayer: localizeTargetMatch(submission.targetMatches.firstPlayer, locale),
+          secondPlayer: localizeTargetMatch(submission.targetMatches.secondPlayer, locale),
+        },
+      },
+    });
+  })
+);
+
+/**
+ * Localize the explanation of a song scored against a round's prompt
+ */
+function localizeTargetMatch(result: TargetMatchResult, locale: Locale): TargetMatchResult {
+  return {
+    ...result,
+    explanation: messageCatalogService.localizeTargetExplanation(result.explanation, locale),
+  };
+}
+
+/**
+ * Pick the explanation locale from Accept-Language, falling back to English
+ */
+function getLocale(req: Request): Locale {
+  return (req.acceptsLanguages(...SUPPORTED_LOCALES) || DEFAULT_LOCALE) as Locale;
+}
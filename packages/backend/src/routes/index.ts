@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { healthRouter } from './health.routes';
 import { musicRouter } from './music.routes';
+import { gameRouter } from './game.routes';
 
 /**
  * Main API Router (v1)
@@ -21,8 +22,8 @@ apiRouter.use('/music', musicRouter);
 // User routes (to be implemented)
 // apiRouter.use('/users', userRouter);
 
-// Game routes (to be implemented)
-// apiRouter.use('/games', gameRouter);
+// Game routes (sessions and round scoring)
+apiRouter.use('/games', gameRouter);
 
 // API info endpoint
 apiRouter.get('/', (req, res) => {
@@ -37,7 +38,7 @@ apiRouter.get('/', (req, res) => {
         music: '/api/v1/music',
         auth: '/api/v1/auth (coming soon)',
         users: '/api/v1/users (coming soon)',
-        games: '/api/v1/games (coming soon)',
+        games: '/api/v1/games',
       },
     },
   });
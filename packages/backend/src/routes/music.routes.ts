@@ -1,21 +1,56 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import { container } from '../di/container';
 import { SongCacheService } from '../services/songCache.service';
 import { MatchCacheService } from '../services/matchCache.service';
+import { MatchHistoryService } from '../services/matchHistory.service';
+import { MatchingService } from '../services/matching.service';
+import { SongIndexService } from '../services/songIndex.service';
+import { MessageCatalogService } from '../services/messageCatalog.service';
+import { MatchVisualizationService } from '../services/matchVisualization.service';
+import { PlaylistAnalysisService } from '../services/playlistAnalysis.service';
+import { PlaylistSequencerService } from '../services/playlistSequencer.service';
+import { VibePromptService } from '../services/vibePrompt.service';
+import { CounterfactualService } from '../services/counterfactual.service';
+import { SongResolverService } from '../services/songResolver.service';
 import { validate } from '../middleware/validation';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ALGORITHM_VERSIONS } from '../config/algorithmVersions';
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from '../config/locales';
 import {
   searchSongsSchema,
   getSongByIdSchema,
   getAudioFeaturesSchema,
   matchSongsSchema,
+  matchMatrixSchema,
+  findSimilarSongsSchema,
+  rateMatchParamsSchema,
+  rateMatchSchema,
+  counterfactualQuerySchema,
+  analyzePlaylistSchema,
+  sequencePlaylistSchema,
+  sequenceSavedPlaylistSchema,
+  playlistParamsSchema,
+  promptParamsSchema,
+  matchPromptSchema,
 } from '../schemas/music.schemas';
+import { CompactBreakdown, MatchResult } from '../types/music.types';
+import { CachedSong } from '../types/spotify.types';
 
 export const musicRouter = Router();
 
 // Get services from DI container
 const songCacheService = container.resolve(SongCacheService);
 const matchCacheService = container.resolve(MatchCacheService);
+const matchHistoryService = container.resolve(MatchHistoryService);
+const matchingService = container.resolve(MatchingService);
+const songIndexService = container.resolve(SongIndexService);
+const messageCatalogService = container.resolve(MessageCatalogService);
+const matchVisualizationService = container.resolve(MatchVisualizationService);
+const playlistAnalysisService = container.resolve(PlaylistAnalysisService);
+const playlistSequencerService = container.resolve(PlaylistSequencerService);
+const vibePromptService = container.resolve(VibePromptService);
+const counterfactualService = container.resolve(CounterfactualService);
+const songResolverService = container.resolve(SongResolverService);
 
 /**
  * GET /api/v1/music/search
@@ -25,14 +60,17 @@ musicRouter.get(
   '/search',
   validate(searchSongsSchema, 'query'),
   asyncHandler(async (req, res) => {
-    const { q, limit, offset, market } = req.query as any;
+    const { q, limit, offset, market, platform } = req.query as any;
 
-    const result = await songCacheService.searchSongs({
-      query: q,
-      limit,
-      offset,
-      market,
-    });
+    const result = await songCacheService.searchSongs(
+      {
+        query: q,
+        limit,
+        offset,
+        market,
+      },
+      platform
+    );
 
     res.json({
       success: true,
@@ -41,6 +79,41 @@ musicRouter.get(
   })
 );
 
+/**
+ * GET /api/v1/music/match/profiles
+ * List the weight profiles of the default algorithm version
+ */
+musicRouter.get(
+  '/match/profiles',
+  asyncHandler(async (req, res) => {
+    res.json({
+      success: true,
+      data: Object.values(matchingService.getAlgorithm().weightProfiles),
+    });
+  })
+);
+
+/**
+ * GET /api/v1/music/match/versions
+ * List available algorithm versions and the default
+ */
+musicRouter.get(
+  '/match/versions',
+  asyncHandler(async (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        defaultVersion: matchingService.getAlgorithmVersion(),
+        versions: Object.values(ALGORITHM_VERSIONS).map((algorithm) => ({
+          version: algorithm.version,
+          description: algorithm.description,
+          weightProfiles: Object.keys(algorithm.weightProfiles),
+        })),
+      },
+    });
+  })
+);
+
 /**
  * GET /api/v1/music/:platform/:songId
  * Get song by ID (with caching)
@@ -60,6 +133,53 @@ musicRouter.get(
   })
 );
 
+/**
+ * GET /api/v1/music/:platform/:songId/recording
+ * The canonical recording of a song and its copies on other platforms
+ */
+musicRouter.get(
+  '/:platform/:songId/recording',
+  validate(getSongByIdSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { platform, songId } = req.params as any;
+
+    const recording = await songResolverService.resolve({ platform, id: songId });
+
+    res.json({
+      success: true,
+      data: recording,
+    });
+  })
+);
+
+/**
+ * GET /api/v1/music/:platform/:songId/similar
+ * Find the most similar songs already in the song cache
+ */
+musicRouter.get(
+  '/:platform/:songId/similar',
+  validate(getSongByIdSchema, 'params'),
+  validate(findSimilarSongsSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { platform, songId } = req.params as any;
+    const { limit, yearFrom, yearTo, explicit, genre } = req.query as any;
+    const { weightProfile, keyScoring, algorithmVersion } = req.query as any;
+
+    const result = await songIndexService.findSimilar(
+      songId,
+      platform,
+      limit,
+      { yearFrom, yearTo, explicit, genre },
+      { weightProfile, keyScoring, algorithmVersion }
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
 /**
  * GET /api/v1/music/features/:platform/:songId
  * Get audio features for a song
@@ -87,31 +207,395 @@ musicRouter.post(
   '/match',
   validate(matchSongsSchema, 'body'),
   asyncHandler(async (req, res) => {
-    const { song1Id, song2Id, platform, includeExplanation, bypassCache } = req.body;
+    const {
+      song1Id,
+      song2Id,
+      platform,
+      song1Platform,
+      song2Platform,
+      includeExplanation,
+      bypassCache,
+      weightProfile,
+      keyScoring,
+      algorithmVersion,
+      mode,
+      calibrate,
+    } = req.body;
 
-    // Get audio features for both songs
+    // Songs can be from different platforms; estimated features are replaced
+    // by measured ones from the same recording on another platform
+    const song1 = { platform: song1Platform ?? platform, id: song1Id };
+    const song2 = { platform: song2Platform ?? platform, id: song2Id };
     const [features1, features2] = await Promise.all([
-      songCacheService.getAudioFeatures(song1Id, platform),
-      songCacheService.getAudioFeatures(song2Id, platform),
+      songResolverService.getAudioFeatures(song1),
+      songResolverService.getAudioFeatures(song2),
     ]);
 
-    // Calculate match (with caching)
+    // Calculate match (with caching). Cached per ordered pair, so the result
+    // is always in request order, like the features recorded below
     const matchResult = await matchCacheService.getMatch(
       features1,
       features2,
       song1Id,
       song2Id,
-      bypassCache
+      bypassCache,
+      { weightProfile, keyScoring, algorithmVersion, mode, calibrate }
     );
 
-    // Remove explanation if not requested
+    // Recorded so the match can be rated and explained later (null if storing failed)
+    const matchId = await matchHistoryService.recordMatch(song1, song2, matchResult, {
+      song1: features1,
+      song2: features2,
+    });
+
+    // Remove explanation if not requested, otherwise render it in the client's language
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
     const response = includeExplanation
-      ? matchResult
+      ? {
+          ...matchResult,
+          explanation: messageCatalogService.localizeExplanation(matchResult.explanation, locale),
+        }
       : { ...matchResult, explanation: undefined };
 
     res.json({
       success: true,
-      data: response,
+      data: { matchId, ...response },
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/match/:matchId/rating
+ * Submit a human rating for a computed match (used for weight calibration)
+ */
+musicRouter.post(
+  '/match/:matchId/rating',
+  validate(rateMatchParamsSchema, 'params'),
+  validate(rateMatchSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { matchId } = req.params as any;
+    const { humanScore, feedback } = req.body;
+
+    await matchHistoryService.rateMatch(matchId, humanScore, feedback);
+
+    res.json({
+      success: true,
+      data: { matchId, humanScore },
+    });
+  })
+);
+
+/**
+ * GET /api/v1/music/match/explain/:matchId
+ * Song metadata, breakdown, explanation and chart series for a recorded match
+ * overallScore is the calibrated score when the match was calibrated, else the raw score
+ */
+musicRouter.get(
+  '/match/explain/:matchId',
+  validate(rateMatchParamsSchema, 'params'),
+  asyncHandler(async (req, res) => {
+    const { matchId } = req.params as any;
+
+    const match = await matchHistoryService.getMatch(matchId);
+    const { song1Platform, song2Platform } = match;
+
+    // Matches recorded before features were stored use the current features
+    const [song1, song2, features1, features2] = await Promise.all([
+      songCacheService.getSongById(match.song1Id, song1Platform),
+      songCacheService.getSongById(match.song2Id, song2Platform),
+      match.features?.song1 ??
+        songResolverService.getAudioFeatures({ platform: song1Platform, id: match.song1Id }),
+      match.features?.song2 ??
+        songResolverService.getAudioFeatures({ platform: song2Platform, id: match.song2Id }),
+    ]);
+
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    res.json({
+      success: true,
+      data: {
+        matchId: match.id,
+        createdAt: match.createdAt,
+        song1: toSongSummary(song1),
+        song2: toSongSummary(song2),
+        overallScore: match.calibratedScore ?? match.rawScore,
+        rawScore: match.rawScore,
+        calibratedScore: match.calibratedScore,
+        confidence: match.confidence,
+        algorithmVersion: match.algorithmVersion,
+        breakdown: match.breakdown,
+        explanation: match.explanation
+          ? messageCatalogService.localizeExplanation(match.explanation, locale)
+          : null,
+        visualization: matchVisualizationService.build(
+          match.breakdown,
+          features1,
+          features2,
+          locale
+        ),
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/v1/music/match/counterfactual/:matchId
+ * What each component cost a recorded match, and what song would have scored higher
+ * The match is rescored with the algorithm version, weight profile and key
+ * scoring it was recorded with
+ */
+musicRouter.get(
+  '/match/counterfactual/:matchId',
+  validate(rateMatchParamsSchema, 'params'),
+  validate(counterfactualQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { matchId } = req.params as any;
+    const { adjust, candidates, limit } = req.query as any;
+
+    const match = await matchHistoryService.getMatch(matchId);
+    const { song1Platform, song2Platform, weightProfile, keyScoring } = match;
+
+    // Costs and better songs are measured against similarity; a contrast
+    // match would be "improved" by songs that score lower on it
+    if (match.mode === 'contrast') {
+      throw new AppError(
+        400,
+        'UNSUPPORTED_MODE',
+        'Counterfactuals are only available for similarity matches'
+      );
+    }
+
+    // Matches recorded before features were stored use the current features
+    const [features1, features2] = await Promise.all([
+      match.features?.song1 ??
+        songResolverService.getAudioFeatures({ platform: song1Platform, id: match.song1Id }),
+      match.features?.song2 ??
+        songResolverService.getAudioFeatures({ platform: song2Platform, id: match.song2Id }),
+    ]);
+    const [anchor, answer] = adjust === 'song1' ? [features2, features1] : [features1, features2];
+
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    let result = counterfactualService.analyze(anchor, answer, {
+      weightProfile,
+      keyScoring,
+      algorithmVersion: match.algorithmVersion,
+      locale,
+    });
+    if (candidates) {
+      result = await counterfactualService.resolveCandidates(result, anchor, answer, {
+        // Replacements come from the adjusted song's platform
+        platform: adjust === 'song1' ? song1Platform : song2Platform,
+        limit,
+        keyScoring,
+        excludeIds: [match.song1Id, match.song2Id],
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { matchId: match.id, adjust, ...result },
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/match/matrix
+ * Calculate the full pairwise match matrix for up to 50 songs
+ */
+musicRouter.post(
+  '/match/matrix',
+  validate(matchMatrixSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const {
+      songIds,
+      platform,
+      includeBreakdown,
+      bypassCache,
+      weightProfile,
+      keyScoring,
+      algorithmVersion,
+    } = req.body;
+
+    // Fetch features in bulk
+    const featuresById = await songCacheService.getAudioFeaturesBatch(songIds, platform);
+
+    const missing = (songIds as string[]).filter((id) => !featuresById.has(id));
+    if (missing.length > 0) {
+      throw new AppError(404, 'NOT_FOUND', `Songs not found: ${missing.join(', ')}`);
+    }
+
+    const matrix = await matchCacheService.getMatchMatrix(
+      (songIds as string[]).map((id) => ({ id, features: featuresById.get(id)! })),
+      bypassCache,
+      { weightProfile, keyScoring, algorithmVersion }
+    );
+
+    res.json({
+      success: true,
+      data: {
+        songIds: matrix.songIds,
+        scores: matrix.scores,
+        breakdowns: includeBreakdown
+          ? matrix.results.map((row) => row.map((result) => toCompactBreakdown(result)))
+          : undefined,
+        cacheHits: matrix.cacheHits,
+        weightProfile,
+        keyScoring,
+        algorithmVersion: matrix.algorithmVersion,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/playlist/analyze
+ * Cohesion, transition scores, outliers and energy/tempo curves for an ordered playlist
+ */
+musicRouter.post(
+  '/playlist/analyze',
+  validate(analyzePlaylistSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const {
+      songIds,
+      playlistId,
+      platform,
+      bypassCache,
+      weightProfile,
+      keyScoring,
+      algorithmVersion,
+    } = req.body;
+    const options = { weightProfile, keyScoring, algorithmVersion };
+
+    const analysis = playlistId
+      ? await playlistAnalysisService.analyzeSavedPlaylist(playlistId, bypassCache, options)
+      : await playlistAnalysisService.analyzePlaylist(songIds, platform, bypassCache, options);
+
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    res.json({
+      success: true,
+      data: {
+        ...analysis,
+        transitions: analysis.transitions.map((transition) => ({
+          ...transition,
+          issues: transition.issues.map((issue) =>
+            messageCatalogService.localizeMessage(issue, locale)
+          ),
+        })),
+        weightProfile,
+        keyScoring,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/playlist/sequence
+ * Reorder songs for the smoothest transitions, optionally with a fixed
+ * opener/closer and a rising energy or tempo arc
+ */
+musicRouter.post(
+  '/playlist/sequence',
+  validate(sequencePlaylistSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { songIds, opener, closer, arc, platform, bypassCache } = req.body;
+    const { weightProfile, keyScoring, algorithmVersion } = req.body;
+
+    const sequence = await playlistSequencerService.sequencePlaylist(
+      songIds,
+      { opener, closer, arc },
+      platform,
+      bypassCache,
+      { weightProfile, keyScoring, algorithmVersion }
+    );
+
+    res.json({
+      success: true,
+      data: { ...sequence, arc, weightProfile, keyScoring },
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/playlist/:playlistId/sequence
+ * Reorder a saved playlist and store the new positions
+ */
+musicRouter.post(
+  '/playlist/:playlistId/sequence',
+  validate(playlistParamsSchema, 'params'),
+  validate(sequenceSavedPlaylistSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { playlistId } = req.params as any;
+    const { opener, closer, arc, bypassCache, weightProfile, keyScoring, algorithmVersion } =
+      req.body;
+
+    const sequence = await playlistSequencerService.sequenceSavedPlaylist(
+      playlistId,
+      { opener, closer, arc },
+      bypassCache,
+      { weightProfile, keyScoring, algorithmVersion }
+    );
+
+    res.json({
+      success: true,
+      data: { playlistId, ...sequence, arc, weightProfile, keyScoring },
+    });
+  })
+);
+
+/**
+ * GET /api/v1/music/prompts
+ * Curated prompts for prompt rounds, in the client's language
+ */
+musicRouter.get(
+  '/prompts',
+  asyncHandler(async (req, res) => {
+    const locale = getLocale(req);
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    res.json({
+      success: true,
+      data: vibePromptService.list(locale),
+    });
+  })
+);
+
+/**
+ * POST /api/v1/music/prompts/:promptId/match
+ * Score a song against a prompt's target profile and explain the gap
+ */
+musicRouter.post(
+  '/prompts/:promptId/match',
+  validate(promptParamsSchema, 'params'),
+  validate(matchPromptSchema, 'body'),
+  asyncHandler(async (req, res) => {
+    const { promptId } = req.params as any;
+    const { songId, platform, weightProfile, algorithmVersion } = req.body;
+
+    const locale = getLocale(req);
+    const prompt = vibePromptService.getPrompt(promptId, locale);
+    const features = await songCacheService.getAudioFeatures(songId, platform);
+
+    const result = matchingService.calculateTargetMatch(features, prompt.target, {
+      weightProfile,
+      algorithmVersion,
+    });
+
+    res.vary('Accept-Language').set('Content-Language', locale);
+
+    res.json({
+      success: true,
+      data: {
+        prompt,
+        songId,
+        ...result,
+        explanation: messageCatalogService.localizeTargetExplanation(result.explanation, locale),
+      },
     });
   })
 );
@@ -150,3 +634,44 @@ musicRouter.delete(
     });
   })
 );
+
+/**
+ * Pick the explanation locale from Accept-Language ("es-MX" matches "es")
+ * Falls back to English
+ */
+function getLocale(req: Request): Locale {
+  return (req.acceptsLanguages(...SUPPORTED_LOCALES) || DEFAULT_LOCALE) as Locale;
+}
+
+/**
+ * Song metadata for explain responses
+ */
+function toSongSummary(song: CachedSong) {
+  return {
+    id: song.id,
+    name: song.name,
+    artist: song.artist,
+    album: song.album,
+    releaseYear: song.releaseYear,
+    imageUrl: song.imageUrl,
+    previewUrl: song.previewUrl,
+    externalUrl: song.externalUrl ?? song.spotifyUrl, // Songs cached before it was stored
+    spotifyUrl: song.spotifyUrl,
+  };
+}
+
+/**
+ * Reduce a match result to rounded layer scores for matrix responses
+ */
+function toCompactBreakdown(result: MatchResult | null): CompactBreakdown | null {
+  if (!result) return null;
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    layer1: round(result.breakdown.layer1.score),
+    layer2: round(result.breakdown.layer2.score),
+    layer3: round(result.breakdown.layer3.score),
+    layer4: round(result.breakdown.layer4.score),
+    confidence: round(result.confidence),
+  };
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { WEIGHT_PROFILE_NAMES } from '../config/weightProfiles';
+import { PLATFORM_NAMES } from '../config/platforms';
+
+/**
+ * Game API Validation Schemas
+ *
+ * Zod schemas for validating game endpoint requests
+ */
+
+/**
+ * Create game body
+ */
+export const createGameSchema = z.object({
+  player1Id: z.string().uuid('Invalid player ID'),
+  player2Id: z.string().uuid('Invalid player ID').optional(),
+  maxRounds: z.number().int().min(1).max(20).default(10),
+  musicService: z.enum(PLATFORM_NAMES).default('spotify'),
+  allowExplicit: z.boolean().default(true),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'), // Used to score every round
+  scoringMode: z.enum(['similarity', 'contrast']).default('similarity'), // contrast: opposites
+  roundType: z.enum(['song_match', 'prompt']).default('song_match'),
+  promptIds: z.array(z.string().min(1)).max(20).default([]), // Prompt rounds, in order
+});
+
+export type CreateGameBody = z.infer<typeof createGameSchema>;
+
+/**
+ * Game parameters
+ */
+export const gameParamsSchema = z.object({
+  gameId: z.string().uuid('Invalid game ID'),
+});
+
+export type GameParams = z.infer<typeof gameParamsSchema>;
+
+/**
+ * Round parameters
+ */
+export const roundParamsSchema = z.object({
+  gameId: z.string().uuid('Invalid game ID'),
+  roundNumber: z
+    .string()
+    .regex(/^\d+$/, 'Invalid round number')
+    .transform((val) => parseInt(val))
+    .pipe(z.number().min(1)),
+});
+
+export type RoundParams = z.infer<typeof roundParamsSchema>;
+
+/**
+ * Submit song body
+ */
+export const submitSongSchema = z.object({
+  playerId: z.string().uuid('Invalid player ID'),
+  songId: z.string().min(1, 'Song ID is required'),
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
+});
+
+export type SubmitSongBody = z.infer<typeof submitSongSchema>;
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { WEIGHT_PROFILE_NAMES } from '../config/weightProfiles';
+import { ALGORITHM_VERSION_NAMES } from '../config/algorithmVersions';
+import { PLATFORM_NAMES } from '../config/platforms';
 
 /**
  * Music API Validation Schemas
@@ -22,6 +25,7 @@ export const searchSongsSchema = z.object({
     .transform((val) => (val ? parseInt(val) : 0))
     .pipe(z.number().min(0)),
   market: z.string().length(2).optional(), // ISO 3166-1 alpha-2
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
 });
 
 export type SearchSongsQuery = z.infer<typeof searchSongsSchema>;
@@ -30,7 +34,7 @@ export type SearchSongsQuery = z.infer<typeof searchSongsSchema>;
  * Get song by ID parameters
  */
 export const getSongByIdSchema = z.object({
-  platform: z.enum(['spotify']),
+  platform: z.enum(PLATFORM_NAMES),
   songId: z.string().min(1, 'Song ID is required'),
 });
 
@@ -40,7 +44,7 @@ export type GetSongByIdParams = z.infer<typeof getSongByIdSchema>;
  * Get audio features parameters
  */
 export const getAudioFeaturesSchema = z.object({
-  platform: z.enum(['spotify']),
+  platform: z.enum(PLATFORM_NAMES),
   songId: z.string().min(1, 'Song ID is required'),
 });
 
@@ -52,9 +56,206 @@ export type GetAudioFeaturesParams = z.infer<typeof getAudioFeaturesSchema>;
 export const matchSongsSchema = z.object({
   song1Id: z.string().min(1, 'First song ID is required'),
   song2Id: z.string().min(1, 'Second song ID is required'),
-  platform: z.enum(['spotify']).default('spotify'),
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
+  // Per-song platforms for cross-platform matches (default: platform)
+  song1Platform: z.enum(PLATFORM_NAMES).optional(),
+  song2Platform: z.enum(PLATFORM_NAMES).optional(),
   includeExplanation: z.boolean().default(true),
   bypassCache: z.boolean().default(false),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+  keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+  algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+  mode: z.enum(['similarity', 'contrast']).default('similarity'), // contrast: opposites rounds
+  calibrate: z.boolean().default(false), // Percentile scale instead of the raw score
 });
 
 export type MatchSongsBody = z.infer<typeof matchSongsSchema>;
+
+/**
+ * Match matrix body
+ */
+export const matchMatrixSchema = z.object({
+  songIds: z
+    .array(z.string().min(1, 'Song ID is required'))
+    .min(2, 'At least 2 song IDs are required')
+    .max(50, 'Maximum 50 song IDs allowed')
+    .refine((ids) => new Set(ids).size === ids.length, 'Song IDs must be unique'),
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
+  includeBreakdown: z.boolean().default(false),
+  bypassCache: z.boolean().default(false),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+  keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+  algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+});
+
+export type MatchMatrixBody = z.infer<typeof matchMatrixSchema>;
+
+/**
+ * Playlist analysis body
+ * Either an ordered list of song IDs (repeats allowed) or a saved playlist
+ */
+export const analyzePlaylistSchema = z
+  .object({
+    songIds: z
+      .array(z.string().min(1, 'Song ID is required'))
+      .min(2, 'At least 2 song IDs are required')
+      .max(100, 'Maximum 100 song IDs allowed')
+      .optional(),
+    playlistId: z.string().uuid('Invalid playlist ID').optional(),
+    platform: z.enum(PLATFORM_NAMES).default('spotify'),
+    bypassCache: z.boolean().default(false),
+    weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+    keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+    algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+  })
+  .refine((body) => (body.songIds === undefined) !== (body.playlistId === undefined), {
+    message: 'Provide either songIds or playlistId',
+    path: ['songIds'],
+  });
+
+export type AnalyzePlaylistBody = z.infer<typeof analyzePlaylistSchema>;
+
+/**
+ * Playlist sequencing constraints
+ */
+const sequenceConstraints = {
+  opener: z.string().min(1).optional(),
+  closer: z.string().min(1).optional(),
+  arc: z.enum(['none', 'rising_energy', 'tempo_ramp']).default('none'),
+};
+
+/**
+ * Playlist sequencing body
+ */
+export const sequencePlaylistSchema = z.object({
+  songIds: z
+    .array(z.string().min(1, 'Song ID is required'))
+    .min(2, 'At least 2 song IDs are required')
+    .max(100, 'Maximum 100 song IDs allowed'),
+  ...sequenceConstraints,
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
+  bypassCache: z.boolean().default(false),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+  keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+  algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+});
+
+export type SequencePlaylistBody = z.infer<typeof sequencePlaylistSchema>;
+
+/**
+ * Saved playlist sequencing body
+ */
+export const sequenceSavedPlaylistSchema = z.object({
+  ...sequenceConstraints,
+  bypassCache: z.boolean().default(false),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+  keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+  algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+});
+
+export type SequenceSavedPlaylistBody = z.infer<typeof sequenceSavedPlaylistSchema>;
+
+/**
+ * Saved playlist parameters
+ */
+export const playlistParamsSchema = z.object({
+  playlistId: z.string().uuid('Invalid playlist ID'),
+});
+
+export type PlaylistParams = z.infer<typeof playlistParamsSchema>;
+
+/**
+ * Find similar songs query parameters
+ */
+export const findSimilarSongsSchema = z
+  .object({
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val) : 10))
+      .pipe(z.number().min(1).max(50)),
+    yearFrom: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val) : undefined))
+      .pipe(z.number().min(1900).max(2100).optional()),
+    yearTo: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val) : undefined))
+      .pipe(z.number().min(1900).max(2100).optional()),
+    explicit: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((val) => (val === undefined ? undefined : val === 'true')),
+    genre: z.string().min(1).max(100).optional(),
+    weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+    keyScoring: z.enum(['circle', 'camelot']).default('circle'),
+    algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+  })
+  .refine(
+    (query) =>
+      query.yearFrom === undefined || query.yearTo === undefined || query.yearFrom <= query.yearTo,
+    { message: 'yearFrom must not be after yearTo', path: ['yearFrom'] }
+  );
+
+export type FindSimilarSongsQuery = z.infer<typeof findSimilarSongsSchema>;
+
+/**
+ * Rate match parameters
+ */
+export const rateMatchParamsSchema = z.object({
+  matchId: z.string().uuid('Invalid match ID'),
+});
+
+export type RateMatchParams = z.infer<typeof rateMatchParamsSchema>;
+
+/**
+ * Counterfactual query parameters
+ * adjust: the song suggestions change (the other is the anchor)
+ */
+export const counterfactualQuerySchema = z.object({
+  adjust: z.enum(['song1', 'song2']).default('song2'),
+  candidates: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val) : 3))
+    .pipe(z.number().min(1).max(10)),
+});
+
+export type CounterfactualQuery = z.infer<typeof counterfactualQuerySchema>;
+
+/**
+ * Rate match body
+ */
+export const rateMatchSchema = z.object({
+  humanScore: z.number().int().min(0).max(100),
+  feedback: z.string().max(1000).optional(),
+});
+
+export type RateMatchBody = z.infer<typeof rateMatchSchema>;
+
+/**
+ * Prompt parameters
+ */
+export const promptParamsSchema = z.object({
+  promptId: z.string().min(1, 'Prompt ID is required').max(50),
+});
+
+export type PromptParams = z.infer<typeof promptParamsSchema>;
+
+/**
+ * Prompt match body: score a song against a prompt's target profile
+ */
+export const matchPromptSchema = z.object({
+  songId: z.string().min(1, 'Song ID is required'),
+  platform: z.enum(PLATFORM_NAMES).default('spotify'),
+  weightProfile: z.enum(WEIGHT_PROFILE_NAMES).default('default'),
+  algorithmVersion: z.enum(ALGORITHM_VERSION_NAMES).optional(), // Default from config
+});
+
+export type MatchPromptBody = z.infer<typeof matchPromptSchema>;
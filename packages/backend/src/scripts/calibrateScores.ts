@@ -0,0 +1,77 @@
+import 'reflect-metadata';
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { DEFAULT_WEIGHT_PROFILE } from '../config/weightProfiles';
+import { MatchHistoryService } from '../services/matchHistory.service';
+import { ScoreCalibrationService } from '../services/scoreCalibration.service';
+
+/**
+ * Build the raw score distribution used for percentile calibration from
+ * similarity matches in MatchHistory
+ *
+ * Usage:
+ *   pnpm calibrate:scores [--version 1.4] [--profile default] [--limit 50000]
+ *     [--min-samples 1000] [--write]
+ *
+ * Prints where common raw scores land on the percentile scale. With --write
+ * the distribution replaces the version and profile's entry in
+ * src/data/scoreDistributions.json.
+ */
+const { values } = parseArgs({
+  options: {
+    version: { type: 'string' },
+    profile: { type: 'string' },
+    limit: { type: 'string' },
+    'min-samples': { type: 'string' },
+    write: { type: 'boolean', default: false },
+  },
+});
+
+const DISTRIBUTIONS_FILE = new URL('../data/scoreDistributions.json', import.meta.url);
+
+async function main() {
+  const version = values.version ?? env.MATCH_ALGORITHM_VERSION;
+  const profile = values.profile ?? DEFAULT_WEIGHT_PROFILE;
+  const limit = values.limit ? parseInt(values.limit) : 50000;
+  const minSamples = values['min-samples'] ? parseInt(values['min-samples']) : 1000;
+
+  // Constructed directly so the command doesn't need Redis
+  const history = new MatchHistoryService(prisma);
+  const calibration = new ScoreCalibrationService();
+
+  const scores = await history.getRecentScores(version, profile, limit);
+  if (scores.length < minSamples) {
+    throw new Error(
+      `Not enough recorded matches for algorithm ${version}, profile ${profile}: ` +
+        `${scores.length} (need ${minSamples})`
+    );
+  }
+
+  const distribution = calibration.buildDistribution(
+    scores,
+    `MatchHistory: ${scores.length} most recent matches (${new Date().toISOString().slice(0, 10)})`
+  );
+
+  console.log(`Algorithm ${version}, ${profile} profile, ${distribution.samples} recorded matches`);
+  for (const raw of [40, 50, 60, 70, 80, 90]) {
+    console.log(`raw ${raw} -> percentile ${Math.round(distribution.percentiles[raw]!)}`);
+  }
+
+  if (values.write) {
+    const file = JSON.parse(await readFile(DISTRIBUTIONS_FILE, 'utf8'));
+    file.distributions[version] = { ...file.distributions[version], [profile]: distribution };
+    await writeFile(DISTRIBUTIONS_FILE, `${JSON.stringify(file, null, 2)}\n`);
+    console.log(
+      `Distribution for ${version}/${profile} written to src/data/scoreDistributions.json`
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Calibration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,71 @@
+import 'reflect-metadata';
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { prisma } from '../config/database';
+import { MatchingService } from '../services/matching.service';
+import {
+  CalibrationMetrics,
+  WeightCalibrationService,
+} from '../services/weightCalibration.service';
+
+/**
+ * Fit component weights to human-rated matches in MatchHistory
+ * Only similarity matches scored with the given profile are used
+ *
+ * Usage:
+ *   pnpm calibrate:weights [--version 1.1] [--profile default]
+ *                          [--iterations 2000] [--out weights.json]
+ *
+ * Prints a before/after report and the fitted weights. Review them, then
+ * copy them into a profile in src/config/weightProfiles.ts.
+ */
+const { values } = parseArgs({
+  options: {
+    version: { type: 'string' },
+    profile: { type: 'string' },
+    iterations: { type: 'string' },
+    'min-samples': { type: 'string' },
+    out: { type: 'string' },
+  },
+});
+
+const formatMetrics = (label: string, metrics: CalibrationMetrics) =>
+  `${label.padEnd(8)} pearson ${metrics.pearson.toFixed(3)}  ` +
+  `spearman ${metrics.spearman.toFixed(3)}  MAE ${metrics.meanAbsoluteError.toFixed(1)}`;
+
+async function main() {
+  // Constructed directly so the command doesn't need Redis
+  const service = new WeightCalibrationService(prisma, new MatchingService());
+
+  const report = await service.calibrateFromHistory({
+    algorithmVersion: values.version,
+    weightProfile: values.profile,
+    iterations: values.iterations ? parseInt(values.iterations) : undefined,
+    minSamples: values['min-samples'] ? parseInt(values['min-samples']) : undefined,
+  });
+
+  console.log(
+    `Algorithm ${report.algorithmVersion}, starting from "${report.weightProfile}" ` +
+      `(${report.samples} rated matches)`
+  );
+  console.log(formatMetrics('Before', report.before));
+  console.log(formatMetrics('After', report.after));
+  console.log(
+    report.after.pearson >= report.targetCorrelation
+      ? `Meets the ${report.targetCorrelation} correlation target`
+      : `Below the ${report.targetCorrelation} correlation target`
+  );
+  console.log(JSON.stringify(report.weights, null, 2));
+
+  if (values.out) {
+    await writeFile(values.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${values.out}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Calibration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
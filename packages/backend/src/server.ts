@@ -4,6 +4,8 @@ import { env } from './config/env';
 import { logger } from './utils/logger';
 import { prisma } from './config/database';
 import { redis } from './config/redis';
+import { container } from './di/container';
+import { SongCacheService } from './services/songCache.service';
 
 const PORT = env.PORT || 3000;
 
@@ -32,6 +34,9 @@ async function startServer() {
       server.close(async () => {
         logger.info('HTTP server closed');
 
+        await container.resolve(SongCacheService).flushPreviewAnalysis();
+        logger.info('Preview analyses finished');
+
         await prisma.$disconnect();
         logger.info('Database connection closed');
 
@@ -0,0 +1,280 @@
+import { injectable } from 'tsyringe';
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  AppleMusicError,
+  AppleMusicSearchResponse,
+  AppleMusicSong,
+  AppleMusicSongsResponse,
+} from '../types/appleMusic.types';
+import { SongSearchFilters } from '../types/spotify.types';
+
+/**
+ * AppleMusicService
+ *
+ * Handles all interactions with the Apple Music API including:
+ * - Developer token signing (ES256 JWT from the MusicKit private key)
+ * - Catalog search and song lookup in the configured storefront
+ * - User library access (recently played) with a music user token
+ * - Rate limiting and error handling
+ */
+@injectable()
+export class AppleMusicService {
+  private readonly BASE_URL = `${env.APPLE_MUSIC_API_URL}/v1`;
+  private readonly STOREFRONT = env.APPLE_MUSIC_STOREFRONT;
+
+  // Apple accepts up to 6 months; short-lived tokens limit the damage of a leak
+  private readonly TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+  private readonly MAX_SEARCH_LIMIT = 25;
+  private readonly MAX_SONG_IDS = 300;
+  private readonly MAX_RECENT_LIMIT = 30;
+
+  private axiosInstance: AxiosInstance;
+  private developerToken: string | null = null;
+  private tokenExpiresAt: number = 0;
+
+  constructor() {
+    this.axiosInstance = axios.create({
+      baseURL: this.BASE_URL,
+      timeout: 10000,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    // Add request interceptor to automatically add the developer token
+    this.axiosInstance.interceptors.request.use(
+      (config) => {
+        config.headers.Authorization = `Bearer ${this.getDeveloperToken()}`;
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Add response interceptor for error handling
+    this.axiosInstance.interceptors.response.use(
+      (response) => response,
+      this.handleApiError.bind(this)
+    );
+  }
+
+  /**
+   * Get a valid developer token
+   * Signs a new one when the current one is about to expire
+   */
+  private getDeveloperToken(): string {
+    const now = Date.now();
+
+    // Check if token is still valid (with 5 minute buffer)
+    if (this.developerToken && this.tokenExpiresAt > now + 5 * 60 * 1000) {
+      return this.developerToken;
+    }
+
+    const { APPLE_MUSIC_TEAM_ID, APPLE_MUSIC_KEY_ID, APPLE_MUSIC_PRIVATE_KEY } = env;
+    if (!APPLE_MUSIC_TEAM_ID || !APPLE_MUSIC_KEY_ID || !APPLE_MUSIC_PRIVATE_KEY) {
+      throw new AppError(500, 'APPLE_MUSIC_AUTH_ERROR', 'Apple Music is not configured');
+    }
+
+    try {
+      logger.debug('Signing Apple Music developer token');
+      this.developerToken = jwt.sign({}, APPLE_MUSIC_PRIVATE_KEY.replace(/\\n/g, '\n'), {
+        algorithm: 'ES256',
+        keyid: APPLE_MUSIC_KEY_ID,
+        issuer: APPLE_MUSIC_TEAM_ID,
+        expiresIn: this.TOKEN_TTL_SECONDS,
+      });
+      this.tokenExpiresAt = now + this.TOKEN_TTL_SECONDS * 1000;
+
+      return this.developerToken;
+    } catch (error) {
+      logger.error('Failed to sign Apple Music developer token:', error);
+      throw new AppError(
+        500,
+        'APPLE_MUSIC_AUTH_ERROR',
+        'Failed to authenticate with Apple Music'
+      );
+    }
+  }
+
+  /**
+   * Search the catalog for songs
+   */
+  async searchSongs(filters: SongSearchFilters): Promise<AppleMusicSearchResponse> {
+    try {
+      const params = new URLSearchParams({
+        term: filters.query,
+        types: 'songs',
+        limit: String(Math.min(filters.limit || 20, this.MAX_SEARCH_LIMIT)),
+        offset: String(filters.offset || 0),
+        include: 'artists,albums',
+      });
+
+      const response = await this.axiosInstance.get<AppleMusicSearchResponse>(
+        `/catalog/${this.storefront(filters.market)}/search?${params.toString()}`
+      );
+
+      const count = response.data.results.songs?.data.length ?? 0;
+      logger.debug(`Apple Music search: "${filters.query}" - ${count} results`);
+
+      return response.data;
+    } catch (error) {
+      logger.error('Apple Music search error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get catalog song by ID
+   */
+  async getSong(songId: string, market?: string): Promise<AppleMusicSong> {
+    try {
+      const response = await this.axiosInstance.get<AppleMusicSongsResponse>(
+        `/catalog/${this.storefront(market)}/songs/${songId}?include=artists,albums`
+      );
+
+      const song = response.data.data[0];
+      if (!song) {
+        throw new AppError(404, 'NOT_FOUND', 'Track not found on Apple Music');
+      }
+      return song;
+    } catch (error) {
+      logger.error(`Error getting Apple Music song ${songId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get multiple catalog songs at once (more efficient)
+   * Unknown IDs are left out of the response
+   */
+  async getMultipleSongs(songIds: string[], market?: string): Promise<AppleMusicSong[]> {
+    try {
+      if (songIds.length > this.MAX_SONG_IDS) {
+        throw new AppError(
+          400,
+          'INVALID_REQUEST',
+          `Maximum ${this.MAX_SONG_IDS} song IDs allowed`
+        );
+      }
+
+      const params = new URLSearchParams({ ids: songIds.join(','), include: 'artists,albums' });
+      const response = await this.axiosInstance.get<AppleMusicSongsResponse>(
+        `/catalog/${this.storefront(market)}/songs?${params.toString()}`
+      );
+
+      return response.data.data;
+    } catch (error) {
+      logger.error('Error getting multiple Apple Music songs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get catalog songs with an ISRC
+   * One recording can be on several releases (single, album, compilation)
+   */
+  async getSongsByIsrc(isrc: string, market?: string): Promise<AppleMusicSong[]> {
+    try {
+      const params = new URLSearchParams({ 'filter[isrc]': isrc, include: 'artists,albums' });
+      const response = await this.axiosInstance.get<AppleMusicSongsResponse>(
+        `/catalog/${this.storefront(market)}/songs?${params.toString()}`
+      );
+
+      return response.data.data;
+    } catch (error) {
+      logger.error(`Error getting Apple Music songs for ISRC ${isrc}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get user's recently played catalog songs (requires music user token)
+   * Songs only in the user's library (uploads) have no catalog ID and are left out
+   */
+  async getRecentlyPlayedSongs(
+    userToken: string,
+    options?: { limit?: number }
+  ): Promise<AppleMusicSong[]> {
+    try {
+      const params = new URLSearchParams({
+        types: 'songs',
+        limit: String(Math.min(options?.limit || 20, this.MAX_RECENT_LIMIT)),
+      });
+
+      const response = await this.axiosInstance.get<AppleMusicSongsResponse>(
+        `/me/recent/played/tracks?${params.toString()}`,
+        {
+          headers: {
+            'Music-User-Token': userToken,
+          },
+        }
+      );
+
+      return response.data.data.filter((song) => song.type === 'songs');
+    } catch (error) {
+      logger.error('Error getting Apple Music recently played:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Storefront for a market (ISO 3166-1 alpha-2), the configured one by default
+   */
+  private storefront(market?: string): string {
+    return (market || this.STOREFRONT).toLowerCase();
+  }
+
+  /**
+   * Handle API errors and convert to AppError
+   */
+  private async handleApiError(error: AxiosError<AppleMusicError>): Promise<never> {
+    // Raised before the request was sent (developer token)
+    if (error instanceof AppError) throw error;
+
+    if (error.response) {
+      const status = error.response.status;
+      const message = error.response.data?.errors?.[0]?.detail || error.message;
+
+      // Rate limit handling
+      if (status === 429) {
+        const retryAfter = error.response.headers['retry-after'];
+        logger.warn(`Apple Music rate limit hit. Retry after: ${retryAfter} seconds`);
+        throw new AppError(
+          429,
+          'RATE_LIMIT_EXCEEDED',
+          `Rate limit exceeded. Retry after ${retryAfter} seconds`
+        );
+      }
+
+      // Not found
+      if (status === 404) {
+        throw new AppError(404, 'NOT_FOUND', 'Track not found on Apple Music');
+      }
+
+      // Unauthorized (developer token) or forbidden (music user token)
+      if (status === 401 || status === 403) {
+        logger.error('Apple Music authentication failed');
+        // Sign a new developer token next time
+        this.developerToken = null;
+        this.tokenExpiresAt = 0;
+        throw new AppError(status, 'APPLE_MUSIC_AUTH_ERROR', 'Apple Music authentication failed');
+      }
+
+      // Other errors
+      throw new AppError(status, 'APPLE_MUSIC_API_ERROR', message || 'Apple Music API error');
+    }
+
+    // Network or timeout errors
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      throw new AppError(504, 'APPLE_MUSIC_TIMEOUT', 'Apple Music API request timed out');
+    }
+
+    // Unknown error
+    logger.error('Unknown Apple Music API error:', error);
+    throw new AppError(500, 'APPLE_MUSIC_ERROR', 'An error occurred with Apple Music API');
+  }
+}
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { ArtistGraphService } from './artistGraph.service';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { MusicProvider, ProviderArtist } from '../types/provider.types';
+
+describe('ArtistGraphService', () => {
+  interface Edge {
+    artistId: string;
+    relatedArtistId: string;
+    rank: number;
+    fetchedAt: Date;
+  }
+
+  let edges: Edge[];
+  let prisma: {
+    relatedArtist: Record<'findMany' | 'deleteMany' | 'createMany', ReturnType<typeof vi.fn>>;
+    $transaction: ReturnType<typeof vi.fn>;
+  };
+  let provider: { platform: 'spotify'; getRelatedArtists: ReturnType<typeof vi.fn> };
+  let service: ArtistGraphService;
+
+  const artist = (id: string): ProviderArtist => ({ id, name: id });
+
+  const edge = (artistId: string, relatedArtistId: string, rank: number, daysOld = 0): Edge => ({
+    artistId: `spotify:${artistId}`,
+    relatedArtistId: `spotify:${relatedArtistId}`,
+    rank,
+    fetchedAt: new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000),
+  });
+
+  beforeEach(() => {
+    edges = [];
+    prisma = {
+      relatedArtist: {
+        findMany: vi.fn(async ({ where }: { where: { artistId: { in: string[] } } }) =>
+          edges
+            .filter((e) => where.artistId.in.includes(e.artistId))
+            .sort((a, b) => a.rank - b.rank)
+        ),
+        deleteMany: vi.fn(async ({ where }: { where: { artistId: string } }) => {
+          edges = edges.filter((e) => e.artistId !== where.artistId);
+        }),
+        createMany: vi.fn(async ({ data }: { data: Omit<Edge, 'fetchedAt'>[] }) => {
+          edges.push(...data.map((e) => ({ ...e, fetchedAt: new Date() })));
+        }),
+      },
+      $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    };
+    provider = { platform: 'spotify', getRelatedArtists: vi.fn() };
+    service = new ArtistGraphService(
+      prisma as unknown as PrismaClient,
+      new ProviderRegistryService([provider as unknown as MusicProvider])
+    );
+  });
+
+  it('should use stored edges without calling the provider', async () => {
+    edges = [edge('sza', 'frank', 0), edge('sza', 'solange', 1)];
+
+    const related = await service.getRelatedArtistIds(['sza']);
+
+    expect(related).toEqual(['frank', 'solange']);
+    expect(provider.getRelatedArtists).not.toHaveBeenCalled();
+  });
+
+  it('should fetch and store missing artists', async () => {
+    provider.getRelatedArtists.mockResolvedValue([artist('frank'), artist('solange')]);
+
+    const related = await service.getRelatedArtistIds(['sza']);
+
+    expect(related).toEqual(['frank', 'solange']);
+    expect(provider.getRelatedArtists).toHaveBeenCalledWith('sza');
+    expect(edges.map((e) => e.relatedArtistId)).toEqual(['spotify:frank', 'spotify:solange']);
+  });
+
+  it('should refetch stale artists', async () => {
+    edges = [edge('sza', 'frank', 0, 45)];
+    provider.getRelatedArtists.mockResolvedValue([artist('solange')]);
+
+    const related = await service.getRelatedArtistIds(['sza']);
+
+    expect(related).toEqual(['solange']);
+    expect(edges).toHaveLength(1);
+  });
+
+  it('should merge credited artists by rank without the artists themselves', async () => {
+    edges = [
+      edge('calvin', 'rihanna', 0),
+      edge('calvin', 'disclosure', 1),
+      edge('rihanna', 'beyonce', 0),
+      edge('rihanna', 'calvin', 1),
+    ];
+
+    const related = await service.getRelatedArtistIds(['calvin', 'rihanna']);
+
+    expect(related).toEqual(['beyonce', 'disclosure']);
+  });
+
+  it('should skip artists the provider cannot resolve', async () => {
+    provider.getRelatedArtists.mockRejectedValue(new Error('Not found'));
+
+    await expect(service.getRelatedArtistIds(['unknown'])).resolves.toEqual([]);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should return nothing for platforms without an artist graph', async () => {
+    const registry = new ProviderRegistryService([
+      { platform: 'youtube' } as unknown as MusicProvider,
+    ]);
+    service = new ArtistGraphService(prisma as unknown as PrismaClient, registry);
+
+    await expect(service.getRelatedArtistIds(['sza'], 'youtube')).resolves.toEqual([]);
+    expect(prisma.relatedArtist.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { inject, injectable } from 'tsyringe';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { Platform } from '../config/platforms';
+import { ProviderRegistryService } from './providerRegistry.service';
+
+/**
+ * ArtistGraphService
+ *
+ * Local related-artist graph used for artist similarity (algorithm 1.3+).
+ * Edges are fetched from the provider on first use and stored in the
+ * related_artists table, so matching never waits on the provider for
+ * artists it has seen in the last 30 days. Platforms whose provider has no
+ * artist graph get no related artists.
+ *
+ * Artist IDs are stored as platform:artistId.
+ */
+@injectable()
+export class ArtistGraphService {
+  private readonly STALE_AFTER_DAYS = 30;
+  private readonly STALE_AFTER_MS = this.STALE_AFTER_DAYS * 24 * 60 * 60 * 1000;
+
+  // Provider lookups per call, so songs with long credit lists stay cheap
+  private readonly MAX_FETCHES = 3;
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private providers: ProviderRegistryService
+  ) {}
+
+  /**
+   * Artists related to any of the given artists, most related first
+   * Missing or stale artists are fetched from the provider; lookup failures
+   * only cost the related-artist credit, so they are logged and skipped.
+   * Returns plain (unprefixed) artist IDs.
+   */
+  async getRelatedArtistIds(
+    artistIds: string[],
+    platform: Platform = 'spotify'
+  ): Promise<string[]> {
+    const ids = [...new Set(artistIds.filter(Boolean))];
+    if (ids.length === 0 || !this.providers.get(platform).getRelatedArtists) return [];
+
+    try {
+      const edges = await this.prisma.relatedArtist.findMany({
+        where: { artistId: { in: ids.map((id) => this.toKey(platform, id)) } },
+        select: { artistId: true, relatedArtistId: true, rank: true, fetchedAt: true },
+        orderBy: { rank: 'asc' },
+      });
+
+      const related = new Map<string, { relatedArtistId: string; rank: number }[]>();
+      const staleBefore = Date.now() - this.STALE_AFTER_MS;
+      for (const edge of edges) {
+        if (edge.fetchedAt.getTime() < staleBefore) continue;
+        const list = related.get(edge.artistId) ?? [];
+        list.push(edge);
+        related.set(edge.artistId, list);
+      }
+
+      const missing = ids.filter((id) => !related.has(this.toKey(platform, id)));
+      for (const id of missing.slice(0, this.MAX_FETCHES)) {
+        const fetched = await this.fetchRelatedArtists(id, platform);
+        if (fetched) related.set(this.toKey(platform, id), fetched);
+      }
+
+      // Interleave by rank so every credited artist contributes its closest matches
+      const merged = [...related.values()]
+        .flat()
+        .sort((a, b) => a.rank - b.rank)
+        .map((edge) => this.fromKey(edge.relatedArtistId));
+
+      return [...new Set(merged)].filter((id) => !ids.includes(id));
+    } catch (error) {
+      logger.error('Error reading related artists:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch related artists from the provider and replace the stored edges
+   * Returns null when the provider lookup fails
+   */
+  private async fetchRelatedArtists(
+    artistId: string,
+    platform: Platform
+  ): Promise<{ relatedArtistId: string; rank: number }[] | null> {
+    let artists;
+    try {
+      artists = (await this.providers.get(platform).getRelatedArtists?.(artistId)) ?? [];
+    } catch (error) {
+      logger.warn(`Related artists unavailable for ${artistId}:`, error);
+      return null;
+    }
+
+    const key = this.toKey(platform, artistId);
+    const edges = artists.map((artist, rank) => ({
+      artistId: key,
+      relatedArtistId: this.toKey(platform, artist.id),
+      rank,
+    }));
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.relatedArtist.deleteMany({ where: { artistId: key } }),
+        this.prisma.relatedArtist.createMany({ data: edges, skipDuplicates: true }),
+      ]);
+      logger.debug(`Stored ${edges.length} related artists for ${key}`);
+    } catch (error) {
+      logger.error('Error storing related artists:', error);
+    }
+
+    return edges;
+  }
+
+  private toKey(platform: string, artistId: string): string {
+    return `${platform}:${artistId}`;
+  }
+
+  private fromKey(key: string): string {
+    return key.slice(key.indexOf(':') + 1);
+  }
+}
@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import axios from 'axios';
+import { AudioAnalysisService } from './audioAnalysis.service';
+
+describe('AudioAnalysisService', () => {
+  // Synthesized clips (see src/test/fixtures/audio/README.md)
+  const fixture = (name: string) =>
+    new Uint8Array(readFileSync(new URL(`../test/fixtures/audio/${name}`, import.meta.url)));
+
+  let service: AudioAnalysisService;
+
+  beforeEach(() => {
+    service = new AudioAnalysisService();
+  });
+
+  it('should measure tempo and key of an MP3 clip', async () => {
+    const audio = await service.decode(fixture('house-128bpm-a-minor.mp3'));
+    const features = service.analyze(audio);
+
+    expect(audio.sampleRate).toBe(22050);
+    expect(features.tempo).toBeCloseTo(128, 0);
+    expect(features).toMatchObject({ key: 9, mode: 0 }); // A minor
+    expect(features.durationMs).toBeGreaterThan(7900);
+  });
+
+  it('should measure tempo and key of a WAV clip', async () => {
+    const features = service.analyze(await service.decode(fixture('ballad-80bpm-c-major.wav')));
+
+    expect(features.tempo).toBeCloseTo(80, 0);
+    expect(features).toMatchObject({ key: 0, mode: 1 }); // C major
+    expect(features.durationMs).toBe(8000);
+  });
+
+  it('should rate the quiet acoustic clip less energetic and more acoustic', async () => {
+    const house = service.analyze(await service.decode(fixture('house-128bpm-a-minor.mp3')));
+    const ballad = service.analyze(await service.decode(fixture('ballad-80bpm-c-major.wav')));
+
+    expect(ballad.loudness).toBeLessThan(house.loudness);
+    expect(ballad.energy).toBeLessThan(house.energy);
+    expect(ballad.acousticness).toBeGreaterThan(house.acousticness);
+    for (const features of [house, ballad]) {
+      expect(features.energy).toBeGreaterThanOrEqual(0);
+      expect(features.acousticness).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should leave what it cannot measure unknown', () => {
+    const silence = service.analyze({
+      sampleRate: 22050,
+      channelData: [new Float32Array(22050 * 5)],
+    });
+
+    expect(silence).toMatchObject({ tempo: 0, key: -1, timeSignature: 0, loudness: -60 });
+    expect(silence.valence).toBeNaN();
+    expect(silence.danceability).toBeNaN();
+  });
+
+  it('should reject audio that is neither WAV nor MP3', async () => {
+    await expect(service.decode(new TextEncoder().encode('OggS....'))).rejects.toThrow(
+      'Only WAV and MP3'
+    );
+  });
+
+  it('should not download previews in formats it cannot decode', async () => {
+    const get = vi.spyOn(axios, 'get');
+    const applePreview =
+      'https://audio-ssl.itunes.apple.com/itunes-assets/AudioPreview/mzaf_1.plus.aac.p.m4a';
+
+    await expect(service.analyzePreview(applePreview)).resolves.toBeNull();
+
+    expect(get).not.toHaveBeenCalled();
+    expect(service.canAnalyze('https://p.scdn.co/mp3-preview/3eb16018c2a7')).toBe(true);
+    expect(service.canAnalyze('https://example.com/clips/preview.MP3')).toBe(true);
+    get.mockRestore();
+  });
+});
@@ -0,0 +1,347 @@
+import { injectable } from 'tsyringe';
+import axios from 'axios';
+import { MPEGDecoder } from 'mpg123-decoder';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { pearson } from '../utils/stats';
+import { hannWindow, magnitudeSpectrum } from '../utils/fft';
+import { isWav, parseWav, PcmAudio } from '../utils/wav';
+import { AudioFeatures } from '../types/music.types';
+
+// Krumhansl-Kessler key profiles, C first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * AudioAnalysisService
+ *
+ * Measures audio features from a decoded preview clip (WAV, or MP3 through
+ * mpg123-decoder, a WebAssembly build shipped as plain JS: no native
+ * binaries or ffmpeg), for tracks the provider has no features for:
+ * - Tempo: autocorrelation of the spectral-flux onset envelope, with a
+ *   preference for 120 BPM to settle half/double-time ambiguity
+ * - Key & mode: chroma profile correlated with Krumhansl-Kessler profiles
+ * - Loudness: mean power of non-silent frames, in dBFS
+ * - Energy & acousticness: rough estimates from loudness, brightness
+ *   (share of power above 2 kHz) and dynamics
+ *
+ * Valence and danceability can't be measured this way and are returned as
+ * NaN; tempo, key and time signature use the usual unknown values (0 / -1 / 0)
+ * when the clip gives no clear answer.
+ */
+@injectable()
+export class AudioAnalysisService {
+  // Audio above ~32 kHz is decimated first; nothing analyzed here needs more
+  private readonly ANALYSIS_RATE = 22050;
+
+  // ~93ms frames; hop of 1/8 frame gives ~86 onset frames per second
+  private readonly FRAME_SECONDS = 0.093;
+  private readonly HOP_DIVISOR = 8;
+
+  private readonly MIN_BPM = 60;
+  private readonly MAX_BPM = 200;
+  private readonly PREFERRED_BPM = 120;
+  private readonly TEMPO_PRIOR_OCTAVES = 1; // Width of the preference, in octaves
+  private readonly TEMPO_MIN_CLARITY = 0.1; // Normalized autocorrelation peak
+
+  private readonly CHROMA_MIN_HZ = 100;
+  private readonly CHROMA_MAX_HZ = 2100;
+  private readonly KEY_MIN_CORRELATION = 0.4;
+
+  private readonly SILENCE_DB = -60;
+  private readonly BRIGHTNESS_HZ = 2000;
+  private readonly FULL_BRIGHTNESS = 0.2; // Share of power above BRIGHTNESS_HZ that counts as 1
+  private readonly FULL_DYNAMICS_DB = 10; // Frame loudness spread that counts as 1
+
+  // File extensions of previews that can't be decoded, such as Apple Music's
+  // AAC in .m4a; previews without an extension (Spotify's) are fetched
+  private readonly DECODABLE_EXTENSIONS = new Set(['mp3', 'wav']);
+
+  // Previews are ~30s; anything much bigger isn't a preview
+  private readonly MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+  private readonly DOWNLOAD_TIMEOUT_MS = 10000;
+
+  /**
+   * Download, decode and analyze a preview clip
+   * Returns null when the clip can't be fetched or decoded; clips in formats
+   * that can't be decoded aren't downloaded
+   */
+  async analyzePreview(url: string): Promise<AudioFeatures | null> {
+    if (!this.canAnalyze(url)) {
+      logger.debug(`Skipping preview in an undecodable format: ${url}`);
+      return null;
+    }
+
+    try {
+      const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: this.DOWNLOAD_TIMEOUT_MS,
+        maxContentLength: this.MAX_PREVIEW_BYTES,
+      });
+
+      const startTime = performance.now();
+      const features = this.analyze(await this.decode(new Uint8Array(response.data)));
+      const durationMs = Math.round(performance.now() - startTime);
+      logger.debug(`Analyzed preview in ${durationMs}ms: ${url}`);
+
+      return features;
+    } catch (error) {
+      logger.warn(`Could not analyze preview ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether a preview URL may point to a WAV or MP3 file, judged by its
+   * extension; URLs without one can only be checked by decoding
+   */
+  canAnalyze(url: string): boolean {
+    let path: string;
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      return false;
+    }
+
+    const extension = path.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+    return extension === undefined || this.DECODABLE_EXTENSIONS.has(extension);
+  }
+
+  /**
+   * Decode a WAV or MP3 file to PCM
+   */
+  async decode(data: Uint8Array): Promise<PcmAudio> {
+    if (isWav(data)) return parseWav(data);
+
+    if (!this.isMpeg(data)) {
+      throw new AppError(400, 'UNSUPPORTED_AUDIO', 'Only WAV and MP3 audio can be analyzed');
+    }
+
+    const decoder = new MPEGDecoder();
+    await decoder.ready;
+    try {
+      const { channelData, samplesDecoded, sampleRate } = decoder.decode(data);
+      if (samplesDecoded === 0) {
+        throw new AppError(400, 'UNSUPPORTED_AUDIO', 'MP3 contains no decodable audio');
+      }
+      return { sampleRate, channelData };
+    } finally {
+      decoder.free();
+    }
+  }
+
+  /**
+   * Measure audio features from decoded audio
+   */
+  analyze(audio: PcmAudio): AudioFeatures {
+    const { samples, sampleRate } = this.downsample(this.toMono(audio), audio.sampleRate);
+
+    const frameSize = 2 ** Math.round(Math.log2(sampleRate * this.FRAME_SECONDS));
+    const hop = frameSize / this.HOP_DIVISOR;
+    const window = hannWindow(frameSize);
+
+    // Pitch class of each spectrum bin (-1 outside the chroma range), and the
+    // first bin counted as bright
+    const binHz = sampleRate / frameSize;
+    const pitchClasses = Array.from({ length: frameSize / 2 + 1 }, (_, k) => {
+      const hz = k * binHz;
+      if (hz < this.CHROMA_MIN_HZ || hz > this.CHROMA_MAX_HZ) return -1;
+      const note = Math.round(12 * Math.log2(hz / 440) + 69); // MIDI note, A4 = 69
+      return note % 12;
+    });
+    const firstBrightBin = Math.ceil(this.BRIGHTNESS_HZ / binHz);
+
+    const chroma = new Array<number>(12).fill(0);
+    const flux: number[] = [];
+    const frameDb: number[] = [];
+    let brightPower = 0;
+    let totalPower = 0;
+    let previous: Float64Array | null = null;
+
+    for (let offset = 0; offset + frameSize <= samples.length; offset += hop) {
+      const spectrum = magnitudeSpectrum(samples, offset, window);
+
+      // Onset strength: rise in log-compressed magnitude since the last frame
+      const compressed = spectrum.map((magnitude) => Math.log1p(100 * magnitude));
+      let rise = 0;
+      if (previous) {
+        for (let k = 0; k < compressed.length; k++) {
+          rise += Math.max(0, compressed[k]! - previous[k]!);
+        }
+      }
+      flux.push(rise);
+      previous = compressed;
+
+      let sumSquares = 0;
+      for (let i = offset; i < offset + frameSize; i++) sumSquares += samples[i]! ** 2;
+      const db = 10 * Math.log10(sumSquares / frameSize + 1e-12);
+      if (db < this.SILENCE_DB) continue;
+      frameDb.push(db);
+
+      for (let k = 1; k < spectrum.length; k++) {
+        const power = spectrum[k]! ** 2;
+        totalPower += power;
+        if (k >= firstBrightBin) brightPower += power;
+
+        const pc = pitchClasses[k]!;
+        if (pc !== -1) chroma[pc] = chroma[pc]! + spectrum[k]!;
+      }
+    }
+
+    const loudness = this.loudness(frameDb);
+    const brightShare = totalPower > 0 ? brightPower / totalPower : 0;
+    const brightness = this.unit(brightShare / this.FULL_BRIGHTNESS);
+    const dynamics = this.unit(this.spread(frameDb) / this.FULL_DYNAMICS_DB);
+    const loudnessScore = this.unit((loudness + 30) / 25); // -30 dB = 0, -5 dB = 1
+    const { key, mode } = this.detectKey(chroma);
+
+    return {
+      valence: NaN, // Not measurable from audio here
+      energy: this.round(this.unit(0.6 * loudnessScore + 0.4 * brightness)),
+      danceability: NaN,
+      tempo: this.detectTempo(flux, sampleRate / hop),
+      acousticness: this.round(
+        this.unit(0.5 * (1 - brightness) + 0.3 * (1 - loudnessScore) + 0.2 * dynamics)
+      ),
+      key,
+      mode,
+      timeSignature: 0, // Unknown
+      loudness,
+      durationMs: Math.round((samples.length / sampleRate) * 1000),
+    };
+  }
+
+  /**
+   * Tempo in BPM from the onset envelope, or 0 when there is no clear pulse
+   * Picks the autocorrelation peak weighted by a log-normal preference around
+   * PREFERRED_BPM, refined between lags by parabolic interpolation
+   */
+  private detectTempo(flux: number[], frameRate: number): number {
+    const minLag = Math.floor((60 * frameRate) / this.MAX_BPM);
+    const maxLag = Math.ceil((60 * frameRate) / this.MIN_BPM);
+    if (flux.length < 2 * maxLag) return 0; // Too short to see two beats at the slowest tempo
+
+    const average = flux.reduce((sum, value) => sum + value, 0) / flux.length;
+    const envelope = flux.map((value) => value - average);
+    const autocorrelation = (lag: number) => {
+      let sum = 0;
+      for (let i = lag; i < envelope.length; i++) sum += envelope[i]! * envelope[i - lag]!;
+      return sum / (envelope.length - lag);
+    };
+
+    const zeroLag = autocorrelation(0);
+    if (zeroLag <= 0) return 0;
+
+    const values = new Map<number, number>();
+    let bestLag = -1;
+    let bestScore = 0;
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      values.set(lag, autocorrelation(lag) / zeroLag);
+    }
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = (60 * frameRate) / lag;
+      const octaves = Math.log2(bpm / this.PREFERRED_BPM) / this.TEMPO_PRIOR_OCTAVES;
+      const score = values.get(lag)! * Math.exp(-0.5 * octaves ** 2);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    if (bestLag === -1 || values.get(bestLag)! < this.TEMPO_MIN_CLARITY) return 0;
+
+    const before = values.get(bestLag - 1)!;
+    const after = values.get(bestLag + 1)!;
+    const curvature = before - 2 * values.get(bestLag)! + after;
+    const shift = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+    return Math.round(((60 * frameRate) / (bestLag + shift)) * 10) / 10;
+  }
+
+  /**
+   * Best-correlating major or minor key, or -1 when no key stands out
+   */
+  private detectKey(chroma: number[]): { key: number; mode: number } {
+    if (chroma.every((value) => value === 0)) return { key: -1, mode: 1 };
+
+    let best = { key: -1, mode: 1, correlation: this.KEY_MIN_CORRELATION };
+
+    for (let key = 0; key < 12; key++) {
+      // Profile rotated so its tonic sits on this pitch class
+      const rotate = (profile: number[]) => chroma.map((_, pc) => profile[(pc - key + 12) % 12]!);
+      for (const [mode, profile] of [
+        [1, MAJOR_PROFILE],
+        [0, MINOR_PROFILE],
+      ] as const) {
+        const correlation = pearson(chroma, rotate(profile));
+        if (correlation > best.correlation) best = { key, mode, correlation };
+      }
+    }
+
+    return { key: best.key, mode: best.mode };
+  }
+
+  /**
+   * Mean power of non-silent frames in dBFS
+   */
+  private loudness(frameDb: number[]): number {
+    if (frameDb.length === 0) return this.SILENCE_DB;
+    const power = frameDb.reduce((sum, db) => sum + 10 ** (db / 10), 0) / frameDb.length;
+    return Math.round(10 * Math.log10(power) * 10) / 10;
+  }
+
+  private spread(values: number[]): number {
+    if (values.length === 0) return 0;
+    const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance =
+      values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+    return Math.sqrt(variance);
+  }
+
+  /**
+   * Decimate by an integer factor, averaging each group of samples
+   * (a crude low-pass, fine for onsets, chroma and loudness)
+   */
+  private downsample(
+    samples: Float32Array,
+    sampleRate: number
+  ): { samples: Float32Array; sampleRate: number } {
+    const factor = Math.floor(sampleRate / this.ANALYSIS_RATE);
+    if (factor < 2) return { samples, sampleRate };
+
+    const decimated = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < decimated.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < factor; j++) sum += samples[i * factor + j]!;
+      decimated[i] = sum / factor;
+    }
+    return { samples: decimated, sampleRate: sampleRate / factor };
+  }
+
+  private toMono({ channelData }: PcmAudio): Float32Array {
+    if (channelData.length === 1) return channelData[0]!;
+
+    const length = Math.min(...channelData.map((channel) => channel.length));
+    const mono = new Float32Array(length);
+    for (const channel of channelData) {
+      for (let i = 0; i < length; i++) mono[i] = mono[i]! + channel[i]! / channelData.length;
+    }
+    return mono;
+  }
+
+  /**
+   * MP3 files start with an ID3 tag or an MPEG frame sync
+   */
+  private isMpeg(data: Uint8Array): boolean {
+    if (data.length < 3) return false;
+    const id3 = data[0] === 0x49 && data[1] === 0x44 && data[2] === 0x33;
+    return id3 || (data[0] === 0xff && (data[1]! & 0xe0) === 0xe0);
+  }
+
+  private unit(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
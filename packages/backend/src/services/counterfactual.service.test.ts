@@ -0,0 +1,146 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CounterfactualService } from './counterfactual.service';
+import { MatchingService } from './matching.service';
+import { SongIndexService } from './songIndex.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('CounterfactualService', () => {
+  const anchor: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.8,
+    danceability: 0.7,
+    tempo: 120,
+    acousticness: 0.1,
+    key: 0, // C major
+    mode: 1,
+    timeSignature: 4,
+    loudness: -5,
+    durationMs: 210000,
+    genres: ['pop'],
+    artist: 'Anchor Artist',
+    releaseYear: 2015,
+    instrumentalness: 0.02,
+    speechiness: 0.05,
+    liveness: 0.1,
+  };
+
+  // Slower, calmer and in F# major, otherwise the same
+  const answer: AudioFeatures = { ...anchor, tempo: 100, energy: 0.5, key: 6 };
+
+  const song = (id: string) => ({
+    id,
+    name: `Song ${id}`,
+    artist: 'Someone',
+    album: 'Album',
+    releaseYear: 2015,
+    imageUrl: null,
+    previewUrl: null,
+    explicit: false,
+  });
+
+  let matchingService: MatchingService;
+  let songIndex: { findNearest: ReturnType<typeof vi.fn> };
+  let service: CounterfactualService;
+
+  beforeEach(() => {
+    matchingService = new MatchingService();
+    songIndex = { findNearest: vi.fn().mockResolvedValue([]) };
+    service = new CounterfactualService(
+      matchingService,
+      songIndex as unknown as SongIndexService
+    );
+  });
+
+  it('should report the points each component costs, most costly first', () => {
+    const result = service.analyze(anchor, answer);
+
+    expect(result.overallScore).toBe(matchingService.calculateMatch(anchor, answer).overallScore);
+    expect(result.sensitivity.slice(0, 3).map((item) => item.component)).toEqual(
+      expect.arrayContaining(['tempo', 'energy', 'keyMode'])
+    );
+
+    const lostPoints = result.sensitivity.reduce((sum, item) => sum + item.lostPoints, 0);
+    expect(Math.abs(lostPoints - (100 - result.overallScore))).toBeLessThan(1);
+  });
+
+  it('should suggest moving the differing features towards the anchor', () => {
+    const result = service.analyze(anchor, answer);
+    const single = (feature: string) =>
+      result.suggestions.find(
+        ({ changes }) => changes.length === 1 && changes[0]!.feature === feature
+      );
+
+    expect(single('tempo')!.changes[0]!.message).toMatchObject({
+      code: 'CHANGE_FASTER',
+      params: { bpm: 20 },
+      message: 'About 20 BPM faster',
+    });
+    expect(single('tempo')!.target).toEqual({ tempo: 120 });
+    expect(single('energy')!.changes[0]!.message.code).toBe('CHANGE_HIGHER');
+
+    for (const suggestion of result.suggestions) {
+      expect(suggestion.gain).toBeGreaterThanOrEqual(1);
+      expect(suggestion.score).toBe(result.overallScore + suggestion.gain);
+    }
+  });
+
+  it('should lead with the two most valuable changes combined', () => {
+    const { suggestions } = service.analyze(anchor, answer);
+    const [combined, best] = suggestions;
+
+    expect(combined!.changes).toHaveLength(2);
+    expect(combined!.gain).toBeGreaterThan(best!.gain);
+    expect(combined!.changes[0]).toEqual(best!.changes[0]);
+    expect(combined!.message.code).toBe('CHANGE_WOULD_SCORE');
+  });
+
+  it('should aim for half or double time when that is closer', () => {
+    const { suggestions } = service.analyze(anchor, { ...answer, tempo: 55 });
+    const tempo = suggestions.find((suggestion) => suggestion.changes[0]!.feature === 'tempo');
+
+    expect(tempo?.target).toEqual({ tempo: 60 });
+  });
+
+  it('should not suggest changes without data or for matching songs', () => {
+    const unknown = service.analyze(anchor, { ...answer, tempo: 0, key: -1 });
+    const features = unknown.suggestions.flatMap((suggestion) =>
+      suggestion.changes.map((change) => change.feature)
+    );
+    expect(features).not.toContain('tempo');
+    expect(features).not.toContain('key');
+
+    expect(service.analyze(anchor, anchor).suggestions).toEqual([]);
+  });
+
+  it('should render suggestions in the requested locale', () => {
+    const { suggestions } = service.analyze(anchor, answer, { locale: 'es' });
+    const tempo = suggestions.find((suggestion) => suggestion.changes[0]!.feature === 'tempo');
+
+    expect(tempo!.changes[0]!.message.message).toBe('Unos 20 BPM más rápida');
+  });
+
+  it('should resolve suggestions to cached songs that beat the match', async () => {
+    songIndex.findNearest.mockResolvedValue([
+      { song: song('same'), features: answer },
+      { song: song('better'), features: { ...answer, tempo: 120 } },
+    ]);
+    const result = service.analyze(anchor, answer);
+
+    const resolved = await service.resolveCandidates(result, anchor, answer, {
+      limit: 2,
+      excludeIds: ['a', 'b'],
+    });
+
+    for (const suggestion of resolved.suggestions) {
+      expect(suggestion.candidates!.map((candidate) => candidate.song.id)).toEqual(['better']);
+      expect(suggestion.candidates![0]!.score).toBeGreaterThan(result.overallScore);
+    }
+    expect(songIndex.findNearest).toHaveBeenCalledWith(
+      expect.objectContaining(resolved.suggestions[0]!.target),
+      'spotify',
+      10,
+      ['a', 'b']
+    );
+  });
+});
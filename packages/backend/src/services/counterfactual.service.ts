@@ -0,0 +1,346 @@
+import { injectable } from 'tsyringe';
+import { DEFAULT_LOCALE, Locale } from '../config/locales';
+import { Platform } from '../config/platforms';
+import {
+  AudioFeatures,
+  ExplanationMessage,
+  MatchComponent,
+  MatchOptions,
+  MatchResult,
+} from '../types/music.types';
+import { MatchingService } from './matching.service';
+import { MessageCatalogService, MessageCode, MessageParams } from './messageCatalog.service';
+import { NearestSong, SongIndexService } from './songIndex.service';
+
+/**
+ * Features a suggestion can change on the answered song
+ * 'key' covers key and mode together
+ */
+export type AdjustableFeature =
+  | 'valence'
+  | 'energy'
+  | 'danceability'
+  | 'acousticness'
+  | 'tempo'
+  | 'key'
+  | 'loudness'
+  | 'durationMs'
+  | 'instrumentalness'
+  | 'speechiness'
+  | 'liveness';
+
+/**
+ * How many score points a component is costing the match
+ */
+export interface ComponentSensitivity {
+  component: MatchComponent;
+  similarity: number; // 0-1
+  share: number; // 0-1 share of the overall score it is weighted at
+  lostPoints: number; // Score points lost to the difference (0-100 scale)
+}
+
+/**
+ * One feature change towards the anchor song
+ */
+export interface FeatureChange {
+  feature: AdjustableFeature;
+  target: Partial<AudioFeatures>; // Values of the suggested song
+  message: ExplanationMessage;
+}
+
+/**
+ * A cached song that scores higher than the answered song
+ */
+export interface CounterfactualCandidate {
+  song: NearestSong['song'];
+  score: number; // 0-100 match score against the anchor
+}
+
+/**
+ * A hypothetical song that would score higher
+ */
+export interface CounterfactualSuggestion {
+  changes: FeatureChange[];
+  target: Partial<AudioFeatures>; // All changed values
+  score: number; // 0-100 match score of the hypothetical song
+  gain: number; // Score points over the actual match
+  message: ExplanationMessage;
+  candidates?: CounterfactualCandidate[]; // Only when candidates were requested
+}
+
+export interface CounterfactualResult {
+  overallScore: number; // Actual match score
+  algorithmVersion: string;
+  weightProfile: string;
+  locale: Locale;
+  sensitivity: ComponentSensitivity[]; // Most costly first
+  suggestions: CounterfactualSuggestion[]; // Biggest gain first
+}
+
+export interface CounterfactualOptions extends Pick<
+  MatchOptions,
+  'weightProfile' | 'keyScoring' | 'algorithmVersion'
+> {
+  locale?: Locale;
+}
+
+const UNIT_FEATURES = [
+  'valence',
+  'energy',
+  'danceability',
+  'acousticness',
+  'instrumentalness',
+  'speechiness',
+  'liveness',
+] as const;
+
+const KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * CounterfactualService
+ *
+ * Answers "what song would have scored higher?" for a match. Each component's
+ * cost is read from the breakdown; suggestions move one feature of the
+ * answered song to the anchor song's value and rescore the pair, so weight
+ * renormalization and rounding are accounted for. The two most valuable
+ * changes are also suggested together.
+ *
+ * Suggestions can be resolved to real songs from SongCache: the cached songs
+ * closest to the hypothetical one that actually beat the match.
+ * Only similarity scoring is supported.
+ */
+@injectable()
+export class CounterfactualService {
+  private readonly MAX_SINGLE_SUGGESTIONS = 3;
+  private readonly MIN_GAIN = 1; // Score points
+
+  // Smaller differences are not worth suggesting
+  private readonly MIN_UNIT_CHANGE = 0.05;
+  private readonly MIN_TEMPO_CHANGE = 3; // BPM
+  private readonly MIN_LOUDNESS_CHANGE = 1; // dB
+  private readonly MIN_DURATION_CHANGE = 15000; // ms
+
+  // Nearest cached songs considered per requested candidate
+  private readonly CANDIDATE_POOL_FACTOR = 5;
+
+  constructor(
+    private matchingService: MatchingService,
+    private songIndexService: SongIndexService,
+    private messages: MessageCatalogService = new MessageCatalogService()
+  ) {}
+
+  /**
+   * Component costs and higher-scoring variations of the answered song
+   */
+  analyze(
+    anchor: AudioFeatures,
+    answer: AudioFeatures,
+    options: CounterfactualOptions = {}
+  ): CounterfactualResult {
+    const { locale = DEFAULT_LOCALE, ...matchOptions } = options;
+    const match = this.matchingService.calculateMatch(anchor, answer, matchOptions);
+
+    const singles = this.proposeChanges(anchor, answer, locale)
+      .map((change) => this.score(anchor, answer, [change], match, matchOptions, locale))
+      .filter((suggestion) => suggestion.gain >= this.MIN_GAIN)
+      .sort((a, b) => b.gain - a.gain)
+      .slice(0, this.MAX_SINGLE_SUGGESTIONS);
+
+    const suggestions = [...singles];
+    if (singles.length >= 2) {
+      const changes = [...singles[0]!.changes, ...singles[1]!.changes];
+      const combined = this.score(anchor, answer, changes, match, matchOptions, locale);
+      if (combined.gain > singles[0]!.gain) suggestions.unshift(combined);
+    }
+
+    return {
+      overallScore: match.overallScore,
+      algorithmVersion: match.algorithmVersion,
+      weightProfile: match.weightProfile,
+      locale,
+      sensitivity: this.sensitivity(match.breakdown),
+      suggestions,
+    };
+  }
+
+  /**
+   * Attach the cached songs closest to each suggestion that beat the match
+   */
+  async resolveCandidates(
+    result: CounterfactualResult,
+    anchor: AudioFeatures,
+    answer: AudioFeatures,
+    options: { platform?: Platform; limit?: number; excludeIds?: string[] } & Pick<
+      MatchOptions,
+      'keyScoring'
+    > = {}
+  ): Promise<CounterfactualResult> {
+    const { platform = 'spotify', limit = 3, excludeIds = [], keyScoring } = options;
+    const matchOptions: MatchOptions = {
+      weightProfile: result.weightProfile,
+      algorithmVersion: result.algorithmVersion,
+      keyScoring,
+    };
+
+    const suggestions = await Promise.all(
+      result.suggestions.map(async (suggestion) => {
+        const nearest = await this.songIndexService.findNearest(
+          { ...answer, ...suggestion.target },
+          platform,
+          limit * this.CANDIDATE_POOL_FACTOR,
+          excludeIds
+        );
+
+        const candidates = nearest
+          .map(({ song, features }) => ({
+            song,
+            score: this.matchingService.calculateMatch(anchor, features, matchOptions)
+              .overallScore,
+          }))
+          .filter((candidate) => candidate.score > result.overallScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+
+        return { ...suggestion, candidates };
+      })
+    );
+
+    return { ...result, suggestions };
+  }
+
+  /**
+   * Score points each component is costing, most costly first
+   * Uses the same normalization as the overall score: component weight over
+   * the total weight of the scored layers
+   */
+  private sensitivity(breakdown: MatchResult['breakdown']): ComponentSensitivity[] {
+    const layers = Object.values(breakdown);
+    const totalWeight = layers.reduce((sum, layer) => sum + layer.weight, 0);
+    if (totalWeight === 0) return [];
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return layers
+      .flatMap((layer) => Object.entries(layer.components))
+      .filter(([, score]) => score.weight > 0)
+      .map(([component, score]) => ({
+        component: component as MatchComponent,
+        similarity: round(score.similarity),
+        share: round(score.weight / totalWeight),
+        lostPoints: round(((score.weight * (1 - score.similarity)) / totalWeight) * 100),
+      }))
+      .sort((a, b) => b.lostPoints - a.lostPoints);
+  }
+
+  /**
+   * One change per feature that differs noticeably, towards the anchor's value
+   * Features either song has no data for are skipped
+   */
+  private proposeChanges(
+    anchor: AudioFeatures,
+    answer: AudioFeatures,
+    locale: Locale
+  ): FeatureChange[] {
+    const changes: FeatureChange[] = [];
+    const change = (
+      feature: AdjustableFeature,
+      target: Partial<AudioFeatures>,
+      code: MessageCode,
+      params: MessageParams
+    ) => changes.push({ feature, target, message: this.messages.message(code, params, locale) });
+
+    for (const feature of UNIT_FEATURES) {
+      const from = answer[feature];
+      const to = anchor[feature];
+      if (from === undefined || to === undefined) continue;
+      if (Math.abs(to - from) < this.MIN_UNIT_CHANGE) continue;
+
+      const value = Math.round(to * 100) / 100;
+      change(feature, { [feature]: value }, to > from ? 'CHANGE_HIGHER' : 'CHANGE_LOWER', {
+        feature,
+        from,
+        to: value,
+      });
+    }
+
+    if (anchor.tempo > 0 && answer.tempo > 0) {
+      // Half and double time count as close, so aim for the nearest of the three
+      const to = Math.round(
+        [anchor.tempo, anchor.tempo * 2, anchor.tempo / 2].reduce((best, tempo) =>
+          Math.abs(tempo - answer.tempo) < Math.abs(best - answer.tempo) ? tempo : best
+        )
+      );
+      const diff = to - answer.tempo;
+      if (Math.abs(diff) >= this.MIN_TEMPO_CHANGE) {
+        change('tempo', { tempo: to }, diff > 0 ? 'CHANGE_FASTER' : 'CHANGE_SLOWER', {
+          bpm: Math.abs(diff),
+        });
+      }
+    }
+
+    const knownKeys = anchor.key >= 0 && answer.key >= 0;
+    if (knownKeys && (anchor.key !== answer.key || anchor.mode !== answer.mode)) {
+      change('key', { key: anchor.key, mode: anchor.mode }, 'CHANGE_KEY', {
+        key: KEY_NAMES[anchor.key]!,
+        mode: anchor.mode === 1 ? 'major' : 'minor',
+      });
+    }
+
+    const loudnessDiff = anchor.loudness - answer.loudness;
+    if (Math.abs(loudnessDiff) >= this.MIN_LOUDNESS_CHANGE) {
+      change(
+        'loudness',
+        { loudness: Math.round(anchor.loudness * 10) / 10 },
+        loudnessDiff > 0 ? 'CHANGE_LOUDER' : 'CHANGE_QUIETER',
+        { db: Math.abs(loudnessDiff) }
+      );
+    }
+
+    const durationDiff = anchor.durationMs - answer.durationMs;
+    if (anchor.durationMs > 0 && Math.abs(durationDiff) >= this.MIN_DURATION_CHANGE) {
+      change(
+        'durationMs',
+        { durationMs: anchor.durationMs },
+        durationDiff > 0 ? 'CHANGE_LONGER' : 'CHANGE_SHORTER',
+        { from: this.formatDuration(answer.durationMs), to: this.formatDuration(anchor.durationMs) }
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * Rescore the pair with the answered song changed
+   */
+  private score(
+    anchor: AudioFeatures,
+    answer: AudioFeatures,
+    changes: FeatureChange[],
+    match: MatchResult,
+    options: MatchOptions,
+    locale: Locale
+  ): CounterfactualSuggestion {
+    const target = Object.assign({}, ...changes.map((change) => change.target)) as Partial<
+      AudioFeatures
+    >;
+    const score = this.matchingService.calculateMatch(
+      anchor,
+      { ...answer, ...target },
+      options
+    ).overallScore;
+    const gain = score - match.overallScore;
+
+    return {
+      changes,
+      target,
+      score,
+      gain,
+      message: this.messages.message('CHANGE_WOULD_SCORE', { score, gain }, locale),
+    };
+  }
+
+  private formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+}
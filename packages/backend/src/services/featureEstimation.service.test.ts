@@ -0,0 +1,115 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { FeatureEstimationService, SongMetadata } from './featureEstimation.service';
+import { CachedSong, SpotifyAudioFeatures } from '../types/spotify.types';
+
+describe('FeatureEstimationService', () => {
+  const track: SongMetadata = {
+    id: 'new',
+    artist: 'Night Drive',
+    artistId: 'artist-1',
+    genres: ['deep house'],
+    releaseYear: 2018,
+    durationMs: 240000,
+    popularity: 50,
+  };
+
+  const measured = (id: string, overrides: Partial<SpotifyAudioFeatures> = {}) => ({
+    data: JSON.stringify({
+      id,
+      artistId: 'artist-1',
+      audioFeatures: {
+        id,
+        valence: 0.2,
+        energy: 0.4,
+        danceability: 0.5,
+        tempo: 118,
+        acousticness: 0.3,
+        key: 2,
+        mode: 0,
+        time_signature: 4,
+        loudness: -9,
+        duration_ms: 250000,
+        instrumentalness: 0.6,
+        liveness: 0.1,
+        speechiness: 0.04,
+        ...overrides,
+      },
+    } as Partial<CachedSong>),
+  });
+
+  let prisma: { songCache: { findMany: ReturnType<typeof vi.fn> } };
+  let service: FeatureEstimationService;
+
+  beforeEach(() => {
+    prisma = { songCache: { findMany: vi.fn().mockResolvedValue([]) } };
+    service = new FeatureEstimationService(prisma as unknown as PrismaClient);
+  });
+
+  it('should estimate from the closest genre prior and leave key and tempo unknown', async () => {
+    const features = await service.estimate(track);
+
+    // deep house has no prior of its own, so house is used
+    expect(features).toMatchObject({
+      id: 'new',
+      energy: 0.8,
+      danceability: 0.76,
+      instrumentalness: 0.5,
+      tempo: 0,
+      key: -1,
+      time_signature: 0,
+      duration_ms: 240000,
+    });
+  });
+
+  it('should average genres and fall back to the default prior', async () => {
+    const mixed = await service.estimate({ ...track, genres: ['house', 'classical'] });
+    expect(mixed.energy).toBeCloseTo((0.8 + 0.15) / 2, 3);
+
+    const unknown = await service.estimate({ ...track, genres: ['vapor twitch'] });
+    expect(unknown.energy).toBe(0.6);
+  });
+
+  it('should adjust for release year, duration and popularity', async () => {
+    const base = await service.estimate({ ...track, genres: ['rock'] });
+    const old = await service.estimate({ ...track, genres: ['rock'], releaseYear: 1965 });
+    const long = await service.estimate({ ...track, genres: ['rock'], durationMs: 540000 });
+    const hit = await service.estimate({ ...track, genres: ['rock'], popularity: 100 });
+
+    expect(old.loudness).toBeLessThan(base.loudness);
+    expect(base.loudness - old.loudness).toBeLessThanOrEqual(6);
+    expect(old.acousticness).toBeGreaterThan(base.acousticness);
+    expect(long.instrumentalness).toBeGreaterThan(base.instrumentalness);
+    expect(hit.danceability).toBeGreaterThan(base.danceability);
+  });
+
+  it("should lean towards the artist's measured songs", async () => {
+    prisma.songCache.findMany.mockResolvedValue([
+      measured('a'),
+      measured('b', { energy: 0.5 }),
+      measured('c', { energy: 0.3 }),
+      measured('new', { energy: 1 }), // The track itself
+      // Same name, different artist
+      { data: measured('x', { energy: 1 }).data.replace('artist-1', 'artist-2') },
+    ]);
+
+    const features = await service.estimate(track);
+
+    // 3 songs by the artist (energy 0.4) against the house prior (0.8), 3:2
+    expect(features.energy).toBeCloseTo((3 * 0.4 + 2 * 0.8) / 5, 3);
+    expect(prisma.songCache.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ artist: 'Night Drive', featuresEstimated: false }),
+      })
+    );
+  });
+
+  it('should use the genre prior alone when the cache lookup fails', async () => {
+    prisma.songCache.findMany.mockRejectedValue(new Error('connection lost'));
+
+    const features = await service.estimate(track);
+
+    expect(features.energy).toBe(0.8);
+  });
+});
@@ -0,0 +1,223 @@
+import { inject, injectable } from 'tsyringe';
+import { PrismaClient } from '@prisma/client';
+import priors from '../data/genreFeaturePriors.json' with { type: 'json' };
+import { logger } from '../utils/logger';
+import { mean } from '../utils/stats';
+import { CachedSong, SpotifyAudioFeatures } from '../types/spotify.types';
+import { Platform } from '../config/platforms';
+import { GenreTaxonomyService } from './genreTaxonomy.service';
+
+/**
+ * What we know about a track without its audio features
+ */
+export interface SongMetadata {
+  id: string;
+  artist: string; // Main artist
+  artistId: string;
+  genres: string[];
+  releaseYear: number; // 0 when unknown
+  durationMs: number;
+  popularity: number; // 0-100
+}
+
+/**
+ * Features that can be estimated; key, tempo and time signature cannot
+ */
+type EstimatedFeature =
+  | 'energy'
+  | 'valence'
+  | 'danceability'
+  | 'acousticness'
+  | 'loudness'
+  | 'instrumentalness'
+  | 'speechiness'
+  | 'liveness';
+
+type FeaturePrior = Record<EstimatedFeature, number>;
+
+const ESTIMATED_FEATURES: EstimatedFeature[] = [
+  'energy',
+  'valence',
+  'danceability',
+  'acousticness',
+  'loudness',
+  'instrumentalness',
+  'speechiness',
+  'liveness',
+];
+
+/**
+ * FeatureEstimationService
+ *
+ * Approximate audio features for tracks the provider has no features for
+ * (Spotify's /audio-features is closed to new apps). Starts from the genre's
+ * typical features (data/genreFeaturePriors.json), adjusts for release year,
+ * duration and popularity, then leans towards the measured features of the
+ * same artist's cached songs.
+ *
+ * Key, tempo and time signature are left unknown (-1 / 0) rather than
+ * guessed, so algorithm 1.4+ leaves them out of scoring. Songs built from
+ * these features are flagged featuresEstimated, which lowers match confidence.
+ */
+@injectable()
+export class FeatureEstimationService {
+  // Artist history counts as this many songs' worth of genre prior,
+  // so 2 measured songs already outweigh the prior
+  private readonly ARTIST_PRIOR_STRENGTH = 2;
+  private readonly MAX_ARTIST_SONGS = 20;
+
+  // Older masters are quieter (loudness plateaued in the mid-2000s) and more acoustic
+  private readonly LOUDNESS_REFERENCE_YEAR = 2005;
+  private readonly LOUDNESS_PER_YEAR = 0.2; // dB quieter per year before the reference
+  private readonly MAX_LOUDNESS_SHIFT = 6;
+  private readonly ACOUSTIC_REFERENCE_YEAR = 1980;
+  private readonly ACOUSTICNESS_PER_YEAR = 0.01;
+  private readonly MAX_ACOUSTICNESS_SHIFT = 0.2;
+
+  // Long tracks lean instrumental, short ones energetic
+  private readonly LONG_TRACK_MS = 6 * 60 * 1000;
+  private readonly SHORT_TRACK_MS = 2.5 * 60 * 1000;
+  private readonly DURATION_SHIFT = 0.08;
+
+  // Popular tracks lean danceable and upbeat: +/- this at popularity 100 / 0
+  private readonly POPULARITY_SHIFT = 0.05;
+
+  private readonly genrePriors = new Map<string, FeaturePrior>(
+    Object.entries(priors.genres as Record<string, FeaturePrior>)
+  );
+  private readonly defaultPrior = priors.default as FeaturePrior;
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private genreTaxonomy: GenreTaxonomyService = new GenreTaxonomyService()
+  ) {}
+
+  /**
+   * Estimate audio features for a track from its metadata
+   * Never throws: without artist history the genre prior alone is used
+   */
+  async estimate(
+    song: SongMetadata,
+    platform: Platform = 'spotify'
+  ): Promise<SpotifyAudioFeatures> {
+    const estimate = this.adjust(this.genrePrior(song.genres), song);
+
+    const history = await this.getArtistHistory(song, platform);
+    if (history.length > 0) {
+      const weight = history.length / (history.length + this.ARTIST_PRIOR_STRENGTH);
+      for (const feature of ESTIMATED_FEATURES) {
+        const measured = mean(history.map((features) => features[feature]));
+        estimate[feature] = (1 - weight) * estimate[feature] + weight * measured;
+      }
+    }
+
+    logger.debug(
+      `Estimated features for ${song.id} from ${song.genres.length} genres and ` +
+        `${history.length} songs by ${song.artist}`
+    );
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const unit = (value: number) => round(Math.min(1, Math.max(0, value)));
+
+    return {
+      id: song.id,
+      valence: unit(estimate.valence),
+      energy: unit(estimate.energy),
+      danceability: unit(estimate.danceability),
+      tempo: 0, // Unknown
+      acousticness: unit(estimate.acousticness),
+      key: -1, // Unknown
+      mode: 1,
+      time_signature: 0, // Unknown
+      loudness: round(Math.min(0, estimate.loudness)),
+      duration_ms: song.durationMs,
+      instrumentalness: unit(estimate.instrumentalness),
+      liveness: unit(estimate.liveness),
+      speechiness: unit(estimate.speechiness),
+    };
+  }
+
+  /**
+   * Average prior over the song's genres
+   * Each genre uses its own prior or its closest ancestor's; unknown genres are skipped
+   */
+  private genrePrior(genres: string[]): FeaturePrior {
+    const matched: FeaturePrior[] = [];
+    for (const genre of genres) {
+      const prior = this.genreTaxonomy
+        .lineage(genre)
+        .map((name) => this.genrePriors.get(name))
+        .find((candidate) => candidate !== undefined);
+      if (prior) matched.push(prior);
+    }
+
+    const sources = matched.length > 0 ? matched : [this.defaultPrior];
+    return Object.fromEntries(
+      ESTIMATED_FEATURES.map((feature) => [feature, mean(sources.map((prior) => prior[feature]))])
+    ) as FeaturePrior;
+  }
+
+  /**
+   * Nudge a prior by release year, duration and popularity
+   */
+  private adjust(prior: FeaturePrior, song: SongMetadata): FeaturePrior {
+    const adjusted = { ...prior };
+
+    if (song.releaseYear > 0) {
+      const loudnessYears = Math.max(0, this.LOUDNESS_REFERENCE_YEAR - song.releaseYear);
+      adjusted.loudness -= Math.min(
+        this.MAX_LOUDNESS_SHIFT,
+        loudnessYears * this.LOUDNESS_PER_YEAR
+      );
+
+      const acousticYears = Math.max(0, this.ACOUSTIC_REFERENCE_YEAR - song.releaseYear);
+      adjusted.acousticness += Math.min(
+        this.MAX_ACOUSTICNESS_SHIFT,
+        acousticYears * this.ACOUSTICNESS_PER_YEAR
+      );
+    }
+
+    if (song.durationMs > this.LONG_TRACK_MS) {
+      adjusted.instrumentalness += this.DURATION_SHIFT;
+      adjusted.danceability -= this.DURATION_SHIFT / 2;
+    } else if (song.durationMs > 0 && song.durationMs < this.SHORT_TRACK_MS) {
+      adjusted.energy += this.DURATION_SHIFT / 2;
+    }
+
+    const popularity = (song.popularity - 50) / 50; // -1 to 1
+    adjusted.danceability += popularity * this.POPULARITY_SHIFT;
+    adjusted.valence += popularity * this.POPULARITY_SHIFT;
+
+    return adjusted;
+  }
+
+  /**
+   * Measured features of other cached songs by the same main artist
+   * Lookup failures only cost the artist adjustment, so they are logged and skipped
+   */
+  private async getArtistHistory(song: SongMetadata, platform: string): Promise<FeaturePrior[]> {
+    if (!song.artist) return [];
+
+    try {
+      const rows: { data: string }[] = await this.prisma.songCache.findMany({
+        where: {
+          platform,
+          artist: song.artist,
+          featuresEstimated: false,
+          expiresAt: { gt: new Date() },
+        },
+        select: { data: true },
+        take: this.MAX_ARTIST_SONGS,
+      });
+
+      return rows
+        .map((row) => JSON.parse(row.data) as CachedSong)
+        .filter((cached) => cached.id !== song.id && !cached.featuresEstimated)
+        .filter((cached) => !song.artistId || !cached.artistId || cached.artistId === song.artistId)
+        .map((cached) => cached.audioFeatures);
+    } catch (error) {
+      logger.warn(`Could not load artist history for ${song.artist}:`, error);
+      return [];
+    }
+  }
+}
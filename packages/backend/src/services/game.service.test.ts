@@ -0,0 +1,262 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { GameService } from './game.service';
+import { MatchingService } from './matching.service';
+import { SongResolverService } from './songResolver.service';
+import { VibePromptService } from './vibePrompt.service';
+import { AudioFeatures } from '../types/music.types';
+import { SongRef } from '../types/provider.types';
+
+describe('GameService', () => {
+  const player1 = '11111111-1111-4111-8111-111111111111';
+  const player2 = '22222222-2222-4222-8222-222222222222';
+
+  const baseSong: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.85,
+    danceability: 0.8,
+    tempo: 124,
+    acousticness: 0.05,
+    key: 9,
+    mode: 0,
+    timeSignature: 4,
+    loudness: -5,
+    durationMs: 210000,
+    genres: ['house'],
+    artist: 'Night Drive',
+    releaseYear: 2019,
+  };
+  const songs: Record<string, AudioFeatures> = {
+    club: baseSong,
+    anthem: { ...baseSong, tempo: 126, key: 4, artist: 'Other', releaseYear: 2021 },
+    ballad: {
+      ...baseSong,
+      valence: 0.2,
+      energy: 0.2,
+      danceability: 0.3,
+      tempo: 70,
+      acousticness: 0.9,
+      key: 2,
+      mode: 1,
+      loudness: -14,
+      genres: ['folk'],
+      artist: 'Quiet One',
+      releaseYear: 1971,
+    },
+  };
+
+  let games: Map<string, Record<string, unknown>>;
+  let rounds: Map<string, Record<string, unknown>>;
+  let prisma: Record<string, unknown>;
+  let matchingService: MatchingService;
+  let vibePromptService: VibePromptService;
+  let service: GameService;
+
+  beforeEach(() => {
+    games = new Map();
+    rounds = new Map();
+    const gameSession = {
+      create: vi.fn(async ({ data }) => {
+        const game = {
+          id: 'game-1',
+          status: 'WAITING',
+          currentRound: 1,
+          player1Score: 0,
+          player2Score: 0,
+          ...data,
+        };
+        games.set(game.id, game);
+        return game;
+      }),
+      findUnique: vi.fn(async ({ where }) => games.get(where.id) ?? null),
+      update: vi.fn(async ({ where, data }) => Object.assign(games.get(where.id)!, data)),
+    };
+    const gameRound = {
+      create: vi.fn(async ({ data }) => {
+        const round = {
+          id: `round-${data.roundNumber}`,
+          secondPlayerSongId: null,
+          promptId: null,
+          ...data,
+        };
+        rounds.set(String(data.roundNumber), round);
+        return round;
+      }),
+      findUnique: vi.fn(
+        async ({ where }) => rounds.get(String(where.gameSessionId_roundNumber.roundNumber)) ?? null
+      ),
+      update: vi.fn(async ({ where, data }) =>
+        Object.assign([...rounds.values()].find((round) => round.id === where.id)!, data)
+      ),
+    };
+    prisma = {
+      gameSession,
+      gameRound,
+      $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    };
+
+    matchingService = new MatchingService();
+    vibePromptService = new VibePromptService();
+    const songResolverService = {
+      getAudioFeatures: vi.fn(async (ref: SongRef) => songs[ref.id]!),
+    };
+    service = new GameService(
+      prisma as unknown as PrismaClient,
+      matchingService,
+      songResolverService as unknown as SongResolverService,
+      vibePromptService
+    );
+  });
+
+  const playRound = async (roundNumber: number, first: string, second: string) => {
+    await service.submitSong('game-1', roundNumber, player1, { platform: 'spotify', id: first });
+    return service.submitSong('game-1', roundNumber, player2, { platform: 'spotify', id: second });
+  };
+
+  it('should store the weight profile chosen for the game', async () => {
+    const game = await service.createGame({ player1Id: player1, weightProfile: 'harmonic' });
+
+    expect(game).toMatchObject({ weightProfile: 'harmonic', musicService: 'spotify' });
+    expect(games.get('game-1')).toMatchObject({ weightProfile: 'harmonic', maxRounds: 10 });
+  });
+
+  it('should reject unknown weight profiles', async () => {
+    await expect(
+      service.createGame({ player1Id: player1, weightProfile: 'nope' })
+    ).rejects.toThrow('Unknown weight profile');
+  });
+
+  it("should score rounds with the game's weight profile", async () => {
+    await service.createGame({ player1Id: player1, player2Id: player2, weightProfile: 'party' });
+
+    const waiting = await service.submitSong('game-1', 1, player1, {
+      platform: 'spotify',
+      id: 'club',
+    });
+    const result = await service.submitSong('game-1', 1, player2, {
+      platform: 'spotify',
+      id: 'anthem',
+    });
+
+    const expected = matchingService.calculateMatch(songs.club!, songs.anthem!, {
+      weightProfile: 'party',
+    });
+    expect(waiting).toMatchObject({ waitingForOpponent: true, match: null });
+    expect(result.match).toMatchObject({
+      weightProfile: 'party',
+      overallScore: expected.overallScore,
+    });
+    expect(result.points).toEqual({ firstPlayer: 0, secondPlayer: expected.overallScore });
+    expect(rounds.get('1')).toMatchObject({
+      secondPlayerSongId: 'spotify:anthem',
+      matchScore: expected.overallScore,
+      secondPlayerPoints: expected.overallScore,
+    });
+    expect(games.get('game-1')).toMatchObject({
+      status: 'ACTIVE',
+      currentRound: 2,
+      player2Score: expected.overallScore,
+    });
+  });
+
+  it('should reward the most different answer in contrast games', async () => {
+    await service.createGame({ player1Id: player1, player2Id: player2, scoringMode: 'contrast' });
+
+    const similar = await playRound(1, 'club', 'anthem');
+    const opposite = await playRound(2, 'club', 'ballad');
+
+    expect(games.get('game-1')).toMatchObject({ scoringMode: 'CONTRAST' });
+    expect(similar.match!.mode).toBe('contrast');
+    expect(opposite.points!.secondPlayer).toBeGreaterThan(similar.points!.secondPlayer);
+    expect(opposite.match!.overallScore).toBe(
+      matchingService.calculateMatch(songs.club!, songs.ballad!, { mode: 'contrast' }).overallScore
+    );
+  });
+
+  it('should pick the winner after the last round', async () => {
+    await service.createGame({ player1Id: player1, player2Id: player2, maxRounds: 1 });
+
+    await playRound(1, 'club', 'anthem');
+
+    expect(games.get('game-1')).toMatchObject({ status: 'COMPLETED', winnerId: player2 });
+    await expect(playRound(2, 'club', 'anthem')).rejects.toThrow('Game is over');
+  });
+
+  it('should only take songs from the players of the current round', async () => {
+    await service.createGame({ player1Id: player1 });
+    await expect(playRound(1, 'club', 'anthem')).rejects.toThrow('Waiting for a second player');
+
+    games.get('game-1')!.player2Id = player2;
+    await expect(
+      service.submitSong('game-1', 2, player1, { platform: 'spotify', id: 'club' })
+    ).rejects.toThrow('Round 2 is not being played');
+
+    await service.submitSong('game-1', 1, player1, { platform: 'spotify', id: 'club' });
+    await expect(
+      service.submitSong('game-1', 1, player1, { platform: 'spotify', id: 'ballad' })
+    ).rejects.toThrow('Song already submitted');
+  });
+
+  it('should store the prompts of prompt games', async () => {
+    const game = await service.createGame({
+      player1Id: player1,
+      roundType: 'prompt',
+      promptIds: ['sad-and-slow', 'study-focus'],
+    });
+
+    expect(game).toMatchObject({ roundType: 'prompt', promptIds: ['sad-and-slow', 'study-focus'] });
+    expect(games.get('game-1')).toMatchObject({ roundType: 'PROMPT' });
+
+    await expect(service.createGame({ player1Id: player1, roundType: 'prompt' })).rejects.toThrow(
+      'Prompt rounds need at least one prompt'
+    );
+    await expect(
+      service.createGame({ player1Id: player1, roundType: 'prompt', promptIds: ['nope'] })
+    ).rejects.toThrow('Unknown prompts: nope');
+    await expect(
+      service.createGame({
+        player1Id: player1,
+        roundType: 'prompt',
+        promptIds: ['sad-and-slow'],
+        scoringMode: 'contrast',
+      })
+    ).rejects.toThrow('Prompt rounds are scored by similarity');
+  });
+
+  it("should score both songs against the round's prompt", async () => {
+    await service.createGame({
+      player1Id: player1,
+      player2Id: player2,
+      maxRounds: 3,
+      roundType: 'prompt',
+      promptIds: ['sad-and-slow', 'study-focus'],
+    });
+
+    const result = await playRound(1, 'club', 'ballad');
+    await playRound(2, 'club', 'ballad');
+    const third = await service.submitSong('game-1', 3, player1, {
+      platform: 'spotify',
+      id: 'club',
+    });
+
+    const { target } = vibePromptService.getPrompt('sad-and-slow');
+    const club = matchingService.calculateTargetMatch(songs.club!, target);
+    const ballad = matchingService.calculateTargetMatch(songs.ballad!, target);
+    expect(result).toMatchObject({ promptId: 'sad-and-slow', match: null });
+    expect(result.points).toEqual({
+      firstPlayer: club.overallScore,
+      secondPlayer: ballad.overallScore,
+    });
+    expect(ballad.overallScore).toBeGreaterThan(club.overallScore);
+    expect(rounds.get('1')).toMatchObject({
+      firstPlayerPoints: club.overallScore,
+      secondPlayerPoints: ballad.overallScore,
+    });
+    expect(rounds.get('1')!.matchScore).toBeUndefined();
+    // Prompts repeat when there are more rounds than prompts
+    expect(rounds.get('2')).toMatchObject({ promptId: 'study-focus' });
+    expect(third.promptId).toBe('sad-and-slow');
+    expect(games.get('game-1')!.player1Score).toBeGreaterThan(0);
+  });
+});
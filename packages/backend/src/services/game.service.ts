@@ -0,0 +1,428 @@
+import { inject, injectable } from 'tsyringe';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { Platform, PLATFORM_SERVICES, platformForService } from '../config/platforms';
+import { DEFAULT_WEIGHT_PROFILE } from '../config/weightProfiles';
+import { AudioFeatures, MatchMode, MatchResult, TargetMatchResult } from '../types/music.types';
+import { SongRef } from '../types/provider.types';
+import { MatchingService } from './matching.service';
+import { SongResolverService } from './songResolver.service';
+import { VibePromptService } from './vibePrompt.service';
+
+/**
+ * What players match in a round: the opponent's song, or a target prompt
+ */
+export type RoundType = 'song_match' | 'prompt';
+
+/**
+ * Settings chosen when a game is created
+ */
+export interface CreateGameInput {
+  player1Id: string;
+  player2Id?: string;
+  maxRounds?: number; // Default: 10
+  musicService?: Platform; // Default: 'spotify'
+  allowExplicit?: boolean; // Default: true
+  weightProfile?: string; // Default: 'default'
+  scoringMode?: MatchMode; // Default: 'similarity'; 'contrast' rewards opposite songs
+  roundType?: RoundType; // Default: 'song_match'
+  promptIds?: string[]; // Prompt rounds: played in order, repeating (data/vibePrompts.json)
+}
+
+/**
+ * A game session and the settings its rounds are scored with
+ */
+export interface GameSummary {
+  id: string;
+  status: string;
+  maxRounds: number;
+  currentRound: number;
+  musicService: Platform;
+  allowExplicit: boolean;
+  weightProfile: string;
+  scoringMode: MatchMode;
+  roundType: RoundType;
+  promptIds: string[];
+  player1Id: string;
+  player2Id: string | null;
+  player1Score: number;
+  player2Score: number;
+}
+
+export interface RoundPoints {
+  firstPlayer: number;
+  secondPlayer: number;
+}
+
+/**
+ * Each player's song scored against the prompt of a prompt round
+ */
+export interface TargetMatches {
+  firstPlayer: TargetMatchResult;
+  secondPlayer: TargetMatchResult;
+}
+
+/**
+ * Outcome of a song submission
+ * The match (song match rounds) or target matches (prompt rounds) and the
+ * points are set once both songs of the round are in
+ */
+export interface RoundSubmission {
+  roundId: string;
+  roundNumber: number;
+  promptId: string | null; // Prompt rounds
+  waitingForOpponent: boolean;
+  match: MatchResult | null;
+  targetMatches: TargetMatches | null;
+  points: RoundPoints | null;
+}
+
+/**
+ * GameSession row, as read by this service
+ */
+interface StoredGame extends Omit<GameSummary, 'musicService' | 'scoringMode' | 'roundType'> {
+  musicService: (typeof PLATFORM_SERVICES)[Platform];
+  scoringMode: 'SIMILARITY' | 'CONTRAST';
+  roundType: 'SONG_MATCH' | 'PROMPT';
+}
+
+/**
+ * GameRound row, as read by this service
+ */
+interface StoredRound {
+  id: string;
+  firstPlayerId: string;
+  secondPlayerId: string;
+  firstPlayerSongId: string; // platform:trackId
+  secondPlayerSongId: string | null;
+  promptId: string | null;
+}
+
+/**
+ * Scores of a completed round, and the columns they are stored in
+ */
+interface ScoredRound {
+  match: MatchResult | null;
+  targetMatches: TargetMatches | null;
+  points: RoundPoints;
+  data: Record<string, unknown>;
+}
+
+/**
+ * GameService
+ *
+ * Creates game sessions and scores their rounds. The first song submitted in
+ * a round sets it; the other player answers with a song and earns the match
+ * score. Rounds are scored with the settings stored on the session, so every
+ * round of a game uses the weight profile and scoring mode chosen when it was
+ * created; in contrast ("opposites") games the most different answer wins.
+ * In prompt rounds both players pick a song for the round's prompt instead,
+ * and each earns their song's score against the prompt's target.
+ */
+@injectable()
+export class GameService {
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private matchingService: MatchingService,
+    private songResolverService: SongResolverService,
+    private vibePromptService: VibePromptService
+  ) {}
+
+  /**
+   * Create a game session
+   * Settings are checked here, so rounds can't fail on them later
+   */
+  async createGame(input: CreateGameInput): Promise<GameSummary> {
+    const weightProfile = this.matchingService.getWeightProfile(
+      input.weightProfile ?? DEFAULT_WEIGHT_PROFILE
+    ).name;
+    const roundType = input.roundType ?? 'song_match';
+    const promptIds = roundType === 'prompt' ? (input.promptIds ?? []) : [];
+
+    if (roundType === 'prompt') {
+      if (promptIds.length === 0) {
+        throw new AppError(400, 'INVALID_PROMPT', 'Prompt rounds need at least one prompt');
+      }
+      // Songs are scored against a target profile, which has no contrast frame
+      if (input.scoringMode === 'contrast') {
+        throw new AppError(400, 'INVALID_SCORING_MODE', 'Prompt rounds are scored by similarity');
+      }
+      this.vibePromptService.validatePromptIds(promptIds);
+    }
+
+    const game: StoredGame = await this.prisma.gameSession.create({
+      data: {
+        player1Id: input.player1Id,
+        player2Id: input.player2Id ?? null,
+        maxRounds: input.maxRounds ?? 10,
+        musicService: PLATFORM_SERVICES[input.musicService ?? 'spotify'],
+        allowExplicit: input.allowExplicit ?? true,
+        weightProfile,
+        scoringMode: input.scoringMode === 'contrast' ? 'CONTRAST' : 'SIMILARITY',
+        roundType: roundType === 'prompt' ? 'PROMPT' : 'SONG_MATCH',
+        promptIds,
+      },
+    });
+
+    logger.info(`Created game ${game.id} (weight profile ${weightProfile})`);
+    return this.toSummary(game);
+  }
+
+  /**
+   * Get a game session by ID
+   */
+  async getGame(gameId: string): Promise<GameSummary> {
+    return this.toSummary(await this.findGame(gameId));
+  }
+
+  /**
+   * Submit a player's song for the current round
+   * The second song completes the round: it is scored against the first (or
+   * both against the round's prompt) with the game's settings, and the
+   * players' points are added
+   */
+  async submitSong(
+    gameId: string,
+    roundNumber: number,
+    playerId: string,
+    song: SongRef
+  ): Promise<RoundSubmission> {
+    const game = await this.findGame(gameId);
+
+    if (game.status === 'COMPLETED' || game.status === 'ABANDONED') {
+      throw new AppError(409, 'GAME_OVER', `Game is over: ${gameId}`);
+    }
+    if (!game.player2Id) {
+      throw new AppError(409, 'GAME_NOT_READY', 'Waiting for a second player');
+    }
+    if (playerId !== game.player1Id && playerId !== game.player2Id) {
+      throw new AppError(403, 'NOT_IN_GAME', `Player is not in game: ${gameId}`);
+    }
+    if (roundNumber !== game.currentRound) {
+      throw new AppError(409, 'ROUND_NOT_ACTIVE', `Round ${roundNumber} is not being played`);
+    }
+
+    const songId = `${song.platform}:${song.id}`;
+    const round: StoredRound | null = await this.prisma.gameRound.findUnique({
+      where: { gameSessionId_roundNumber: { gameSessionId: gameId, roundNumber } },
+    });
+
+    if (!round) {
+      const opponentId = playerId === game.player1Id ? game.player2Id : game.player1Id;
+      const created: StoredRound = await this.prisma.gameRound.create({
+        data: {
+          gameSessionId: gameId,
+          roundNumber,
+          firstPlayerId: playerId,
+          secondPlayerId: opponentId,
+          firstPlayerSongId: songId,
+          firstPlayerSongPlatform: PLATFORM_SERVICES[song.platform],
+          firstPlayerSubmittedAt: new Date(),
+          promptId: this.promptFor(game, roundNumber),
+        },
+      });
+      if (game.status === 'WAITING') {
+        await this.prisma.gameSession.update({
+          where: { id: gameId },
+          data: { status: 'ACTIVE', startedAt: new Date() },
+        });
+      }
+
+      return {
+        roundId: created.id,
+        roundNumber,
+        promptId: created.promptId,
+        waitingForOpponent: true,
+        match: null,
+        targetMatches: null,
+        points: null,
+      };
+    }
+
+    if (playerId !== round.secondPlayerId || round.secondPlayerSongId) {
+      throw new AppError(
+        409,
+        'ALREADY_SUBMITTED',
+        `Song already submitted for round ${roundNumber}`
+      );
+    }
+
+    const [features1, features2] = await Promise.all([
+      this.songResolverService.getAudioFeatures(this.splitSongId(round.firstPlayerSongId)),
+      this.songResolverService.getAudioFeatures(song),
+    ]);
+    const { match, targetMatches, points, data } = round.promptId
+      ? this.scorePromptRound(game, round.promptId, features1, features2)
+      : this.scoreSongRound(game, features1, features2);
+
+    await this.prisma.$transaction([
+      this.prisma.gameRound.update({
+        where: { id: round.id },
+        data: {
+          secondPlayerSongId: songId,
+          secondPlayerSongPlatform: PLATFORM_SERVICES[song.platform],
+          secondPlayerSubmittedAt: new Date(),
+          completedAt: new Date(),
+          firstPlayerPoints: points.firstPlayer,
+          secondPlayerPoints: points.secondPlayer,
+          ...data,
+        },
+      }),
+      this.prisma.gameSession.update({
+        where: { id: gameId },
+        data: this.afterRound(game, round, points),
+      }),
+    ]);
+
+    return {
+      roundId: round.id,
+      roundNumber,
+      promptId: round.promptId,
+      waitingForOpponent: false,
+      match,
+      targetMatches,
+      points,
+    };
+  }
+
+  /**
+   * Score the answering song against the first one; only the answer earns points
+   */
+  private scoreSongRound(
+    game: StoredGame,
+    features1: AudioFeatures,
+    features2: AudioFeatures
+  ): ScoredRound {
+    const match = this.matchingService.calculateMatch(features1, features2, {
+      weightProfile: game.weightProfile,
+      mode: this.toMatchMode(game.scoringMode),
+    });
+
+    return {
+      match,
+      targetMatches: null,
+      points: { firstPlayer: 0, secondPlayer: match.overallScore },
+      data: {
+        matchScore: match.overallScore,
+        matchConfidence: match.confidence,
+        matchBreakdown: match.breakdown as unknown as Prisma.InputJsonValue,
+        matchExplanation: match.explanation as unknown as Prisma.InputJsonValue,
+        processingTimeMs: Math.round(match.processingTime),
+        algorithmVersion: match.algorithmVersion,
+      },
+    };
+  }
+
+  /**
+   * Score both songs against the round's prompt; each player earns their own score
+   * The match columns describe a song-to-song match, so they stay empty
+   */
+  private scorePromptRound(
+    game: StoredGame,
+    promptId: string,
+    features1: AudioFeatures,
+    features2: AudioFeatures
+  ): ScoredRound {
+    const { target } = this.vibePromptService.getPrompt(promptId);
+    const options = { weightProfile: game.weightProfile };
+    const targetMatches: TargetMatches = {
+      firstPlayer: this.matchingService.calculateTargetMatch(features1, target, options),
+      secondPlayer: this.matchingService.calculateTargetMatch(features2, target, options),
+    };
+
+    return {
+      match: null,
+      targetMatches,
+      points: {
+        firstPlayer: targetMatches.firstPlayer.overallScore,
+        secondPlayer: targetMatches.secondPlayer.overallScore,
+      },
+      data: {
+        processingTimeMs: Math.round(
+          targetMatches.firstPlayer.processingTime + targetMatches.secondPlayer.processingTime
+        ),
+        algorithmVersion: targetMatches.secondPlayer.algorithmVersion,
+      },
+    };
+  }
+
+  /**
+   * Prompt of a round: the game's prompts in order, repeating when there are
+   * more rounds than prompts. Null in song match games
+   */
+  private promptFor(game: StoredGame, roundNumber: number): string | null {
+    if (game.roundType !== 'PROMPT' || game.promptIds.length === 0) return null;
+    return game.promptIds[(roundNumber - 1) % game.promptIds.length]!;
+  }
+
+  /**
+   * Session changes once a round is complete: the players' new scores, and
+   * the next round or, after the last one, the winner (null on a tie)
+   */
+  private afterRound(
+    game: StoredGame,
+    round: StoredRound,
+    points: RoundPoints
+  ): Record<string, unknown> {
+    const pointsFor = (playerId: string | null) =>
+      (playerId === round.firstPlayerId ? points.firstPlayer : 0) +
+      (playerId === round.secondPlayerId ? points.secondPlayer : 0);
+    const player1Score = game.player1Score + pointsFor(game.player1Id);
+    const player2Score = game.player2Score + pointsFor(game.player2Id);
+
+    if (game.currentRound < game.maxRounds) {
+      return { player1Score, player2Score, currentRound: game.currentRound + 1 };
+    }
+
+    const winnerId =
+      player1Score === player2Score
+        ? null
+        : player1Score > player2Score
+          ? game.player1Id
+          : game.player2Id;
+    return { player1Score, player2Score, status: 'COMPLETED', endedAt: new Date(), winnerId };
+  }
+
+  private async findGame(gameId: string): Promise<StoredGame> {
+    const game: StoredGame | null = await this.prisma.gameSession.findUnique({
+      where: { id: gameId },
+    });
+
+    if (!game) {
+      throw new AppError(404, 'NOT_FOUND', `Game not found: ${gameId}`);
+    }
+    return game;
+  }
+
+  private toSummary(game: StoredGame): GameSummary {
+    return {
+      id: game.id,
+      status: game.status,
+      maxRounds: game.maxRounds,
+      currentRound: game.currentRound,
+      musicService: platformForService(game.musicService),
+      allowExplicit: game.allowExplicit,
+      weightProfile: game.weightProfile,
+      scoringMode: this.toMatchMode(game.scoringMode),
+      roundType: game.roundType === 'PROMPT' ? 'prompt' : 'song_match',
+      promptIds: game.promptIds,
+      player1Id: game.player1Id,
+      player2Id: game.player2Id,
+      player1Score: game.player1Score,
+      player2Score: game.player2Score,
+    };
+  }
+
+  private toMatchMode(scoringMode: StoredGame['scoringMode']): MatchMode {
+    return scoringMode === 'CONTRAST' ? 'contrast' : 'similarity';
+  }
+
+  /**
+   * Split a stored platform:trackId
+   */
+  private splitSongId(songId: string): SongRef {
+    const separator = songId.indexOf(':');
+    return { platform: songId.slice(0, separator) as Platform, id: songId.slice(separator + 1) };
+  }
+}
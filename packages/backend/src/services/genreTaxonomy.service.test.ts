@@ -0,0 +1,94 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GenreTaxonomyService } from './genreTaxonomy.service';
+
+describe('GenreTaxonomyService', () => {
+  let service: GenreTaxonomyService;
+
+  beforeEach(() => {
+    service = new GenreTaxonomyService();
+  });
+
+  describe('compareGenres', () => {
+    it('should score parent and child genres', () => {
+      const link = service.compareGenres('deep house', 'house');
+
+      expect(link).toMatchObject({ relation: 'parent', sharedGenre: 'house' });
+      expect(link?.similarity).toBeCloseTo(0.8);
+      expect(service.describeLink(link!)).toEqual({
+        code: 'GENRE_SUBGENRE',
+        params: { child: 'deep house', parent: 'house' },
+      });
+    });
+
+    it('should score sibling genres through their parent', () => {
+      const link = service.compareGenres('indie rock', 'alternative rock');
+
+      expect(link).toMatchObject({ relation: 'sibling', sharedGenre: 'rock' });
+      expect(link?.similarity).toBeCloseTo(0.5);
+    });
+
+    it('should give less credit to distant relatives', () => {
+      const cousins = service.compareGenres('grunge', 'shoegaze');
+      const siblings = service.compareGenres('alternative rock', 'shoegaze');
+
+      expect(cousins?.relation).toBe('related');
+      expect(cousins!.similarity).toBeLessThan(siblings!.similarity);
+    });
+
+    it('should ignore spelling differences', () => {
+      expect(service.compareGenres('Hip-Hop', 'hip hop')?.similarity).toBe(1);
+      expect(service.compareGenres('dance-pop', 'dance pop')?.similarity).toBe(1);
+      expect(service.resolve('synth-pop')).toBe('synthpop');
+    });
+
+    it('should resolve regional variants by dropping leading words', () => {
+      expect(service.resolve('swedish indie rock')).toBe('indie rock');
+
+      const link = service.compareGenres('swedish indie rock', 'indie rock');
+      expect(link).toMatchObject({ relation: 'same', sharedGenre: 'indie rock' });
+    });
+
+    it('should list a genre with its ancestors', () => {
+      expect(service.lineage('deep house')).toEqual(['deep house', 'house', 'electronic']);
+      expect(service.lineage('vapor twitch')).toEqual([]);
+    });
+
+    it('should find the closest link to any candidate genre', () => {
+      const link = service.closestLink(['deep house', 'bossa nova'], ['techno', 'house']);
+
+      expect(link).toMatchObject({ genre1: 'deep house', genre2: 'house', relation: 'parent' });
+      expect(service.closestLink(['death metal'], ['bossa nova', 'salsa'])).toBeNull();
+    });
+
+    it('should fall back to keyword overlap for unknown genres', () => {
+      const link = service.compareGenres('vapor soul', 'vapor twitch');
+
+      expect(link?.relation).toBe('keyword');
+      expect(link?.similarity).toBeGreaterThan(0);
+      expect(link!.similarity).toBeLessThan(0.5);
+    });
+
+    it('should return null for unrelated genres', () => {
+      expect(service.compareGenres('death metal', 'bossa nova')).toBeNull();
+    });
+  });
+
+  describe('compare', () => {
+    it('should return 1 for identical genre lists', () => {
+      expect(service.compare(['pop', 'dance pop'], ['dance pop', 'pop']).similarity).toBe(1);
+    });
+
+    it('should return neutral similarity without data', () => {
+      expect(service.compare([], ['rock'])).toEqual({ similarity: 0.5, links: [] });
+    });
+
+    it('should average the best match for each genre', () => {
+      const result = service.compare(['deep house', 'techno'], ['house']);
+
+      // deep house -> house = 0.8, techno -> house = 0.5; house -> deep house = 0.8
+      expect(result.similarity).toBeCloseTo((0.65 + 0.8) / 2);
+      expect(result.links[0]).toMatchObject({ genre1: 'deep house', genre2: 'house' });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { injectable } from 'tsyringe';
+import taxonomy from '../data/genreTaxonomy.json' with { type: 'json' };
+import { GenreLink } from '../types/music.types';
+import { MessageCode, MessageParams } from './messageCatalog.service';
+
+export interface GenreComparison {
+  similarity: number; // 0-1
+  links: GenreLink[]; // Strongest genre pairs, best first
+}
+
+/**
+ * GenreTaxonomyService
+ *
+ * Genre similarity over the bundled parent/child genre tree
+ * (data/genreTaxonomy.json), so related genres get partial credit:
+ * - Tree similarity: Wu-Palmer, 2 * depth(common ancestor) / (depth(a) + depth(b))
+ *   e.g. "deep house" / "house" = 0.8, "indie rock" / "alternative rock" = 0.5
+ * - Keyword overlap as a fallback for genres outside the tree
+ *
+ * Works fully offline; unknown genres are resolved by dropping leading
+ * words ("swedish indie rock" -> "indie rock").
+ */
+@injectable()
+export class GenreTaxonomyService {
+  // Keyword overlap alone is weaker evidence than the tree
+  private readonly KEYWORD_WEIGHT = 0.6;
+
+  // Resolved to the same taxonomy genre but tagged differently
+  private readonly RESOLVED_SAME_SIMILARITY = 0.9;
+
+  // Pairs below this are not reported as links
+  private readonly LINK_THRESHOLD = 0.3;
+  private readonly MAX_LINKS = 3;
+
+  // Keyed by normalized name (lowercase, hyphens as spaces)
+  private readonly parents = new Map<string, string | null>();
+  private readonly names = new Map<string, string>(); // Normalized -> taxonomy spelling
+  private readonly depths = new Map<string, number>();
+
+  constructor() {
+    const genres = taxonomy.genres as Record<string, string | null>;
+    for (const [genre, parent] of Object.entries(genres)) {
+      this.parents.set(this.normalize(genre), parent === null ? null : this.normalize(parent));
+      this.names.set(this.normalize(genre), genre);
+    }
+  }
+
+  /**
+   * Compare two songs' genre lists
+   * Each genre is matched to its closest genre on the other song, averaged both ways
+   */
+  compare(genres1: string[], genres2: string[]): GenreComparison {
+    const list1 = this.normalizeList(genres1);
+    const list2 = this.normalizeList(genres2);
+    if (list1.length === 0 || list2.length === 0) {
+      return { similarity: 0.5, links: [] }; // No data
+    }
+
+    const links = new Map<string, GenreLink>();
+    const bestScores = (from: string[], to: string[], swap: boolean) =>
+      from.map((genre) => {
+        let best: GenreLink | null = null;
+        for (const other of to) {
+          // Links always read song 1 -> song 2
+          const link = swap
+            ? this.compareGenres(other, genre)
+            : this.compareGenres(genre, other);
+          if (link && (!best || link.similarity > best.similarity)) best = link;
+        }
+        if (best && best.similarity >= this.LINK_THRESHOLD) {
+          links.set(`${best.genre1}|${best.genre2}`, best);
+        }
+        return best?.similarity ?? 0;
+      });
+
+    const average = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const similarity =
+      (average(bestScores(list1, list2, false)) + average(bestScores(list2, list1, true))) / 2;
+
+    return {
+      similarity,
+      links: [...links.values()]
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, this.MAX_LINKS),
+    };
+  }
+
+  /**
+   * Compare two individual genres
+   * Returns null when they are unrelated
+   */
+  compareGenres(genre1: string, genre2: string): GenreLink | null {
+    const a = this.normalize(genre1);
+    const b = this.normalize(genre2);
+    if (a === b) return { genre1: a, genre2: b, relation: 'same', similarity: 1 };
+
+    const treeLink = this.compareInTree(a, b);
+    const keywordLink = this.compareKeywords(a, b);
+
+    if (!treeLink) return keywordLink;
+    if (!keywordLink) return treeLink;
+    return keywordLink.similarity > treeLink.similarity ? keywordLink : treeLink;
+  }
+
+  /**
+   * Strongest link from any of a song's genres to any of the candidate genres
+   * Returns null when none of them are related
+   */
+  closestLink(genres: string[], candidates: string[]): GenreLink | null {
+    let best: GenreLink | null = null;
+    for (const genre of genres) {
+      for (const candidate of candidates) {
+        const link = this.compareGenres(genre, candidate);
+        if (link && (!best || link.similarity > best.similarity)) best = link;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Map a genre onto the taxonomy, or null if no suffix of it is known
+   * Returns the normalized taxonomy name
+   */
+  resolve(genre: string): string | null {
+    const words = this.normalize(genre).split(' ');
+
+    for (let start = 0; start < words.length; start++) {
+      const candidate = words.slice(start).join(' ');
+      if (this.parents.has(candidate)) return candidate;
+
+      // "synth pop" -> "synthpop"
+      const joined = candidate.replace(/ /g, '');
+      if (this.parents.has(joined)) return joined;
+    }
+
+    return null;
+  }
+
+  /**
+   * The resolved taxonomy genre followed by its ancestors, most specific first
+   * Empty when the genre cannot be resolved
+   */
+  lineage(genre: string): string[] {
+    const resolved = this.resolve(genre);
+    return resolved ? this.ancestors(resolved) : [];
+  }
+
+  /**
+   * Describe a genre link for match explanations
+   * Returns a message code and params (see MessageCatalogService)
+   */
+  describeLink(link: GenreLink): { code: MessageCode; params: MessageParams } {
+    switch (link.relation) {
+      case 'same':
+        return { code: 'GENRE_SAME', params: { genre: link.sharedGenre ?? link.genre1 } };
+      case 'parent': {
+        const parent = this.normalize(link.sharedGenre ?? '');
+        const child = link.genre1 === parent ? link.genre2 : link.genre1;
+        return { code: 'GENRE_SUBGENRE', params: { child, parent: link.sharedGenre ?? '' } };
+      }
+      case 'sibling':
+      case 'related':
+        return { code: 'GENRE_SIBLINGS', params: { parent: link.sharedGenre ?? '' } };
+      default:
+        return { code: 'GENRE_KEYWORD', params: { a: link.genre1, b: link.genre2 } };
+    }
+  }
+
+  private compareInTree(a: string, b: string): GenreLink | null {
+    const resolvedA = this.resolve(a);
+    const resolvedB = this.resolve(b);
+    if (!resolvedA || !resolvedB) return null;
+
+    if (resolvedA === resolvedB) {
+      return {
+        genre1: a,
+        genre2: b,
+        relation: 'same',
+        sharedGenre: this.displayName(resolvedA),
+        similarity: this.RESOLVED_SAME_SIMILARITY,
+      };
+    }
+
+    const ancestorsA = this.ancestors(resolvedA);
+    const common = this.ancestors(resolvedB).find((genre) => ancestorsA.includes(genre));
+    if (!common) return null;
+
+    const similarity =
+      (2 * this.depth(common)) / (this.depth(resolvedA) + this.depth(resolvedB));
+
+    let relation: GenreLink['relation'] = 'related';
+    if (common === resolvedA || common === resolvedB) relation = 'parent';
+    else if (this.parents.get(resolvedA) === this.parents.get(resolvedB)) relation = 'sibling';
+
+    return { genre1: a, genre2: b, relation, sharedGenre: this.displayName(common), similarity };
+  }
+
+  private compareKeywords(a: string, b: string): GenreLink | null {
+    const words1 = new Set(a.split(' '));
+    const words2 = new Set(b.split(' '));
+    const shared = [...words1].filter((word) => words2.has(word));
+    if (shared.length === 0) return null;
+
+    const union = new Set([...words1, ...words2]).size;
+    return {
+      genre1: a,
+      genre2: b,
+      relation: 'keyword',
+      sharedGenre: shared.join(' '),
+      similarity: (shared.length / union) * this.KEYWORD_WEIGHT,
+    };
+  }
+
+  /**
+   * The genre itself followed by its ancestors up to the top-level genre
+   */
+  private ancestors(genre: string): string[] {
+    const chain: string[] = [];
+    let current: string | null | undefined = genre;
+    while (current) {
+      chain.push(current);
+      current = this.parents.get(current);
+    }
+    return chain;
+  }
+
+  /**
+   * Top-level genres have depth 1
+   */
+  private depth(genre: string): number {
+    let depth = this.depths.get(genre);
+    if (depth === undefined) {
+      depth = this.ancestors(genre).length;
+      this.depths.set(genre, depth);
+    }
+    return depth;
+  }
+
+  private displayName(genre: string): string {
+    return this.names.get(genre) ?? genre;
+  }
+
+  private normalize(genre: string): string {
+    return genre.toLowerCase().trim().replace(/[\s-]+/g, ' ');
+  }
+
+  private normalizeList(genres: string[]): string[] {
+    return [...new Set(genres.map((genre) => this.normalize(genre)).filter(Boolean))];
+  }
+}
@@ -0,0 +1,239 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Redis } from 'ioredis';
+import { MatchCacheService } from './matchCache.service';
+import { MatchingService } from './matching.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('MatchCacheService', () => {
+  const baseSong: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.7,
+    danceability: 0.75,
+    tempo: 120,
+    acousticness: 0.3,
+    key: 0,
+    mode: 1,
+    timeSignature: 4,
+    loudness: -5,
+    durationMs: 200000,
+  };
+
+  const songs = [
+    { id: 'a', features: baseSong },
+    { id: 'b', features: { ...baseSong, energy: 0.3, tempo: 90 } },
+    { id: 'c', features: { ...baseSong, valence: 0.2, acousticness: 0.9 } },
+  ];
+
+  let redis: { mget: ReturnType<typeof vi.fn>; pipeline: ReturnType<typeof vi.fn> };
+  let setex: ReturnType<typeof vi.fn>;
+  let matchingService: MatchingService;
+  let service: MatchCacheService;
+
+  beforeEach(() => {
+    setex = vi.fn();
+    redis = {
+      mget: vi.fn(async (...keys: string[]) => keys.map(() => null)),
+      pipeline: vi.fn(() => ({ setex, exec: vi.fn().mockResolvedValue([]) })),
+    };
+    matchingService = new MatchingService();
+    service = new MatchCacheService(redis as unknown as Redis, matchingService);
+  });
+
+  describe('getMatch', () => {
+    // In-memory Redis so a pair cached by one request is seen by the next
+    let store: Map<string, string>;
+
+    beforeEach(() => {
+      store = new Map();
+      Object.assign(redis, {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        setex: vi.fn(async (key: string, _ttl: number, value: string) => store.set(key, value)),
+      });
+    });
+
+    it('should serve a cached pair in the order it was requested', async () => {
+      const [a, b] = [songs[0]!, songs[1]!];
+
+      const first = await service.getMatch(a.features, b.features, 'a', 'b');
+      const again = await service.getMatch(a.features, b.features, 'a', 'b');
+
+      expect([...store.keys()]).toEqual([expect.stringMatching(/:default:a>b@[0-9a-f]{12}$/)]);
+      expect(again).toEqual(first);
+    });
+
+    it('should not serve a pair cached in the other order', async () => {
+      const [a, b] = [songs[0]!, songs[1]!];
+      const spy = vi.spyOn(matchingService, 'calculateMatch');
+
+      const first = await service.getMatch(a.features, b.features, 'a', 'b');
+      const reversed = await service.getMatch(b.features, a.features, 'b', 'a');
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(reversed.explanation).not.toEqual(first.explanation);
+      expect(store.size).toBe(2);
+      const expected = matchingService.calculateMatch(b.features, a.features);
+      expect(reversed.explanation).toEqual(expected.explanation);
+    });
+
+    it('should not serve a pair cached with other features', async () => {
+      const [a, b] = [songs[0]!, songs[1]!];
+      const spy = vi.spyOn(matchingService, 'calculateMatch');
+
+      // e.g. estimated features, later refined by preview analysis
+      const estimated = await service.getMatch(a.features, b.features, 'a', 'b');
+      const refinedFeatures = { ...b.features, energy: 0.6, tempo: 118 };
+      const refined = await service.getMatch(a.features, refinedFeatures, 'a', 'b');
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(refined.overallScore).not.toBe(estimated.overallScore);
+      expect(refined.overallScore).toBe(
+        matchingService.calculateMatch(a.features, refinedFeatures).overallScore
+      );
+      expect(store.size).toBe(2);
+    });
+
+    it('should describe a Camelot mix from the first song to the second', async () => {
+      // B major (1B) at 113.3 BPM is pitched up a semitone to beatmatch C major (8B) at 120
+      const bMajor = { ...baseSong, key: 11, tempo: 113.3 };
+      const options = { keyScoring: 'camelot' as const };
+
+      const forward = await service.getMatch(baseSong, bMajor, 'c', 'b', false, options);
+      const reversed = await service.getMatch(bMajor, baseSong, 'b', 'c', false, options);
+
+      expect(forward.explanation.details.harmony.message).toBe(
+        '8B → 8B, same key (1B pitched +1 semitone to beatmatch)'
+      );
+      expect(reversed.explanation.details.harmony.message).toBe(
+        matchingService.calculateMatch(bMajor, baseSong, options).explanation.details.harmony
+          .message
+      );
+      expect(reversed.explanation.details.harmony.message).toMatch(/^1B → /);
+    });
+  });
+
+  describe('getMatchMatrix', () => {
+    it('should return a symmetric matrix with a perfect diagonal', async () => {
+      const matrix = await service.getMatchMatrix(songs);
+
+      expect(matrix.songIds).toEqual(['a', 'b', 'c']);
+      for (let i = 0; i < songs.length; i++) {
+        expect(matrix.scores[i]![i]).toBe(100);
+        expect(matrix.results[i]![i]).toBeNull();
+        for (let j = 0; j < songs.length; j++) {
+          expect(matrix.scores[i]![j]).toBe(matrix.scores[j]![i]);
+        }
+      }
+    });
+
+    it('should score both orders of each pair with Camelot key scoring', async () => {
+      // Mixes go from the first song to the second, which is the one pitched
+      const camelotSongs = [
+        { id: 'c', features: baseSong },
+        { id: 'b', features: { ...baseSong, key: 11, tempo: 113.3 } },
+      ];
+      const options = { keyScoring: 'camelot' as const };
+      const spy = vi.spyOn(matchingService, 'calculateMatch');
+
+      const matrix = await service.getMatchMatrix(camelotSongs, false, options);
+      const [c, b] = camelotSongs.map((song) => song.features);
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      const score = (from: AudioFeatures, to: AudioFeatures) =>
+        matchingService.calculateMatch(from, to, options).overallScore;
+      expect(matrix.scores[0]![1]).toBe(score(c!, b!));
+      expect(matrix.scores[1]![0]).toBe(score(b!, c!));
+      expect(matrix.results[0]![1]!.explanation.details.harmony.message).toMatch(/^8B → /);
+      expect(matrix.results[1]![0]!.explanation.details.harmony.message).toMatch(/^1B → /);
+    });
+
+    it('should match pairwise calculateMatch scores', async () => {
+      const matrix = await service.getMatchMatrix(songs);
+      const pairwise = matchingService.calculateMatch(songs[0]!.features, songs[2]!.features);
+
+      expect(matrix.scores[0]![2]).toBe(pairwise.overallScore);
+    });
+
+    it('should reuse cached pairs and only compute the rest', async () => {
+      const cachedResult = {
+        ...matchingService.calculateMatch(songs[0]!.features, songs[1]!.features),
+        overallScore: 42,
+      };
+      redis.mget.mockImplementation(async (...keys: string[]) =>
+        keys.map((key) => (key.includes(':a>b@') ? JSON.stringify(cachedResult) : null))
+      );
+      const spy = vi.spyOn(matchingService, 'calculateMatch');
+
+      const matrix = await service.getMatchMatrix(songs);
+
+      expect(matrix.cacheHits).toBe(1);
+      expect(matrix.scores[0]![1]).toBe(42);
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(setex).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the cache lookup when bypassed', async () => {
+      const matrix = await service.getMatchMatrix(songs, true);
+
+      expect(redis.mget).not.toHaveBeenCalled();
+      expect(matrix.cacheHits).toBe(0);
+    });
+
+    it('should key cached entries by weight profile', async () => {
+      await service.getMatchMatrix(songs, false, { weightProfile: 'party' });
+
+      const keys = redis.mget.mock.calls[0] as string[];
+      expect(keys).toHaveLength(3);
+      keys.forEach((key) => expect(key).toContain(':party:'));
+    });
+
+    it('should key camelot scoring separately from the default key scorer', async () => {
+      await service.getMatchMatrix(songs, false, {
+        weightProfile: 'harmonic',
+        keyScoring: 'camelot',
+      });
+
+      const keys = redis.mget.mock.calls[0] as string[];
+      keys.forEach((key) => expect(key).toContain(':harmonic+camelot:'));
+    });
+
+    it('should key contrast scoring separately from similarity', async () => {
+      const matrix = await service.getMatchMatrix(songs, false, { mode: 'contrast' });
+
+      const keys = redis.mget.mock.calls[0] as string[];
+      keys.forEach((key) => expect(key).toContain(':default+contrast:'));
+      expect(matrix.results[0]![1]!.mode).toBe('contrast');
+    });
+
+    it('should key calibrated scores separately from raw scores', async () => {
+      const matrix = await service.getMatchMatrix(songs, false, { calibrate: true });
+
+      const keys = redis.mget.mock.calls[0] as string[];
+      keys.forEach((key) => expect(key).toContain(':default+calibrated:'));
+      expect(matrix.results[0]![1]!.calibratedScore).not.toBeNull();
+    });
+
+    it('should treat entries cached without a raw score as misses', async () => {
+      const { rawScore: _, ...stale } = matchingService.calculateMatch(
+        songs[0]!.features,
+        songs[1]!.features
+      );
+      redis.mget.mockImplementation(async (...keys: string[]) =>
+        keys.map((key) => (key.endsWith(':a>b') ? JSON.stringify(stale) : null))
+      );
+
+      const matrix = await service.getMatchMatrix(songs);
+
+      expect(matrix.cacheHits).toBe(0);
+    });
+
+    it('should key cached entries by algorithm version', async () => {
+      const matrix = await service.getMatchMatrix(songs, false, { algorithmVersion: '1.0' });
+
+      const keys = redis.mget.mock.calls[0] as string[];
+      keys.forEach((key) => expect(key).toMatch(/^match:1\.0:default:/));
+      expect(matrix.algorithmVersion).toBe('1.0');
+      expect(matrix.results[0]![1]!.algorithmVersion).toBe('1.0');
+    });
+  });
+});
@@ -1,13 +1,19 @@
+import { createHash } from 'node:crypto';
 import { inject, injectable } from 'tsyringe';
 import { Redis } from 'ioredis';
-import { MatchResult, AudioFeatures } from '../types/music.types';
+import { MatchResult, AudioFeatures, MatchOptions, MatchMatrix } from '../types/music.types';
 import { MatchingService } from './matching.service';
+import { DEFAULT_WEIGHT_PROFILE } from '../config/weightProfiles';
 import { logger } from '../utils/logger';
 
 /**
  * MatchCacheService
  *
  * Caches match results in Redis to avoid recomputing identical matches.
+ * Keys include the algorithm version, so results from an older version
+ * are never served after an upgrade or when another version is requested,
+ * and a hash of the scored features, so a score computed from estimated
+ * features is not served once SongCacheService refines or borrows them.
  * Cache TTL: 7 days (as per DEVELOPMENT_PLAN.md)
  */
 @injectable()
@@ -23,17 +29,25 @@ export class MatchCacheService {
   /**
    * Get match result with caching
    * Checks cache first, computes if not found, then caches result
+   * Results are cached per weight profile and key scorer
    */
   async getMatch(
     features1: AudioFeatures,
     features2: AudioFeatures,
     song1Id: string,
     song2Id: string,
-    bypassCache = false
+    bypassCache = false,
+    options: MatchOptions = {}
   ): Promise<MatchResult> {
+    const cacheKey = this.getCacheKey(
+      { id: song1Id, features: features1 },
+      { id: song2Id, features: features2 },
+      this.getScoringVariant(options)
+    );
+
     // Try cache first (unless bypassed)
     if (!bypassCache) {
-      const cached = await this.getCachedMatch(song1Id, song2Id);
+      const cached = await this.getCachedMatch(cacheKey);
       if (cached) {
         logger.debug(`Cache hit for match: ${song1Id} <-> ${song2Id}`);
         return cached;
@@ -42,48 +56,158 @@ export class MatchCacheService {
 
     // Cache miss - compute match
     logger.debug(`Cache miss for match: ${song1Id} <-> ${song2Id}`);
-    const result = this.matchingService.calculateMatch(features1, features2);
+    const result = this.matchingService.calculateMatch(features1, features2, options);
 
     // Store in cache (fire and forget)
-    this.cacheMatch(song1Id, song2Id, result).catch((error) => {
+    this.cacheMatch(cacheKey, result).catch((error) => {
       logger.error('Failed to cache match result:', error);
     });
 
     return result;
   }
 
+  /**
+   * Get the full match matrix for a set of songs
+   * Fetches all cached pairs in one MGET, computes the rest and caches them
+   * in a single pipeline. Camelot mixes are scored from the first song to the
+   * second (the second may be pitched to beatmatch), so with Camelot key
+   * scoring both orders of each pair are scored; otherwise the matrix is symmetric
+   */
+  async getMatchMatrix(
+    songs: { id: string; features: AudioFeatures }[],
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<MatchMatrix> {
+    const variant = this.getScoringVariant(options);
+    const n = songs.length;
+
+    const scores: number[][] = songs.map(() => Array<number>(n).fill(100));
+    const results: (MatchResult | null)[][] = songs.map(() =>
+      Array<MatchResult | null>(n).fill(null)
+    );
+
+    // Upper triangle only when the matrix is symmetric
+    const symmetric = options.keyScoring !== 'camelot';
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        pairs.push([i, j]);
+        if (!symmetric) pairs.push([j, i]);
+      }
+    }
+
+    const keys = pairs.map(([i, j]) => this.getCacheKey(songs[i]!, songs[j]!, variant));
+    const cached = bypassCache || keys.length === 0 ? [] : await this.getCachedMatches(keys);
+
+    let cacheHits = 0;
+    const toCache: { key: string; result: MatchResult }[] = [];
+
+    pairs.forEach(([i, j], index) => {
+      let result = cached[index] ?? null;
+
+      if (result) {
+        cacheHits++;
+      } else {
+        result = this.matchingService.calculateMatch(
+          songs[i]!.features,
+          songs[j]!.features,
+          options
+        );
+        toCache.push({ key: keys[index]!, result });
+      }
+
+      scores[i]![j] = result.overallScore;
+      results[i]![j] = result;
+      if (symmetric) {
+        scores[j]![i] = result.overallScore;
+        results[j]![i] = result;
+      }
+    });
+
+    logger.debug(`Match matrix (${n} songs): ${cacheHits}/${pairs.length} pairs from cache`);
+
+    // Store in cache (fire and forget)
+    this.cacheMatches(toCache).catch((error) => {
+      logger.error('Failed to cache match matrix results:', error);
+    });
+
+    return {
+      songIds: songs.map((song) => song.id),
+      scores,
+      results,
+      cacheHits,
+      algorithmVersion: options.algorithmVersion || this.matchingService.getAlgorithmVersion(),
+    };
+  }
+
+  /**
+   * Get cached match results for many keys in one round trip
+   * Entries are null when missing or unreadable
+   */
+  private async getCachedMatches(keys: string[]): Promise<(MatchResult | null)[]> {
+    try {
+      const values = await this.redis.mget(...keys);
+      return values.map((value) => {
+        if (!value) return null;
+        try {
+          return this.parseCachedMatch(value);
+        } catch {
+          return null;
+        }
+      });
+    } catch (error) {
+      logger.warn('Error retrieving cached matches:', error);
+      return keys.map(() => null);
+    }
+  }
+
+  /**
+   * Cache many match results in a single pipeline
+   */
+  private async cacheMatches(entries: { key: string; result: MatchResult }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const pipeline = this.redis.pipeline();
+    for (const { key, result } of entries) {
+      pipeline.setex(key, this.CACHE_TTL, JSON.stringify(result));
+    }
+    await pipeline.exec();
+
+    logger.debug(`Cached ${entries.length} match results (TTL: ${this.CACHE_TTL}s)`);
+  }
+
   /**
    * Get cached match result
    * Returns null if not found or expired
    */
-  private async getCachedMatch(
-    song1Id: string,
-    song2Id: string
-  ): Promise<MatchResult | null> {
+  private async getCachedMatch(cacheKey: string): Promise<MatchResult | null> {
     try {
-      const cacheKey = this.getCacheKey(song1Id, song2Id);
       const cached = await this.redis.get(cacheKey);
 
       if (!cached) return null;
 
-      const result = JSON.parse(cached) as MatchResult;
-      return result;
+      return this.parseCachedMatch(cached);
     } catch (error) {
       logger.warn('Error retrieving cached match:', error);
       return null;
     }
   }
 
+  /**
+   * Parse a cached match result
+   * Results cached before explanations carried message codes, or before raw
+   * and calibrated scores were split, are treated as misses
+   */
+  private parseCachedMatch(value: string): MatchResult | null {
+    const result = JSON.parse(value) as MatchResult;
+    return result.explanation?.locale && result.rawScore !== undefined ? result : null;
+  }
+
   /**
    * Cache match result
    */
-  private async cacheMatch(
-    song1Id: string,
-    song2Id: string,
-    result: MatchResult
-  ): Promise<void> {
+  private async cacheMatch(cacheKey: string, result: MatchResult): Promise<void> {
     try {
-      const cacheKey = this.getCacheKey(song1Id, song2Id);
       const serialized = JSON.stringify(result);
 
       await this.redis.setex(cacheKey, this.CACHE_TTL, serialized);
@@ -96,23 +220,62 @@ export class MatchCacheService {
   }
 
   /**
-   * Generate consistent cache key for song pair
-   * Ensures same key regardless of order (A+B = B+A)
+   * Generate cache key for an ordered song pair, e.g. "match:1.4:default:a>b@3f2a9c1e0b7d"
+   * A+B and B+A are cached separately: explanations, Camelot mixes and
+   * per-song breakdown values name the songs in the order they were scored
+   * (the ">" also retires entries cached under the old order-free key).
+   * The suffix hashes both songs' features, so refined features make a new key;
+   * entries for the old features expire with the TTL
+   */
+  private getCacheKey(
+    song1: { id: string; features: AudioFeatures },
+    song2: { id: string; features: AudioFeatures },
+    variant: string
+  ): string {
+    const features = createHash('sha1')
+      .update(JSON.stringify([song1.features, song2.features]))
+      .digest('hex')
+      .slice(0, 12);
+    return `${this.getPairKey(song1.id, song2.id, variant)}@${features}`;
+  }
+
+  /**
+   * Cache key of an ordered song pair without the features hash
    */
-  private getCacheKey(song1Id: string, song2Id: string): string {
-    // Sort IDs to ensure consistency
-    const [id1, id2] = [song1Id, song2Id].sort();
-    return `${this.CACHE_PREFIX}${id1}:${id2}`;
+  private getPairKey(song1Id: string, song2Id: string, variant: string): string {
+    return `${this.CACHE_PREFIX}${variant}:${song1Id}>${song2Id}`;
   }
 
   /**
-   * Invalidate cache for a specific song pair
+   * Cache key segment for the scoring options, e.g. "1.1:party",
+   * "1.1:harmonic+camelot", "1.4:default+contrast" or "1.4:default+calibrated".
+   * The default key scorer, similarity mode and raw scores are left out so
+   * existing keys stay valid
+   */
+  private getScoringVariant(options: MatchOptions): string {
+    const version = options.algorithmVersion || this.matchingService.getAlgorithmVersion();
+    const profile = options.weightProfile || DEFAULT_WEIGHT_PROFILE;
+    let scorer = options.keyScoring === 'camelot' ? `${profile}+camelot` : profile;
+    if (options.mode === 'contrast') scorer += '+contrast';
+    if (options.calibrate) scorer += '+calibrated';
+    return `${version}:${scorer}`;
+  }
+
+  /**
+   * Invalidate cache for a specific song pair (both orders, all versions,
+   * scoring variants and features)
    */
   async invalidateMatch(song1Id: string, song2Id: string): Promise<void> {
     try {
-      const cacheKey = this.getCacheKey(song1Id, song2Id);
-      await this.redis.del(cacheKey);
-      logger.debug(`Invalidated cache for: ${cacheKey}`);
+      const patterns = [
+        `${this.getPairKey(song1Id, song2Id, '*')}@*`,
+        `${this.getPairKey(song2Id, song1Id, '*')}@*`,
+      ];
+      const keys = (await Promise.all(patterns.map((pattern) => this.redis.keys(pattern)))).flat();
+      if (keys.length > 0) {
+        await this.redis.del(...keys);
+      }
+      logger.debug(`Invalidated cache for: ${patterns.join(', ')}`);
     } catch (error) {
       logger.error('Error invalidating cache:', error);
       throw error;
@@ -0,0 +1,173 @@
+import { inject, injectable } from 'tsyringe';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { Platform } from '../config/platforms';
+import {
+  AudioFeatures,
+  KeyScoringMode,
+  MatchExplanation,
+  MatchMode,
+  MatchResult,
+} from '../types/music.types';
+import { SongRef } from '../types/provider.types';
+
+/**
+ * A recorded match as stored in MatchHistory
+ */
+export interface RecordedMatch {
+  id: string;
+  createdAt: Date;
+  song1Platform: Platform;
+  song1Id: string; // Plain track IDs
+  song2Platform: Platform;
+  song2Id: string;
+  rawScore: number;
+  calibratedScore: number | null; // Set when the match was calibrated
+  confidence: number;
+  breakdown: MatchResult['breakdown'];
+  explanation: MatchExplanation | null; // null for matches recorded before explanations were stored
+  features: { song1: AudioFeatures; song2: AudioFeatures } | null;
+  algorithmVersion: string;
+  weightProfile: string;
+  keyScoring: KeyScoringMode;
+  mode: MatchMode;
+  humanScore: number | null;
+}
+
+/**
+ * MatchHistoryService
+ *
+ * Records computed matches in the MatchHistory table for analytics and
+ * validation. Each row carries the algorithm version that produced it, so
+ * versions can be compared side by side. Human ratings stored here feed
+ * weight calibration (see WeightCalibrationService).
+ */
+@injectable()
+export class MatchHistoryService {
+  constructor(@inject('PrismaClient') private prisma: PrismaClient) {}
+
+  /**
+   * Record a computed match
+   * Song IDs are stored as platform:trackId, so the songs can be from
+   * different platforms. The scored features are kept
+   * so the match can be visualized later; they must be in the order the
+   * result was computed in (song1 first), or explanations and charts mix
+   * up the songs. The raw score is stored, so
+   * calibrated matches don't skew the score distribution (the calibrated
+   * score is kept alongside it), along with the
+   * scoring mode, as contrast scores measure difference. The weight profile and key
+   * scoring mode are kept so the match can be rescored as it was computed.
+   * Returns the history row ID, or null if it could not be stored
+   */
+  async recordMatch(
+    song1: SongRef,
+    song2: SongRef,
+    result: MatchResult,
+    features?: { song1: AudioFeatures; song2: AudioFeatures }
+  ): Promise<string | null> {
+    try {
+      const entry = await this.prisma.matchHistory.create({
+        data: {
+          song1Id: `${song1.platform}:${song1.id}`,
+          song2Id: `${song2.platform}:${song2.id}`,
+          matchScore: result.rawScore,
+          calibratedScore: result.calibratedScore,
+          matchConfidence: result.confidence,
+          matchBreakdown: result.breakdown as unknown as Prisma.InputJsonValue,
+          matchExplanation: result.explanation as unknown as Prisma.InputJsonValue,
+          songFeatures: features as unknown as Prisma.InputJsonValue | undefined,
+          algorithmVersion: result.algorithmVersion,
+          weightProfile: result.weightProfile,
+          keyScoring: result.keyScoring,
+          scoringMode: result.mode === 'contrast' ? 'CONTRAST' : 'SIMILARITY',
+          processingTimeMs: Math.round(result.processingTime),
+        },
+        select: { id: true },
+      });
+
+      return entry.id;
+    } catch (error) {
+      logger.error('Failed to record match history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a recorded match by ID
+   */
+  async getMatch(matchId: string): Promise<RecordedMatch> {
+    const entry = await this.prisma.matchHistory.findUnique({ where: { id: matchId } });
+
+    if (!entry) {
+      throw new AppError(404, 'NOT_FOUND', `Match not found: ${matchId}`);
+    }
+
+    const [song1Platform, song1Id] = this.splitSongId(entry.song1Id);
+    const [song2Platform, song2Id] = this.splitSongId(entry.song2Id);
+
+    return {
+      id: entry.id,
+      createdAt: entry.createdAt,
+      song1Platform,
+      song1Id,
+      song2Platform,
+      song2Id,
+      rawScore: entry.matchScore,
+      calibratedScore: entry.calibratedScore ?? null,
+      confidence: Number(entry.matchConfidence),
+      breakdown: entry.matchBreakdown as unknown as MatchResult['breakdown'],
+      explanation: (entry.matchExplanation ?? null) as unknown as MatchExplanation | null,
+      features: (entry.songFeatures ?? null) as unknown as RecordedMatch['features'],
+      algorithmVersion: entry.algorithmVersion,
+      weightProfile: entry.weightProfile,
+      keyScoring: entry.keyScoring === 'camelot' ? 'camelot' : 'circle',
+      mode: entry.scoringMode === 'CONTRAST' ? 'contrast' : 'similarity',
+      humanScore: entry.humanScore,
+    };
+  }
+
+  /**
+   * Store a human rating (0-100) for a recorded match
+   */
+  async rateMatch(matchId: string, humanScore: number, humanFeedback?: string): Promise<void> {
+    const { count } = await this.prisma.matchHistory.updateMany({
+      where: { id: matchId },
+      data: { humanScore, humanFeedback: humanFeedback ?? null },
+    });
+
+    if (count === 0) {
+      throw new AppError(404, 'NOT_FOUND', `Match not found: ${matchId}`);
+    }
+
+    logger.debug(`Recorded human rating ${humanScore} for match ${matchId}`);
+  }
+
+  /**
+   * Raw scores of the most recent similarity matches for an algorithm version
+   * and weight profile
+   * Used to build the score distribution for calibration
+   */
+  async getRecentScores(
+    algorithmVersion: string,
+    weightProfile: string,
+    limit: number
+  ): Promise<number[]> {
+    const rows: { matchScore: number }[] = await this.prisma.matchHistory.findMany({
+      where: { algorithmVersion, weightProfile, scoringMode: 'SIMILARITY' },
+      select: { matchScore: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return rows.map((row) => row.matchScore);
+  }
+
+  /**
+   * Split a stored platform:trackId
+   */
+  private splitSongId(songId: string): [Platform, string] {
+    const separator = songId.indexOf(':');
+    return [songId.slice(0, separator) as Platform, songId.slice(separator + 1)];
+  }
+}
@@ -0,0 +1,103 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MatchVisualizationService } from './matchVisualization.service';
+import { MatchingService } from './matching.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('MatchVisualizationService', () => {
+  let service: MatchVisualizationService;
+  let matchingService: MatchingService;
+
+  const song1: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.754,
+    danceability: 0.9,
+    tempo: 124,
+    acousticness: 0.1,
+    key: 0, // C major
+    mode: 1,
+    timeSignature: 4,
+    loudness: -6,
+    durationMs: 210000,
+    genres: ['dance pop'],
+    releaseYear: 2019,
+  };
+
+  const song2: AudioFeatures = {
+    ...song1,
+    valence: 0.3,
+    energy: 0.4,
+    acousticness: 0.7,
+    key: 4, // E minor
+    mode: 0,
+  };
+
+  beforeEach(() => {
+    service = new MatchVisualizationService();
+    matchingService = new MatchingService();
+  });
+
+  it('should build radar series in axis order', () => {
+    const { breakdown } = matchingService.calculateMatch(song1, song2);
+    const { radarChart } = service.build(breakdown, song1, song2);
+
+    expect(radarChart.axes).toEqual(['energy', 'valence', 'danceability', 'acousticness']);
+    expect(radarChart.labels).toEqual(['Energy', 'Valence', 'Danceability', 'Acousticness']);
+    expect(radarChart.song1).toEqual([0.75, 0.8, 0.9, 0.1]);
+    expect(radarChart.song2).toEqual([0.4, 0.3, 0.9, 0.7]);
+  });
+
+  it('should build layer bars whose points add up to the overall score', () => {
+    const result = matchingService.calculateMatch(song1, song2);
+    const { layerBars } = service.build(result.breakdown, song1, song2);
+
+    // No texture features, so Layer 4 is left out
+    expect(layerBars.map((bar) => bar.layer)).toEqual(['layer1', 'layer2', 'layer3']);
+    expect(layerBars.map((bar) => bar.label)).toEqual(['Feel', 'Structure', 'Genre & metadata']);
+
+    const weights = layerBars.reduce((sum, bar) => sum + bar.weight, 0);
+    const points = layerBars.reduce((sum, bar) => sum + bar.points, 0);
+    expect(weights).toBeCloseTo(1, 1);
+    expect(Math.abs(points - result.overallScore)).toBeLessThanOrEqual(1);
+  });
+
+  it('should place keys on the circle of fifths', () => {
+    const { breakdown } = matchingService.calculateMatch(song1, song2);
+    const { circleOfFifths } = service.build(breakdown, song1, song2);
+
+    expect(circleOfFifths.song1).toEqual({
+      key: 0,
+      mode: 1,
+      label: 'C major',
+      position: 0,
+      ring: 'outer',
+      camelot: '8B',
+    });
+    // E minor is the relative minor of G major, one step clockwise from C
+    expect(circleOfFifths.song2).toMatchObject({ position: 1, ring: 'inner', camelot: '9A' });
+    expect(circleOfFifths.distance).toBe(1);
+  });
+
+  it('should wrap around the circle and handle unknown keys', () => {
+    const fSharp = { ...song1, key: 6 }; // F# major, opposite C
+    const unknown = { ...song1, key: -1 };
+    const { breakdown } = matchingService.calculateMatch(song1, fSharp);
+
+    expect(service.build(breakdown, song1, fSharp).circleOfFifths.distance).toBe(6);
+    const fToG = service.build(breakdown, { ...song1, key: 5 }, { ...song1, key: 7 });
+    expect(fToG.circleOfFifths.distance).toBe(2);
+
+    const { circleOfFifths } = service.build(breakdown, song1, unknown);
+    expect(circleOfFifths.song2).toBeNull();
+    expect(circleOfFifths.distance).toBeNull();
+  });
+
+  it('should render labels in the requested locale', () => {
+    const { breakdown } = matchingService.calculateMatch(song1, song2);
+    const visualization = service.build(breakdown, song1, song2, 'es');
+
+    expect(visualization.radarChart.labels[0]).toBe('Energía');
+    expect(visualization.layerBars[0]?.label).toBe('Sensación');
+    expect(visualization.circleOfFifths.song2?.label).toBe('E menor');
+  });
+});
@@ -0,0 +1,123 @@
+import { injectable } from 'tsyringe';
+import { DEFAULT_LOCALE, Locale } from '../config/locales';
+import { toCamelot, formatCamelot } from '../utils/camelot';
+import { MessageCatalogService, MessageCode } from './messageCatalog.service';
+import {
+  AudioFeatures,
+  KeyPosition,
+  LayerBar,
+  MatchResult,
+  MatchVisualization,
+  RadarAxis,
+} from '../types/music.types';
+
+const KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const RADAR_AXES: { axis: RadarAxis; label: MessageCode }[] = [
+  { axis: 'energy', label: 'CHART_ENERGY' },
+  { axis: 'valence', label: 'CHART_VALENCE' },
+  { axis: 'danceability', label: 'CHART_DANCEABILITY' },
+  { axis: 'acousticness', label: 'CHART_ACOUSTICNESS' },
+];
+
+const LAYER_LABELS: Record<LayerBar['layer'], MessageCode> = {
+  layer1: 'LAYER_FEEL',
+  layer2: 'LAYER_STRUCTURE',
+  layer3: 'LAYER_METADATA',
+  layer4: 'LAYER_TEXTURE',
+};
+
+/**
+ * MatchVisualizationService
+ *
+ * Turns a match breakdown and the features of both songs into chart-ready
+ * series, so clients don't have to decode breakdown component values.
+ * Labels are rendered from the message catalog in the requested locale.
+ */
+@injectable()
+export class MatchVisualizationService {
+  constructor(private messages: MessageCatalogService = new MessageCatalogService()) {}
+
+  /**
+   * Build radar, layer bar and circle of fifths series for a match
+   */
+  build(
+    breakdown: MatchResult['breakdown'],
+    song1: AudioFeatures,
+    song2: AudioFeatures,
+    locale: Locale = DEFAULT_LOCALE
+  ): MatchVisualization {
+    const key1 = this.keyPosition(song1, locale);
+    const key2 = this.keyPosition(song2, locale);
+
+    return {
+      radarChart: {
+        axes: RADAR_AXES.map(({ axis }) => axis),
+        labels: RADAR_AXES.map(({ label }) => this.messages.format(label, {}, locale)),
+        song1: RADAR_AXES.map(({ axis }) => this.round(song1[axis])),
+        song2: RADAR_AXES.map(({ axis }) => this.round(song2[axis])),
+      },
+      layerBars: this.layerBars(breakdown, locale),
+      circleOfFifths: {
+        song1: key1,
+        song2: key2,
+        distance: key1 && key2 ? this.circleDistance(key1.position, key2.position) : null,
+      },
+    };
+  }
+
+  /**
+   * Per-layer scores with their share of the overall score
+   * Layers that were not scored (weight 0) are left out
+   */
+  private layerBars(breakdown: MatchResult['breakdown'], locale: Locale): LayerBar[] {
+    const layers = Object.keys(LAYER_LABELS) as LayerBar['layer'][];
+    const totalWeight = layers.reduce((sum, layer) => sum + breakdown[layer].weight, 0);
+    if (totalWeight === 0) return [];
+
+    return layers
+      .filter((layer) => breakdown[layer].weight > 0)
+      .map((layer) => {
+        const { score, weight } = breakdown[layer];
+        return {
+          layer,
+          label: this.messages.format(LAYER_LABELS[layer], {}, locale),
+          score: this.round(score),
+          weight: this.round(weight / totalWeight),
+          points: this.round((score * weight * 100) / totalWeight),
+        };
+      });
+  }
+
+  /**
+   * Place a key on the circle of fifths
+   * Returns null when the key is unknown (-1)
+   */
+  private keyPosition(features: AudioFeatures, locale: Locale): KeyPosition | null {
+    const camelot = toCamelot(features.key, features.mode);
+    if (!camelot) return null;
+
+    const mode = features.mode === 1 ? 'major' : 'minor';
+    return {
+      key: features.key,
+      mode: features.mode,
+      label: this.messages.format('HARMONY_KEY', { key: KEY_NAMES[features.key]!, mode }, locale),
+      // Camelot numbers follow the circle of fifths with C major / A minor at 8
+      position: (camelot.number + 4) % 12,
+      ring: camelot.letter === 'B' ? 'outer' : 'inner',
+      camelot: formatCamelot(camelot),
+    };
+  }
+
+  /**
+   * Steps between two positions around the circle (0-6)
+   */
+  private circleDistance(a: number, b: number): number {
+    const diff = Math.abs(a - b);
+    return Math.min(diff, 12 - diff);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,49 @@
+import 'reflect-metadata';
+import { bench, describe } from 'vitest';
+import { MatchingService } from './matching.service';
+import { AudioFeatures } from '../types/music.types';
+
+/**
+ * Matching throughput (target: < 5ms per match, checked by the test suite)
+ * Run with `pnpm bench` to compare scoring options
+ */
+describe('MatchingService', () => {
+  const service = new MatchingService();
+
+  const song: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.7,
+    danceability: 0.75,
+    tempo: 120,
+    acousticness: 0.3,
+    key: 0,
+    mode: 1,
+    timeSignature: 4,
+    loudness: -5,
+    durationMs: 200000,
+    genres: ['pop', 'dance-pop'],
+    artist: 'Test Artist',
+    releaseYear: 2020,
+    instrumentalness: 0.02,
+    liveness: 0.12,
+    speechiness: 0.05,
+  };
+  const similar: AudioFeatures = {
+    ...song,
+    valence: 0.75,
+    energy: 0.65,
+    tempo: 124,
+    key: 7,
+    genres: ['pop', 'electropop'],
+    artist: 'Other Artist',
+    releaseYear: 2018,
+  };
+
+  bench('calculateMatch', () => {
+    service.calculateMatch(song, similar);
+  });
+
+  bench('calculateMatch (camelot, contrast)', () => {
+    service.calculateMatch(song, similar, { keyScoring: 'camelot', mode: 'contrast' });
+  });
+});
@@ -1,22 +1,125 @@
 import { injectable } from 'tsyringe';
 import {
   AudioFeatures,
+  ComponentWeights,
   MatchResult,
+  MatchOptions,
   LayerResult,
   ScoreComponent,
   MatchExplanation,
+  WeightProfile,
+  KeyScoringMode,
+  AlgorithmVersion,
+  MatchComponent,
+  ExplanationMessage,
+  MatchMode,
+  TargetProfile,
+  TargetFeature,
+  TargetMatchResult,
+  TargetComponentScore,
+  TargetExplanation,
+  FeatureRange,
 } from '../types/music.types';
+import { DEFAULT_WEIGHT_PROFILE } from '../config/weightProfiles';
+import { ALGORITHM_VERSIONS, isAlgorithmVersionName } from '../config/algorithmVersions';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { DEFAULT_LOCALE } from '../config/locales';
+import { GenreComparison, GenreTaxonomyService } from './genreTaxonomy.service';
+import { ScoreCalibrationService } from './scoreCalibration.service';
+import { MessageCatalogService, MessageCode, MessageParams } from './messageCatalog.service';
+import {
+  CamelotKey,
+  CamelotRelation,
+  MAX_PITCH_ADJUSTMENT,
+  beatmatchRatio,
+  camelotCompatibility,
+  camelotDistance,
+  camelotRelation,
+  formatCamelot,
+  pitchShiftSemitones,
+  toCamelot,
+  transposeKey,
+} from '../utils/camelot';
+import { normalizeArtistCredits, normalizeArtistName } from '../utils/artistNames';
+
+/**
+ * Camelot harmonic mix between two songs
+ * `to` is the second song's key after any beatmatching pitch shift
+ */
+interface HarmonicMix {
+  similarity: number;
+  from: CamelotKey;
+  native: CamelotKey; // Second song's own key
+  to: CamelotKey;
+  relation: CamelotRelation;
+  pitchShift: number; // Semitones applied to the second song (0 = key lock)
+  beatmatchable: boolean;
+}
+
+/**
+ * How the artists of two songs relate
+ * Names are for display: song 1's artist, and song 2's for related artists
+ */
+interface ArtistComparison {
+  similarity: number;
+  relation: 'same' | 'shared' | 'related' | 'none';
+  artist1?: string;
+  artist2?: string;
+}
+
+/**
+ * What contrast scoring needs beyond the similarity breakdown
+ */
+interface ContrastContext {
+  algorithm: AlgorithmVersion;
+  artists: ArtistComparison;
+  missing: Set<MatchComponent>;
+}
+
+/**
+ * Song component each target profile feature is scored as
+ */
+const TARGET_COMPONENTS: Record<TargetFeature, MatchComponent> = {
+  valence: 'valence',
+  energy: 'energy',
+  danceability: 'danceability',
+  tempo: 'tempo',
+  acousticness: 'acousticness',
+  loudness: 'loudness',
+  durationMs: 'duration',
+  instrumentalness: 'instrumentalness',
+  speechiness: 'speechiness',
+  liveness: 'liveness',
+};
+
+/**
+ * A scored component's effect on the overall score, in score points (0-100)
+ */
+interface ComponentEvidence {
+  component: MatchComponent;
+  similarity: number;
+  points: number; // Added to the overall score
+  lostPoints: number; // Lost to the difference between the songs
+}
 
 /**
  * MatchingService
  *
- * Implements the three-layer weighted music similarity algorithm.
+ * Implements the four-layer weighted music similarity algorithm.
+ * Component weights come from a named weight profile (see config/weightProfiles.ts).
+ * Older algorithm versions can be requested per match (see config/algorithmVersions.ts).
+ * In contrast mode every component is rescored so that opposite songs score high.
+ * Similarity scores can be calibrated onto a percentile scale (see ScoreCalibrationService).
  * Target: < 5ms computation time per match
  * Accuracy: 70%+ correlation with human judgment
  */
 @injectable()
 export class MatchingService {
-  private readonly ALGORITHM_VERSION = '1.0';
+  private readonly defaultVersion: string = env.MATCH_ALGORITHM_VERSION;
+
+  // Pitch classes (Spotify key 0-11)
+  private readonly KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
   // Circle of Fifths: C, G, D, A, E, B, F#, C#, G#, D#, A#, F
   private readonly CIRCLE_OF_FIFTHS = [0, 7, 2, 9, 4, 11, 6, 1, 8, 3, 10, 5];
@@ -24,7 +127,67 @@ export class MatchingService {
   // Pre-computed Circle of Fifths distance matrix for O(1) lookup
   private readonly CIRCLE_DISTANCE_MATRIX: number[][];
 
-  constructor() {
+  // Harmonic score multiplier when tempos are outside pitch fader range
+  private readonly UNBEATMATCHABLE_PENALTY = 0.85;
+
+  // Artist graph credit (algorithm 1.3+); the same main artist scores 1.0
+  private readonly SHARED_ARTIST_SIMILARITY = 0.8; // Collaborators, e.g. a shared feature
+  private readonly RELATED_ARTIST_SIMILARITY = 0.6;
+
+  // Components at or above this similarity can be a top reason, below the other a difference
+  private readonly REASON_SIMILARITY = 0.75;
+  private readonly DIFFERENCE_SIMILARITY = 0.6;
+  private readonly MAX_REASONS = 5;
+  private readonly MAX_DIFFERENCES = 5;
+
+  // Confidence: estimated audio features count for less than measured ones (per song),
+  // and scores within THRESHOLD_MARGIN points of a summary band edge lose up to
+  // THRESHOLD_PENALTY, since a small error would change the verdict
+  private readonly ESTIMATED_FEATURE_RELIABILITY = 0.6;
+  private readonly SUMMARY_THRESHOLDS = [40, 60, 80];
+  private readonly THRESHOLD_MARGIN = 5;
+  private readonly THRESHOLD_PENALTY = 0.1;
+
+  // Contrast mode: release years this far apart count as fully opposite eras
+  private readonly CONTRAST_ERA_YEARS = 40;
+  // Contrast mode: BPM gap that counts as fully opposite tempos, and the contrast
+  // left at exact half/double time, which shares the pulse
+  private readonly CONTRAST_TEMPO_BPM = 50;
+  private readonly CONTRAST_TEMPO_OCTAVE = 0.3;
+  // Contrast mode: share of key contrast from steps around the wheel vs a mode switch
+  private readonly CONTRAST_KEY_DISTANCE = 0.7;
+  private readonly CONTRAST_KEY_MODE = 0.3;
+  // Contrast mode: related artists are barely opposite, whatever their genres
+  private readonly CONTRAST_ARTIST: Record<ArtistComparison['relation'], number> = {
+    same: 0,
+    shared: 0.1,
+    related: 0.25,
+    none: 1,
+  };
+  // Contrast reasons at or above this score are described as perfect opposites
+  private readonly PERFECT_CONTRAST = 0.9;
+
+  // Target profiles: how far outside a range a value may be before it scores 0.
+  // Stricter than the song-to-song scorers, since a prompt names what it wants
+  private readonly TARGET_TOLERANCE: Record<TargetFeature, number> = {
+    valence: 0.5,
+    energy: 0.5,
+    danceability: 0.5,
+    tempo: 40, // BPM
+    acousticness: 0.5,
+    loudness: 20, // dB
+    durationMs: 180000, // 3 minutes
+    instrumentalness: 0.5,
+    speechiness: 0.5,
+    liveness: 0.5,
+  };
+  private readonly TARGET_ERA_TOLERANCE = 20; // Years
+
+  constructor(
+    private genreTaxonomy: GenreTaxonomyService = new GenreTaxonomyService(),
+    private messages: MessageCatalogService = new MessageCatalogService(),
+    private calibration: ScoreCalibrationService = new ScoreCalibrationService()
+  ) {
     // Pre-compute distance matrix for performance
     this.CIRCLE_DISTANCE_MATRIX = this.buildCircleDistanceMatrix();
   }
@@ -33,170 +196,574 @@ export class MatchingService {
    * Calculate match between two songs
    * Returns match score (0-100), confidence, breakdown, and explanation
    */
-  calculateMatch(features1: AudioFeatures, features2: AudioFeatures): MatchResult {
+  calculateMatch(
+    features1: AudioFeatures,
+    features2: AudioFeatures,
+    options: MatchOptions = {}
+  ): MatchResult {
     const startTime = performance.now();
 
-    // Layer 1: High-level features (60% weight)
-    const layer1 = this.calculateLayer1(features1, features2);
+    const algorithm = this.getAlgorithm(options.algorithmVersion);
+    const profile = this.getWeightProfile(options.weightProfile, algorithm.version);
+    const weights = profile.weights;
+    const keyScoring = options.keyScoring || 'circle';
+    const mode = options.mode || 'similarity';
 
-    // Layer 2: Musical structure (25% weight)
-    const layer2 = this.calculateLayer2(features1, features2);
+    const genres = this.compareGenres(features1, features2, algorithm);
+    const artists = this.compareArtists(features1, features2, algorithm);
 
-    // Layer 3: Genre & metadata (15% weight)
-    const layer3 = this.calculateLayer3(features1, features2);
+    // Missing features are scored neutrally (0.5) or, from 1.4, left out so the
+    // remaining component weights are renormalized
+    const missing = this.missingComponents(features1, features2, artists);
+    const excluded = algorithm.missingFeatures === 'exclude' ? missing : new Set<string>();
 
-    // Weighted sum: 60% + 25% + 15% = 100%
-    const overallScore = Math.round(
-      (layer1.score * 0.6 + layer2.score * 0.25 + layer3.score * 0.15) * 100
+    // Layer 1: High-level features (55% weight by default)
+    const layer1 = this.calculateLayer1(features1, features2, weights, excluded);
+
+    // Layer 2: Musical structure (21% weight by default)
+    const layer2 = this.calculateLayer2(features1, features2, weights, keyScoring, excluded);
+
+    // Layer 3: Genre & metadata (14% weight by default)
+    const layer3 = this.calculateLayer3(
+      features1,
+      features2,
+      weights,
+      genres.similarity,
+      artists.similarity,
+      excluded
     );
 
-    // Calculate confidence based on data completeness
-    const confidence = this.calculateConfidence(features1, features2);
+    // Layer 4: Texture (10% weight by default)
+    const layer4 = algorithm.texture
+      ? this.calculateLayer4(features1, features2, weights)
+      : this.scoreLayer({});
+
+    // Contrast mode rescores every component in the opposite frame
+    const similarityBreakdown = { layer1, layer2, layer3, layer4 };
+    const breakdown =
+      mode === 'contrast'
+        ? this.contrastBreakdown(similarityBreakdown, features1, features2, {
+            algorithm,
+            artists,
+            missing,
+          })
+        : similarityBreakdown;
+
+    // Weighted sum, normalized by the weight of the layers that could be scored
+    // (Layer 4 drops out when a source doesn't provide texture features)
+    const layers = Object.values(breakdown);
+    const totalWeight = layers.reduce((sum, layer) => sum + layer.weight, 0);
+    const rawScore =
+      totalWeight > 0
+        ? Math.round(
+            (layers.reduce((sum, layer) => sum + layer.score * layer.weight, 0) / totalWeight) *
+              100
+          )
+        : 0;
+
+    // Calibrated scores are percentiles among scored pairs; the summary
+    // thresholds and confidence margin then apply on that scale
+    const calibratedScore =
+      options.calibrate && mode === 'similarity'
+        ? this.calibration.calibrate(rawScore, algorithm.version, profile.name)
+        : null;
+    const overallScore = calibratedScore ?? rawScore;
+
+    const confidence = this.calculateConfidence(
+      features1,
+      features2,
+      weights,
+      algorithm.texture,
+      missing,
+      overallScore
+    );
 
     // Generate human-readable explanation
     const explanation = this.generateExplanation(
       features1,
       features2,
-      { layer1, layer2, layer3 },
-      overallScore
+      breakdown,
+      overallScore,
+      keyScoring,
+      mode,
+      genres,
+      artists,
+      missing
     );
 
     const processingTime = Math.round((performance.now() - startTime) * 100) / 100;
 
     return {
       overallScore,
+      rawScore,
+      calibratedScore,
       confidence,
-      breakdown: { layer1, layer2, layer3 },
+      breakdown,
       explanation,
       processingTime,
-      algorithmVersion: this.ALGORITHM_VERSION,
+      algorithmVersion: algorithm.version,
+      weightProfile: profile.name,
+      keyScoring,
+      mode,
+    };
+  }
+
+  /**
+   * Get the default algorithm version
+   */
+  getAlgorithmVersion(): string {
+    return this.defaultVersion;
+  }
+
+  /**
+   * Resolve an algorithm version (defaults to MATCH_ALGORITHM_VERSION)
+   */
+  getAlgorithm(version: string = this.defaultVersion): AlgorithmVersion {
+    if (!isAlgorithmVersionName(version)) {
+      throw new AppError(
+        400,
+        'INVALID_ALGORITHM_VERSION',
+        `Unknown algorithm version: ${version}`
+      );
+    }
+    return ALGORITHM_VERSIONS[version];
+  }
+
+  /**
+   * Resolve a weight profile by name (defaults to "default")
+   * Older algorithm versions only offer a subset of profiles
+   */
+  getWeightProfile(
+    name: string = DEFAULT_WEIGHT_PROFILE,
+    version: string = this.defaultVersion
+  ): WeightProfile {
+    const algorithm = this.getAlgorithm(version);
+    const profile = algorithm.weightProfiles[name];
+    if (!profile) {
+      throw new AppError(
+        400,
+        'INVALID_WEIGHT_PROFILE',
+        `Unknown weight profile for algorithm ${algorithm.version}: ${name}`
+      );
+    }
+    return profile;
+  }
+
+  /**
+   * Score a song against a target profile (prompt rounds)
+   * Each constrained component scores 1 within its range and decays with the
+   * distance to the nearest bound. Unconstrained components, and components
+   * the song has no data for, are left out and the rest renormalized by their
+   * profile weights.
+   */
+  calculateTargetMatch(
+    features: AudioFeatures,
+    target: TargetProfile,
+    options: Pick<MatchOptions, 'weightProfile' | 'algorithmVersion'> = {}
+  ): TargetMatchResult {
+    const startTime = performance.now();
+
+    const algorithm = this.getAlgorithm(options.algorithmVersion);
+    const profile = this.getWeightProfile(options.weightProfile, algorithm.version);
+    const weights = profile.weights;
+
+    const components: Partial<Record<MatchComponent, TargetComponentScore>> = {};
+    const constrained: MatchComponent[] = [];
+    const score = (component: MatchComponent, value: number, similarity: number) => {
+      components[component] = { score: similarity, weight: weights[component], value };
+    };
+
+    for (const [feature, range] of Object.entries(target.features) as [
+      TargetFeature,
+      FeatureRange,
+    ][]) {
+      const component = TARGET_COMPONENTS[feature];
+      constrained.push(component);
+
+      const value = features[feature];
+      if (!this.hasTargetData(feature, value)) continue;
+      score(component, value, this.rangeScore(value, range, this.TARGET_TOLERANCE[feature]));
+    }
+
+    if (target.mode !== undefined) {
+      constrained.push('keyMode');
+      if (toCamelot(features.key, features.mode)) {
+        score('keyMode', features.mode, features.mode === target.mode ? 1 : 0);
+      }
+    }
+
+    const targetGenres = target.genres ?? [];
+    if (targetGenres.length > 0) {
+      constrained.push('genre');
+      if (features.genres?.length) {
+        const link = this.genreTaxonomy.closestLink(features.genres, targetGenres);
+        const similarity = link?.similarity ?? 0;
+        score('genre', similarity, similarity);
+      }
+    }
+
+    if (target.era) {
+      constrained.push('era');
+      if (features.releaseYear) {
+        const range = { min: target.era.from, max: target.era.to };
+        score(
+          'era',
+          features.releaseYear,
+          this.rangeScore(features.releaseYear, range, this.TARGET_ERA_TOLERANCE)
+        );
+      }
+    }
+
+    const scored = Object.values(components);
+    const totalWeight = scored.reduce((sum, component) => sum + component.weight, 0);
+    const weightedSum = scored.reduce(
+      (sum, component) => sum + component.score * component.weight,
+      0
+    );
+    const overallScore = totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 100) : 0;
+
+    // Share of the constrained weight that could be scored, estimated audio discounted
+    const metadata = new Set<MatchComponent>(['genre', 'era']);
+    const reliability = features.featuresEstimated ? this.ESTIMATED_FEATURE_RELIABILITY : 1;
+    const constrainedWeight = constrained.reduce((sum, component) => sum + weights[component], 0);
+    const coveredWeight = (Object.keys(components) as MatchComponent[]).reduce(
+      (sum, component) =>
+        sum + (metadata.has(component) ? weights[component] : weights[component] * reliability),
+      0
+    );
+    const confidence =
+      constrainedWeight > 0 ? Math.round((coveredWeight / constrainedWeight) * 100) / 100 : 0;
+
+    return {
+      overallScore,
+      confidence,
+      components,
+      explanation: this.generateTargetExplanation(features, target, components, overallScore),
+      processingTime: Math.round((performance.now() - startTime) * 100) / 100,
+      algorithmVersion: algorithm.version,
+      weightProfile: profile.name,
     };
   }
 
   /**
-   * LAYER 1: High-Level Features (60% weight)
-   * Valence (15%), Energy (15%), Danceability (12%), Tempo (10%), Acousticness (8%)
+   * LAYER 1: High-Level Features
+   * Valence, Energy, Danceability, Tempo, Acousticness
    */
-  private calculateLayer1(f1: AudioFeatures, f2: AudioFeatures): LayerResult {
+  private calculateLayer1(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    weights: ComponentWeights,
+    excluded: Set<string>
+  ): LayerResult {
     const components: Record<string, ScoreComponent> = {
       valence: {
         similarity: this.continuousSimilarity(f1.valence, f2.valence),
-        weight: 0.15,
+        weight: weights.valence,
         values: [f1.valence, f2.valence],
         label: 'Mood/Positivity',
       },
       energy: {
         similarity: this.continuousSimilarity(f1.energy, f2.energy),
-        weight: 0.15,
+        weight: weights.energy,
         values: [f1.energy, f2.energy],
         label: 'Energy Level',
       },
       danceability: {
         similarity: this.continuousSimilarity(f1.danceability, f2.danceability),
-        weight: 0.12,
+        weight: weights.danceability,
         values: [f1.danceability, f2.danceability],
         label: 'Danceability',
       },
       tempo: {
         similarity: this.tempoSimilarity(f1.tempo, f2.tempo),
-        weight: 0.1,
+        weight: weights.tempo,
         values: [f1.tempo, f2.tempo],
         label: 'Tempo (BPM)',
       },
       acousticness: {
         similarity: this.continuousSimilarity(f1.acousticness, f2.acousticness),
-        weight: 0.08,
+        weight: weights.acousticness,
         values: [f1.acousticness, f2.acousticness],
         label: 'Acousticness',
       },
     };
 
-    // Weighted sum normalized to 0-1
-    const score =
-      Object.values(components).reduce(
-        (sum, comp) => sum + comp.similarity * comp.weight,
-        0
-      ) / 0.6; // Divide by total weight (60%)
-
-    return { score, components };
+    return this.scoreLayer(components, excluded);
   }
 
   /**
-   * LAYER 2: Musical Structure (25% weight)
-   * Key/Mode (10%), Time Signature (5%), Loudness (5%), Duration (5%)
+   * LAYER 2: Musical Structure
+   * Key/Mode, Time Signature, Loudness, Duration
    */
-  private calculateLayer2(f1: AudioFeatures, f2: AudioFeatures): LayerResult {
+  private calculateLayer2(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    weights: ComponentWeights,
+    keyScoring: KeyScoringMode,
+    excluded: Set<string>
+  ): LayerResult {
+    const keySimilarity =
+      keyScoring === 'camelot'
+        ? this.harmonicMix(f1, f2)?.similarity ?? 0.5
+        : this.keySimilarity(f1.key, f1.mode, f2.key, f2.mode);
+
     const components: Record<string, ScoreComponent> = {
       keyMode: {
-        similarity: this.keySimilarity(f1.key, f1.mode, f2.key, f2.mode),
-        weight: 0.1,
+        similarity: keySimilarity,
+        weight: weights.keyMode,
         values: [f1.key + f1.mode / 10, f2.key + f2.mode / 10],
         label: 'Key & Mode',
       },
       timeSignature: {
         similarity: this.timeSignatureSimilarity(f1.timeSignature, f2.timeSignature),
-        weight: 0.05,
+        weight: weights.timeSignature,
         values: [f1.timeSignature, f2.timeSignature],
         label: 'Time Signature',
       },
       loudness: {
         similarity: this.loudnessSimilarity(f1.loudness, f2.loudness),
-        weight: 0.05,
+        weight: weights.loudness,
         values: [f1.loudness, f2.loudness],
         label: 'Loudness',
       },
       duration: {
         similarity: this.durationSimilarity(f1.durationMs, f2.durationMs),
-        weight: 0.05,
+        weight: weights.duration,
         values: [f1.durationMs, f2.durationMs],
         label: 'Duration',
       },
     };
 
-    // Weighted sum normalized to 0-1
-    const score =
-      Object.values(components).reduce(
-        (sum, comp) => sum + comp.similarity * comp.weight,
-        0
-      ) / 0.25; // Divide by total weight (25%)
-
-    return { score, components };
+    return this.scoreLayer(components, excluded);
   }
 
   /**
-   * LAYER 3: Genre & Metadata (15% weight)
-   * Genre (8%), Artist (4%), Era/Decade (3%)
+   * LAYER 3: Genre & Metadata
+   * Genre, Artist, Era/Decade
    */
-  private calculateLayer3(f1: AudioFeatures, f2: AudioFeatures): LayerResult {
+  private calculateLayer3(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    weights: ComponentWeights,
+    genreSimilarity: number,
+    artistSimilarity: number,
+    excluded: Set<string>
+  ): LayerResult {
     const components: Record<string, ScoreComponent> = {
       genre: {
-        similarity: this.genreSimilarity(f1.genres || [], f2.genres || []),
-        weight: 0.08,
+        similarity: genreSimilarity,
+        weight: weights.genre,
         values: [(f1.genres || []).length, (f2.genres || []).length],
         label: 'Genre Overlap',
       },
       artist: {
-        similarity: this.artistSimilarity(f1.artist, f2.artist),
-        weight: 0.04,
+        similarity: artistSimilarity,
+        weight: weights.artist,
         values: [f1.artist === f2.artist ? 1 : 0, 0],
         label: 'Artist Match',
       },
       era: {
         similarity: this.eraSimilarity(f1.releaseYear, f2.releaseYear),
-        weight: 0.03,
+        weight: weights.era,
         values: [f1.releaseYear || 0, f2.releaseYear || 0],
         label: 'Era/Decade',
       },
     };
 
-    // Weighted sum normalized to 0-1
-    const score =
-      Object.values(components).reduce(
-        (sum, comp) => sum + comp.similarity * comp.weight,
-        0
-      ) / 0.15; // Divide by total weight (15%)
+    return this.scoreLayer(components, excluded);
+  }
 
-    return { score, components };
+  /**
+   * LAYER 4: Texture
+   * Instrumentalness, Speechiness, Liveness
+   * Separates e.g. a rap track from an instrumental ambient piece.
+   * Features missing on either song are left out rather than guessed.
+   */
+  private calculateLayer4(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    weights: ComponentWeights
+  ): LayerResult {
+    const components: Record<string, ScoreComponent> = {};
+
+    // Only score texture features both songs have
+    if (f1.instrumentalness !== undefined && f2.instrumentalness !== undefined) {
+      components.instrumentalness = {
+        similarity: this.continuousSimilarity(f1.instrumentalness, f2.instrumentalness),
+        weight: weights.instrumentalness,
+        values: [f1.instrumentalness, f2.instrumentalness],
+        label: 'Instrumentalness',
+      };
+    }
+    if (f1.speechiness !== undefined && f2.speechiness !== undefined) {
+      components.speechiness = {
+        similarity: this.speechinessSimilarity(f1.speechiness, f2.speechiness),
+        weight: weights.speechiness,
+        values: [f1.speechiness, f2.speechiness],
+        label: 'Speechiness',
+      };
+    }
+    if (f1.liveness !== undefined && f2.liveness !== undefined) {
+      components.liveness = {
+        similarity: this.continuousSimilarity(f1.liveness, f2.liveness),
+        weight: weights.liveness,
+        values: [f1.liveness, f2.liveness],
+        label: 'Liveness',
+      };
+    }
+
+    return this.scoreLayer(components);
+  }
+
+  /**
+   * Combine component similarities into a layer score
+   * Layer weight is the sum of its component weights, so the 0-1 layer
+   * score is normalized by it rather than by a hand-maintained constant.
+   * Excluded components are dropped, which renormalizes the rest.
+   */
+  private scoreLayer(
+    scored: Record<string, ScoreComponent>,
+    excluded: Set<string> = new Set()
+  ): LayerResult {
+    const components = Object.fromEntries(
+      Object.entries(scored).filter(([component]) => !excluded.has(component))
+    );
+    const weight = Object.values(components).reduce((sum, comp) => sum + comp.weight, 0);
+    const weightedSum = Object.values(components).reduce(
+      (sum, comp) => sum + comp.similarity * comp.weight,
+      0
+    );
+
+    // A profile may zero out a whole layer, or a layer may have no scorable components
+    const score = weight > 0 ? weightedSum / weight : 0;
+
+    return { score, weight, components };
+  }
+
+  /**
+   * Rescore every layer for contrast mode
+   * Components already left out of a layer stay out
+   */
+  private contrastBreakdown(
+    breakdown: MatchResult['breakdown'],
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    context: ContrastContext
+  ): MatchResult['breakdown'] {
+    const contrastLayer = (layer: LayerResult) =>
+      this.scoreLayer(
+        Object.fromEntries(
+          Object.entries(layer.components).map(([component, score]) => {
+            const contrast = this.contrastScore(
+              component as MatchComponent,
+              score,
+              f1,
+              f2,
+              context
+            );
+            return [component, { ...score, similarity: contrast }];
+          })
+        )
+      );
+
+    return {
+      layer1: contrastLayer(breakdown.layer1),
+      layer2: contrastLayer(breakdown.layer2),
+      layer3: contrastLayer(breakdown.layer3),
+      layer4: contrastLayer(breakdown.layer4),
+    };
+  }
+
+  /**
+   * How opposite two songs are on one component (0-1)
+   * Continuous audio features are the inverse of their similarity. Structure
+   * and metadata are scored on how far apart the songs really are, since their
+   * similarity scorers give partial credit that isn't the opposite of contrast:
+   * half/double time shares a pulse, relative keys share their notes, 3/4 and 6/8
+   * share a feel, and unrelated artists are only as far apart as their genres.
+   * Components without data stay neutral (0.5).
+   */
+  private contrastScore(
+    component: MatchComponent,
+    score: ScoreComponent,
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    context: ContrastContext
+  ): number {
+    if (context.missing.has(component)) return 0.5; // No data
+
+    switch (component) {
+      case 'tempo':
+        return this.tempoContrast(f1.tempo, f2.tempo);
+      case 'keyMode':
+        return this.keyContrast(toCamelot(f1.key, f1.mode)!, toCamelot(f2.key, f2.mode)!);
+      case 'timeSignature':
+        return this.timeSignatureContrast(f1.timeSignature, f2.timeSignature);
+      case 'duration':
+        return Math.min(1, Math.abs(Math.log2(f1.durationMs / f2.durationMs)));
+      case 'genre':
+        return this.genreContrast(f1, f2, context.algorithm);
+      case 'artist':
+        return context.artists.relation === 'none' && !context.missing.has('genre')
+          ? this.genreContrast(f1, f2, context.algorithm)
+          : this.CONTRAST_ARTIST[context.artists.relation];
+      case 'era':
+        // Actual gap in years: decade buckets would make 1969 vs 1970 a contrast
+        return Math.min(1, Math.abs(f1.releaseYear! - f2.releaseYear!) / this.CONTRAST_ERA_YEARS);
+      default:
+        return 1 - score.similarity;
+    }
+  }
+
+  /**
+   * Tempo contrast, folding half/double time
+   * 120 vs 240 BPM keeps only CONTRAST_TEMPO_OCTAVE, rising again with the
+   * faster song's distance from double the slower one
+   */
+  private tempoContrast(bpm1: number, bpm2: number): number {
+    const [slow, fast] = bpm1 < bpm2 ? [bpm1, bpm2] : [bpm2, bpm1];
+    const gap = (a: number, b: number) => Math.abs(a - b) / this.CONTRAST_TEMPO_BPM;
+    return Math.min(1, gap(slow, fast), this.CONTRAST_TEMPO_OCTAVE + gap(fast, slow * 2));
+  }
+
+  /**
+   * Key contrast on the Camelot wheel, regardless of the key scoring mode
+   * Relative major/minor = 0.3 (same notes, other mood), parallel major/minor
+   * (C vs Cm) = 0.65, a tritone away on the other ring = 1.0
+   */
+  private keyContrast(key1: CamelotKey, key2: CamelotKey): number {
+    return (
+      (this.CONTRAST_KEY_DISTANCE * camelotDistance(key1, key2)) / 6 +
+      (key1.letter === key2.letter ? 0 : this.CONTRAST_KEY_MODE)
+    );
+  }
+
+  /**
+   * Time signature contrast by feel: duple (2, 4), triple (3, 6) and odd (5, 7)
+   * Same signature = 0, same feel = 0.3, odd vs even = 0.7, duple vs triple = 1.0
+   */
+  private timeSignatureContrast(ts1: number, ts2: number): number {
+    const feel = (ts: number) => (ts === 3 || ts === 6 ? 'triple' : ts % 2 === 0 ? 'duple' : 'odd');
+
+    if (ts1 === ts2) return 0;
+    if (feel(ts1) === feel(ts2)) return 0.3;
+    return feel(ts1) === 'odd' || feel(ts2) === 'odd' ? 0.7 : 1.0;
+  }
+
+  /**
+   * Genre contrast: 1 - the strongest link between any two of the songs' genres
+   * One shared genre is enough to make songs not opposite. Flat genre scoring
+   * (1.0-1.1) only knows shared genres
+   */
+  private genreContrast(f1: AudioFeatures, f2: AudioFeatures, algorithm: AlgorithmVersion): number {
+    const genres1 = f1.genres ?? [];
+    const genres2 = f2.genres ?? [];
+
+    if (algorithm.genreScoring === 'taxonomy') {
+      return 1 - (this.genreTaxonomy.closestLink(genres1, genres2)?.similarity ?? 0);
+    }
+    const set2 = new Set(genres2.map((g) => g.toLowerCase()));
+    return genres1.some((g) => set2.has(g.toLowerCase())) ? 0 : 1;
   }
 
   /**
@@ -207,11 +774,25 @@ export class MatchingService {
     return 1 - Math.abs(v1 - v2);
   }
 
+  /**
+   * Speechiness similarity
+   * Spotify's scale is banded: < 0.33 music, 0.33-0.66 rap/mixed, > 0.66 spoken word.
+   * Crossing a band (e.g. sung vs rapped vocals) costs an extra 0.2
+   */
+  private speechinessSimilarity(s1: number, s2: number): number {
+    const band = (s: number) => (s < 0.33 ? 0 : s < 0.66 ? 1 : 2);
+    const similarity = this.continuousSimilarity(s1, s2);
+
+    return band(s1) === band(s2) ? similarity : Math.max(0, similarity - 0.2);
+  }
+
   /**
    * Tempo similarity with octave awareness
    * Recognizes that 120 BPM ≈ 240 BPM (double tempo sounds similar)
    */
   private tempoSimilarity(bpm1: number, bpm2: number): number {
+    if (!(bpm1 > 0) || !(bpm2 > 0)) return 0.5; // No data (Spotify reports 0 when unknown)
+
     const ratio = Math.max(bpm1, bpm2) / Math.min(bpm1, bpm2);
 
     // Check for octave relationship (double/half tempo)
@@ -234,20 +815,64 @@ export class MatchingService {
     key2: number,
     mode2: number
   ): number {
+    // Circle of Fifths distance (Spotify reports key -1 when no key was detected)
+    const distance = this.CIRCLE_DISTANCE_MATRIX[key1]?.[key2];
+    if (distance === undefined) return 0.5; // No data
+
     // Perfect match
     if (key1 === key2 && mode1 === mode2) return 1.0;
 
     // Same key, different mode (relative major/minor)
     if (key1 === key2) return 0.7;
 
-    // Circle of Fifths distance
-    const distance = this.CIRCLE_DISTANCE_MATRIX[key1][key2];
     const similarity = 1 - distance / 6;
 
     // Mode penalty if different
     return mode1 === mode2 ? similarity : similarity * 0.8;
   }
 
+  /**
+   * Harmonic mixing compatibility on the Camelot wheel
+   * When the tempos are within pitch fader range, the second song may also be
+   * played without key lock, shifting its key by the beatmatching pitch change;
+   * the better of the two options counts. Songs too far apart in tempo to
+   * beatmatch are penalized. Returns null when either key is unknown.
+   */
+  private harmonicMix(f1: AudioFeatures, f2: AudioFeatures): HarmonicMix | null {
+    const from = toCamelot(f1.key, f1.mode);
+    const native = toCamelot(f2.key, f2.mode);
+    if (!from || !native) return null;
+
+    const ratio = f1.tempo > 0 && f2.tempo > 0 ? beatmatchRatio(f1.tempo, f2.tempo) : NaN;
+    const beatmatchable = Math.abs(ratio - 1) <= MAX_PITCH_ADJUSTMENT;
+
+    let to = native;
+    let pitchShift = 0;
+    let similarity = camelotCompatibility(from, native);
+
+    if (beatmatchable) {
+      const shift = Math.round(pitchShiftSemitones(ratio));
+      const pitched = toCamelot(transposeKey(f2.key, shift), f2.mode);
+      if (shift !== 0 && pitched && camelotCompatibility(from, pitched) > similarity) {
+        to = pitched;
+        pitchShift = shift;
+        similarity = camelotCompatibility(from, pitched);
+      }
+    } else {
+      similarity *= this.UNBEATMATCHABLE_PENALTY;
+    }
+
+    return {
+      similarity,
+      from,
+      native,
+      to,
+      relation: camelotRelation(from, to),
+      pitchShift,
+      beatmatchable,
+    };
+  }
+
   /**
    * Time signature similarity
    * Same signature = 1.0, compound vs simple = 0.7, different = 0.3
@@ -289,6 +914,21 @@ export class MatchingService {
    * Genre similarity using Jaccard index
    * Intersection / Union of genre sets
    */
+  private compareGenres(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    algorithm: AlgorithmVersion
+  ): GenreComparison {
+    if (algorithm.genreScoring === 'taxonomy') {
+      return this.genreTaxonomy.compare(f1.genres || [], f2.genres || []);
+    }
+    return { similarity: this.genreSimilarity(f1.genres || [], f2.genres || []), links: [] };
+  }
+
+  /**
+   * Flat genre similarity (algorithm 1.0-1.1)
+   * Jaccard index of lowercased genre sets
+   */
   private genreSimilarity(genres1: string[], genres2: string[]): number {
     if (genres1.length === 0 || genres2.length === 0) return 0.5; // No data
 
@@ -302,7 +942,92 @@ export class MatchingService {
   }
 
   /**
-   * Artist similarity
+   * Compare the artists of two songs with the version's artist scoring
+   */
+  private compareArtists(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    algorithm: AlgorithmVersion
+  ): ArtistComparison {
+    if (algorithm.artistScoring === 'graph') {
+      return this.compareArtistGraph(f1, f2);
+    }
+
+    const similarity = this.artistSimilarity(f1.artist, f2.artist);
+    return similarity === 1
+      ? { similarity, relation: 'same', artist1: f1.artist }
+      : { similarity, relation: 'none' };
+  }
+
+  /**
+   * Artist similarity over IDs, all credits and the related-artist graph (1.3+)
+   * Same main artist = 1.0, shared credited artist = 0.8, related = 0.6
+   * Songs without artist IDs are compared by normalized names instead
+   */
+  private compareArtistGraph(f1: AudioFeatures, f2: AudioFeatures): ArtistComparison {
+    const ids1 = f1.artistIds ?? [];
+    const ids2 = f2.artistIds ?? [];
+    const names1 = normalizeArtistCredits(f1.artists ?? (f1.artist ? [f1.artist] : []));
+    const names2 = normalizeArtistCredits(f2.artists ?? (f2.artist ? [f2.artist] : []));
+
+    if (
+      (ids1.length === 0 && names1.length === 0) ||
+      (ids2.length === 0 && names2.length === 0)
+    ) {
+      return { similarity: 0.5, relation: 'none' }; // No data
+    }
+
+    if ((ids1[0] && ids1[0] === ids2[0]) || (names1[0] && names1[0] === names2[0])) {
+      return { similarity: 1.0, relation: 'same', artist1: this.artistName(f1, 0) };
+    }
+
+    const sharedId = ids1.find((id) => ids2.includes(id));
+    if (sharedId) {
+      return {
+        similarity: this.SHARED_ARTIST_SIMILARITY,
+        relation: 'shared',
+        artist1: this.artistName(f1, ids1.indexOf(sharedId)),
+      };
+    }
+
+    const sharedName = names1.find((name) => names2.includes(name));
+    if (sharedName) {
+      const credited = (f1.artists ?? []).find(
+        (artist) => normalizeArtistName(artist) === sharedName
+      );
+      return {
+        similarity: this.SHARED_ARTIST_SIMILARITY,
+        relation: 'shared',
+        artist1: credited ?? sharedName,
+      };
+    }
+
+    // Related in either direction, so one song's graph lookup is enough
+    for (const [i, id1] of ids1.entries()) {
+      for (const [j, id2] of ids2.entries()) {
+        if (f1.relatedArtistIds?.includes(id2) || f2.relatedArtistIds?.includes(id1)) {
+          return {
+            similarity: this.RELATED_ARTIST_SIMILARITY,
+            relation: 'related',
+            artist1: this.artistName(f1, i),
+            artist2: this.artistName(f2, j),
+          };
+        }
+      }
+    }
+
+    return { similarity: 0, relation: 'none' };
+  }
+
+  /**
+   * Display name of a song's credited artist, by position in artistIds
+   */
+  private artistName(features: AudioFeatures, index: number): string | undefined {
+    return features.artists?.[index] ?? (index === 0 ? features.artist : undefined);
+  }
+
+  /**
+   * Artist similarity by exact name (algorithm 1.0-1.2)
    * Same artist = 1.0, different = 0.0
    */
   private artistSimilarity(
@@ -332,6 +1057,24 @@ export class MatchingService {
     return Math.max(0, 1 - diff / 5); // Penalty for distance
   }
 
+  /**
+   * Whether a song has a usable value for a target feature
+   * Spotify reports 0 tempo/duration when unknown; texture may be absent
+   */
+  private hasTargetData(feature: TargetFeature, value: number | undefined): value is number {
+    if (value === undefined || !Number.isFinite(value)) return false;
+    return feature === 'tempo' || feature === 'durationMs' ? value > 0 : true;
+  }
+
+  /**
+   * 1 within the range, decaying linearly to 0 at `tolerance` past the nearest bound
+   */
+  private rangeScore(value: number, range: FeatureRange, tolerance: number): number {
+    const below = range.min !== undefined ? range.min - value : 0;
+    const above = range.max !== undefined ? value - range.max : 0;
+    return Math.max(0, 1 - Math.max(0, below, above) / tolerance);
+  }
+
   /**
    * Build Circle of Fifths distance matrix
    * Pre-computed for O(1) lookup during matching
@@ -357,135 +1100,724 @@ export class MatchingService {
   }
 
   /**
-   * Calculate confidence score (0-1)
-   * Based on data completeness and feature availability
+   * Components that cannot be scored from the data of both songs
+   * Covers absent metadata and texture as well as Spotify's "unknown" sentinels
+   * (key -1, tempo/time signature/duration 0)
    */
-  private calculateConfidence(f1: AudioFeatures, f2: AudioFeatures): number {
-    let availableFeatures = 0;
-    let totalFeatures = 0;
+  private missingComponents(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    artists: ArtistComparison
+  ): Set<MatchComponent> {
+    const missing = new Set<MatchComponent>();
+    const both = (has: (features: AudioFeatures) => boolean) => has(f1) && has(f2);
 
-    // Check Layer 1 features (always available from Spotify)
-    totalFeatures += 5;
-    availableFeatures += 5;
+    for (const component of ['valence', 'energy', 'danceability', 'acousticness'] as const) {
+      if (!both((features) => Number.isFinite(features[component]))) missing.add(component);
+    }
+    if (!both((features) => Number.isFinite(features.loudness))) missing.add('loudness');
+    if (!both((features) => features.tempo > 0)) missing.add('tempo');
+    if (!both((features) => toCamelot(features.key, features.mode) !== null)) {
+      missing.add('keyMode');
+    }
+    if (!both((features) => features.timeSignature > 0)) missing.add('timeSignature');
+    if (!both((features) => features.durationMs > 0)) missing.add('duration');
 
-    // Check Layer 2 features
-    totalFeatures += 4;
-    availableFeatures += 4;
+    if (!both((features) => !!features.genres?.length)) missing.add('genre');
+    if (artists.relation === 'none' && artists.similarity === 0.5) missing.add('artist');
+    if (!both((features) => !!features.releaseYear)) missing.add('era');
 
-    // Check Layer 3 features (optional)
-    totalFeatures += 3;
-    if (f1.genres && f1.genres.length > 0 && f2.genres && f2.genres.length > 0)
-      availableFeatures++;
-    if (f1.artist && f2.artist) availableFeatures++;
-    if (f1.releaseYear && f2.releaseYear) availableFeatures++;
+    for (const component of ['instrumentalness', 'speechiness', 'liveness'] as const) {
+      if (!both((features) => features[component] !== undefined)) missing.add(component);
+    }
+    return missing;
+  }
 
-    return availableFeatures / totalFeatures;
+  /**
+   * Calculate confidence score (0-1)
+   * Share of the profile's weight that was scored from real data, with
+   * estimated audio features discounted, reduced further when the score sits
+   * close to a summary threshold
+   */
+  private calculateConfidence(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    weights: ComponentWeights,
+    texture: boolean,
+    missing: Set<MatchComponent>,
+    overallScore: number
+  ): number {
+    const metadata = new Set<MatchComponent>(['genre', 'artist', 'era']);
+    const textureComponents = new Set<MatchComponent>([
+      'instrumentalness',
+      'speechiness',
+      'liveness',
+    ]);
+
+    // Estimated features describe the audio only; metadata comes from the platform
+    const estimated = [f1, f2].filter((features) => features.featuresEstimated).length;
+    const audioReliability = this.ESTIMATED_FEATURE_RELIABILITY ** estimated;
+
+    let totalWeight = 0;
+    let coveredWeight = 0;
+    for (const [component, weight] of Object.entries(weights) as [MatchComponent, number][]) {
+      if (!texture && textureComponents.has(component)) continue;
+
+      totalWeight += weight;
+      if (missing.has(component)) continue;
+      coveredWeight += metadata.has(component) ? weight : weight * audioReliability;
+    }
+    if (totalWeight === 0) return 0;
+
+    const margin = Math.min(
+      ...this.SUMMARY_THRESHOLDS.map((threshold) => Math.abs(overallScore - threshold))
+    );
+    const thresholdFactor =
+      1 - this.THRESHOLD_PENALTY * Math.max(0, 1 - margin / this.THRESHOLD_MARGIN);
+
+    return Math.round((coveredWeight / totalWeight) * thresholdFactor * 100) / 100;
   }
 
   /**
    * Generate human-readable explanation
-   * Provides context for why songs match or don't match
+   * Components are ranked by the score points they contributed (topReasons)
+   * or cost (differences), and described with both songs' values.
+   * In contrast mode the reasons are what sets the songs apart, and the
+   * differences are what they have in common.
    */
   private generateExplanation(
     f1: AudioFeatures,
     f2: AudioFeatures,
-    layers: { layer1: LayerResult; layer2: LayerResult; layer3: LayerResult },
-    overallScore: number
+    layers: MatchResult['breakdown'],
+    overallScore: number,
+    keyScoring: KeyScoringMode,
+    mode: MatchMode,
+    genres: GenreComparison,
+    artists: ArtistComparison,
+    missing: Set<MatchComponent>
   ): MatchExplanation {
-    const strengths: string[] = [];
-    const weaknesses: string[] = [];
+    const evidence = this.collectEvidence(layers, missing);
+
+    if (mode === 'contrast') {
+      return this.generateContrastExplanation(
+        f1,
+        f2,
+        evidence,
+        overallScore,
+        keyScoring,
+        genres,
+        artists
+      );
+    }
+
+    // Related genres and artists earn partial credit by design, so a link counts as a reason
+    const linked = new Set<MatchComponent>();
+    if (genres.links.some((link) => link.relation !== 'keyword')) linked.add('genre');
+    if (artists.relation !== 'none') linked.add('artist');
+
+    const topReasons = evidence
+      .filter((item) => item.similarity >= this.REASON_SIMILARITY || linked.has(item.component))
+      .sort((a, b) => b.points - a.points)
+      .slice(0, this.MAX_REASONS)
+      .map((item) => this.describeReason(item, f1, f2, keyScoring, genres, artists));
+
+    const differences = evidence
+      .filter((item) => item.similarity < this.DIFFERENCE_SIMILARITY)
+      .sort((a, b) => b.lostPoints - a.lostPoints)
+      .slice(0, this.MAX_DIFFERENCES)
+      .map((item) => this.describeDifference(item, f1, f2, keyScoring));
+
+    // Generate summary
+    let summary: MessageCode;
+    if (overallScore >= 80) {
+      summary = 'SUMMARY_VERY_SIMILAR';
+    } else if (overallScore >= 60) {
+      summary = 'SUMMARY_SOME_SIMILARITIES';
+    } else if (overallScore >= 40) {
+      summary = 'SUMMARY_SOME_COMMON';
+    } else {
+      summary = 'SUMMARY_DIFFERENT';
+    }
+
+    return {
+      locale: DEFAULT_LOCALE,
+      summary: this.messages.message(summary),
+      topReasons,
+      differences,
+      genreLinks: genres.links,
+      details: this.describeDetails(f1, f2, keyScoring),
+    };
+  }
 
-    // Analyze Layer 1
-    if (layers.layer1.components.valence.similarity > 0.8) {
-      strengths.push('Very similar mood and emotional tone');
-    } else if (layers.layer1.components.valence.similarity < 0.5) {
-      weaknesses.push('Different emotional vibes (one more positive/upbeat)');
+  /**
+   * Explanation in the contrast frame: evidence similarity holds contrast scores
+   * Shared genres and artists are never a reason, however they are linked
+   */
+  private generateContrastExplanation(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    evidence: ComponentEvidence[],
+    overallScore: number,
+    keyScoring: KeyScoringMode,
+    genres: GenreComparison,
+    artists: ArtistComparison
+  ): MatchExplanation {
+    const topReasons = evidence
+      .filter((item) => item.similarity >= this.REASON_SIMILARITY)
+      .sort((a, b) => b.points - a.points)
+      .slice(0, this.MAX_REASONS)
+      .map((item) => this.describeContrast(item, f1, f2, keyScoring));
+
+    // Alike enough to be a reason in similarity mode, and described as one
+    const differences = evidence
+      .filter((item) => 1 - item.similarity >= this.REASON_SIMILARITY)
+      .sort((a, b) => b.lostPoints - a.lostPoints)
+      .slice(0, this.MAX_DIFFERENCES)
+      .map((item) =>
+        this.describeReason(
+          { ...item, similarity: 1 - item.similarity },
+          f1,
+          f2,
+          keyScoring,
+          genres,
+          artists
+        )
+      );
+
+    let summary: MessageCode;
+    if (overallScore >= 80) {
+      summary = 'SUMMARY_CONTRAST_OPPOSITES';
+    } else if (overallScore >= 60) {
+      summary = 'SUMMARY_CONTRAST_STRONG';
+    } else if (overallScore >= 40) {
+      summary = 'SUMMARY_CONTRAST_SOME';
+    } else {
+      summary = 'SUMMARY_CONTRAST_SIMILAR';
     }
 
-    if (layers.layer1.components.energy.similarity > 0.8) {
-      strengths.push('Matching energy levels');
-    } else if (layers.layer1.components.energy.similarity < 0.5) {
-      weaknesses.push('Contrasting energy (one more intense than the other)');
+    return {
+      locale: DEFAULT_LOCALE,
+      summary: this.messages.message(summary),
+      topReasons,
+      differences,
+      genreLinks: genres.links,
+      details: this.describeDetails(f1, f2, keyScoring),
+    };
+  }
+
+  /**
+   * Detail breakdowns of the first song (harmony covers the mix for camelot scoring)
+   */
+  private describeDetails(
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    keyScoring: KeyScoringMode
+  ): MatchExplanation['details'] {
+    return {
+      mood: this.getMoodDescription(f1.valence, f1.energy),
+      rhythm: this.getRhythmDescription(f1.tempo, f1.danceability),
+      harmony:
+        keyScoring === 'camelot'
+          ? this.getHarmonicMixDescription(f1, f2)
+          : this.getHarmonyDescription(f1.key, f1.mode),
+      style: this.getStyleDescription(f1.genres, f1.artist),
+      texture: this.getTextureDescription(f1),
+    };
+  }
+
+  /**
+   * Score points each component added to (and lost from) the overall score
+   * Components scored neutrally for lack of data are left out
+   */
+  private collectEvidence(
+    layers: MatchResult['breakdown'],
+    missing: Set<MatchComponent>
+  ): ComponentEvidence[] {
+    const layerList = Object.values(layers);
+    const totalWeight = layerList.reduce((sum, layer) => sum + layer.weight, 0);
+    if (totalWeight === 0) return [];
+
+    const evidence: ComponentEvidence[] = [];
+    for (const layer of layerList) {
+      for (const [component, score] of Object.entries(layer.components)) {
+        if (missing.has(component as MatchComponent) || score.weight === 0) continue;
+        evidence.push({
+          component: component as MatchComponent,
+          similarity: score.similarity,
+          points: ((score.weight * score.similarity) / totalWeight) * 100,
+          lostPoints: ((score.weight * (1 - score.similarity)) / totalWeight) * 100,
+        });
+      }
     }
+    return evidence;
+  }
 
-    if (layers.layer1.components.tempo.similarity > 0.7) {
-      strengths.push('Similar tempo and rhythm');
-    } else if (layers.layer1.components.tempo.similarity < 0.5) {
-      weaknesses.push('Different tempo/speed');
+  /**
+   * Describe why a component matched, quoting both songs' values
+   */
+  private describeReason(
+    { component, similarity }: ComponentEvidence,
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    keyScoring: KeyScoringMode,
+    genres: GenreComparison,
+    artists: ArtistComparison
+  ): ExplanationMessage {
+    const message = (code: MessageCode, params: MessageParams = {}) =>
+      this.messages.message(code, params);
+
+    switch (component) {
+      case 'valence':
+        return message('MOOD_SIMILAR', { a: f1.valence, b: f2.valence });
+      case 'energy':
+        return message(similarity >= 0.9 ? 'ENERGY_CLOSE' : 'ENERGY_SIMILAR', {
+          a: f1.energy,
+          b: f2.energy,
+        });
+      case 'danceability':
+        return message('DANCEABILITY_SIMILAR', { a: f1.danceability, b: f2.danceability });
+      case 'tempo': {
+        const ratio = Math.max(f1.tempo, f2.tempo) / Math.min(f1.tempo, f2.tempo);
+        return message(Math.abs(ratio - 2) < 0.1 ? 'TEMPO_HALF_DOUBLE' : 'TEMPO_SIMILAR', {
+          a: f1.tempo,
+          b: f2.tempo,
+        });
+      }
+      case 'acousticness': {
+        const acoustic = (f1.acousticness + f2.acousticness) / 2 > 0.5;
+        return message(acoustic ? 'ACOUSTIC_BOTH' : 'ELECTRIC_BOTH', {
+          a: f1.acousticness,
+          b: f2.acousticness,
+        });
+      }
+      case 'keyMode': {
+        if (keyScoring === 'camelot') {
+          const mix = this.harmonicMix(f1, f2);
+          if (mix) return message('HARMONIC_MIX_COMPATIBLE', this.harmonicMixParams(mix));
+        }
+        const keys = this.keyParams(f1, f2);
+        if (keys.key1 === keys.key2 && f1.mode === f2.mode) return message('KEY_SAME', keys);
+        return message(f1.mode === f2.mode ? 'KEY_SAME_MODE' : 'KEY_COMPATIBLE', keys);
+      }
+      case 'timeSignature':
+        return f1.timeSignature === f2.timeSignature
+          ? message('TIME_SIGNATURE_SAME', { a: f1.timeSignature })
+          : message('TIME_SIGNATURE_COMPATIBLE', { a: f1.timeSignature, b: f2.timeSignature });
+      case 'loudness':
+        return message('LOUDNESS_SIMILAR', { a: f1.loudness, b: f2.loudness });
+      case 'duration':
+        return message('DURATION_SIMILAR', {
+          a: this.formatDuration(f1.durationMs),
+          b: this.formatDuration(f2.durationMs),
+        });
+      case 'genre': {
+        const link = genres.links[0];
+        if (link && !(link.relation === 'same' && link.genre1 === link.genre2)) {
+          const described = this.genreTaxonomy.describeLink(link);
+          return message(described.code, described.params);
+        }
+        const shared = (f1.genres ?? []).find((genre) =>
+          (f2.genres ?? []).some((other) => other.toLowerCase() === genre.toLowerCase())
+        );
+        return shared ? message('GENRE_SHARED', { genre: shared }) : message('GENRE_SIMILAR');
+      }
+      case 'artist':
+        if (artists.relation === 'shared') {
+          return message('ARTIST_SHARED', { artist: artists.artist1 ?? '' });
+        }
+        if (artists.relation === 'related') {
+          return message('ARTIST_RELATED', { a: artists.artist1 ?? '', b: artists.artist2 ?? '' });
+        }
+        return artists.artist1
+          ? message('ARTIST_SAME', { artist: artists.artist1 })
+          : message('ARTIST_SAME_UNNAMED');
+      case 'era': {
+        const years = { a: f1.releaseYear!, b: f2.releaseYear! };
+        const decade1 = Math.floor(years.a / 10) * 10;
+        const decade2 = Math.floor(years.b / 10) * 10;
+        return decade1 === decade2
+          ? message('ERA_SAME_DECADE', { decade: decade1, ...years })
+          : message('ERA_CLOSE', years);
+      }
+      case 'instrumentalness': {
+        const values = { a: f1.instrumentalness ?? 0, b: f2.instrumentalness ?? 0 };
+        return message(values.a > 0.5 ? 'INSTRUMENTAL_BOTH' : 'VOCALS_BOTH', values);
+      }
+      case 'speechiness':
+        return message('SPEECHINESS_SIMILAR', {
+          a: f1.speechiness ?? 0,
+          b: f2.speechiness ?? 0,
+        });
+      case 'liveness': {
+        const values = { a: f1.liveness ?? 0, b: f2.liveness ?? 0 };
+        return message(values.a > 0.8 ? 'LIVE_BOTH' : 'STUDIO_BOTH', values);
+      }
     }
+  }
 
-    // Analyze Layer 2
-    if (layers.layer2.components.keyMode.similarity > 0.8) {
-      strengths.push('Harmonically compatible (similar key/mode)');
-    } else if (layers.layer2.components.keyMode.similarity < 0.5) {
-      weaknesses.push('Different harmonic structure (key/mode mismatch)');
+  /**
+   * Describe how a component differs, naming the song it leans towards
+   */
+  private describeDifference(
+    { component }: ComponentEvidence,
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    keyScoring: KeyScoringMode
+  ): ExplanationMessage {
+    // e.g. ACOUSTICNESS_DIFFERENT { song: 2, a: 0.3, b: 0.9 } -> "Song 2 is more acoustic ..."
+    const compare = (code: MessageCode, a: number, b: number) =>
+      this.messages.message(code, { song: a >= b ? 1 : 2, a, b });
+    const message = (code: MessageCode, params: MessageParams) =>
+      this.messages.message(code, params);
+
+    switch (component) {
+      case 'valence':
+        return compare('MOOD_DIFFERENT', f1.valence, f2.valence);
+      case 'energy':
+        return compare('ENERGY_DIFFERENT', f1.energy, f2.energy);
+      case 'danceability':
+        return compare('DANCEABILITY_DIFFERENT', f1.danceability, f2.danceability);
+      case 'tempo':
+        return compare('TEMPO_DIFFERENT', f1.tempo, f2.tempo);
+      case 'acousticness':
+        return compare('ACOUSTICNESS_DIFFERENT', f1.acousticness, f2.acousticness);
+      case 'keyMode': {
+        if (keyScoring === 'camelot') {
+          const mix = this.harmonicMix(f1, f2);
+          if (mix) return message('HARMONIC_MIX_CLASH', this.harmonicMixParams(mix));
+        }
+        return message('KEY_CLASH', this.keyParams(f1, f2));
+      }
+      case 'timeSignature':
+        return message('TIME_SIGNATURE_DIFFERENT', { a: f1.timeSignature, b: f2.timeSignature });
+      case 'loudness':
+        return compare('LOUDNESS_DIFFERENT', f1.loudness, f2.loudness);
+      case 'duration':
+        return message('DURATION_DIFFERENT', {
+          song: f1.durationMs >= f2.durationMs ? 1 : 2,
+          a: this.formatDuration(f1.durationMs),
+          b: this.formatDuration(f2.durationMs),
+        });
+      case 'genre':
+        return message('GENRE_DIFFERENT', { a: f1.genres?.[0] ?? '', b: f2.genres?.[0] ?? '' });
+      case 'artist':
+        return message('ARTIST_DIFFERENT', {
+          a: f1.artist ?? 'unknown',
+          b: f2.artist ?? 'unknown',
+        });
+      case 'era':
+        // Older = earlier release year
+        return message('ERA_DIFFERENT', {
+          song: f1.releaseYear! <= f2.releaseYear! ? 1 : 2,
+          a: f1.releaseYear!,
+          b: f2.releaseYear!,
+        });
+      case 'instrumentalness':
+        return compare(
+          'INSTRUMENTALNESS_DIFFERENT',
+          f1.instrumentalness ?? 0,
+          f2.instrumentalness ?? 0
+        );
+      case 'speechiness':
+        return compare('SPEECHINESS_DIFFERENT', f1.speechiness ?? 0, f2.speechiness ?? 0);
+      case 'liveness':
+        return compare('LIVENESS_DIFFERENT', f1.liveness ?? 0, f2.liveness ?? 0);
     }
+  }
 
-    // Analyze Layer 3
-    if (f1.genres && f2.genres && layers.layer3.components.genre.similarity > 0.5) {
-      strengths.push('Shared musical genres');
-    } else if (
-      f1.genres &&
-      f2.genres &&
-      layers.layer3.components.genre.similarity < 0.2
-    ) {
-      weaknesses.push('Different genres');
+  /**
+   * Describe what sets a component apart in contrast mode, quoting both songs' values
+   */
+  private describeContrast(
+    { component, similarity: contrast }: ComponentEvidence,
+    f1: AudioFeatures,
+    f2: AudioFeatures,
+    keyScoring: KeyScoringMode
+  ): ExplanationMessage {
+    const message = (code: MessageCode, params: MessageParams) =>
+      this.messages.message(code, params);
+
+    switch (component) {
+      case 'valence':
+        return message(
+          contrast >= this.PERFECT_CONTRAST ? 'CONTRAST_MOOD_PERFECT' : 'CONTRAST_MOOD',
+          { a: f1.valence, b: f2.valence }
+        );
+      case 'energy':
+        return message('CONTRAST_ENERGY', { a: f1.energy, b: f2.energy });
+      case 'danceability':
+        return message('CONTRAST_DANCEABILITY', { a: f1.danceability, b: f2.danceability });
+      case 'tempo':
+        return message('CONTRAST_TEMPO', { a: f1.tempo, b: f2.tempo });
+      case 'acousticness':
+        return message('CONTRAST_ACOUSTICNESS', { a: f1.acousticness, b: f2.acousticness });
+      case 'keyMode': {
+        if (keyScoring === 'camelot') {
+          const mix = this.harmonicMix(f1, f2);
+          if (mix) return message('HARMONIC_MIX_CLASH', this.harmonicMixParams(mix));
+        }
+        return message('CONTRAST_KEY', this.keyParams(f1, f2));
+      }
+      case 'timeSignature':
+        return message('TIME_SIGNATURE_DIFFERENT', { a: f1.timeSignature, b: f2.timeSignature });
+      case 'loudness':
+        return message('CONTRAST_LOUDNESS', { a: f1.loudness, b: f2.loudness });
+      case 'duration':
+        return message('CONTRAST_DURATION', {
+          a: this.formatDuration(f1.durationMs),
+          b: this.formatDuration(f2.durationMs),
+        });
+      case 'genre':
+        return message('CONTRAST_GENRE', { a: f1.genres?.[0] ?? '', b: f2.genres?.[0] ?? '' });
+      case 'artist':
+        return message('ARTIST_DIFFERENT', {
+          a: f1.artist ?? 'unknown',
+          b: f2.artist ?? 'unknown',
+        });
+      case 'era':
+        return message('CONTRAST_ERA', {
+          years: Math.abs(f1.releaseYear! - f2.releaseYear!),
+          a: f1.releaseYear!,
+          b: f2.releaseYear!,
+        });
+      case 'instrumentalness':
+        return message('CONTRAST_INSTRUMENTALNESS', {
+          a: f1.instrumentalness ?? 0,
+          b: f2.instrumentalness ?? 0,
+        });
+      case 'speechiness':
+        return message('CONTRAST_SPEECHINESS', {
+          a: f1.speechiness ?? 0,
+          b: f2.speechiness ?? 0,
+        });
+      case 'liveness':
+        return message('CONTRAST_LIVENESS', { a: f1.liveness ?? 0, b: f2.liveness ?? 0 });
     }
+  }
 
-    // Generate summary
-    let summary = '';
+  /**
+   * Explain a target match: components within the target (hits), heaviest
+   * first, and how the song misses the rest (gaps), biggest cost first
+   */
+  private generateTargetExplanation(
+    features: AudioFeatures,
+    target: TargetProfile,
+    components: Partial<Record<MatchComponent, TargetComponentScore>>,
+    overallScore: number
+  ): TargetExplanation {
+    const scored = (
+      Object.entries(components) as [MatchComponent, TargetComponentScore][]
+    ).filter(([, component]) => component.weight > 0);
+
+    const hits = scored
+      .filter(([, component]) => component.score === 1)
+      .sort(([, a], [, b]) => b.weight - a.weight)
+      .slice(0, this.MAX_REASONS)
+      .map(([component]) => this.messages.message('TARGET_HIT', { feature: component }));
+
+    const gaps = scored
+      .filter(([, component]) => component.score < 1)
+      .sort(([, a], [, b]) => b.weight * (1 - b.score) - a.weight * (1 - a.score))
+      .slice(0, this.MAX_DIFFERENCES)
+      .map(([component]) => this.describeTargetGap(component, features, target));
+
+    let summary: MessageCode;
     if (overallScore >= 80) {
-      summary = 'These songs are very similar and would pair well together!';
+      summary = 'TARGET_SUMMARY_NAILED';
     } else if (overallScore >= 60) {
-      summary = 'These songs share some similarities but have notable differences.';
+      summary = 'TARGET_SUMMARY_CLOSE';
     } else if (overallScore >= 40) {
-      summary = 'These songs have some common elements but differ in key aspects.';
+      summary = 'TARGET_SUMMARY_PARTIAL';
     } else {
-      summary = "These songs don't match well - they're quite different.";
+      summary = 'TARGET_SUMMARY_MISSED';
     }
 
-    // Provide detail breakdowns
-    const moodDesc = this.getMoodDescription(f1.valence, f1.energy);
-    const rhythmDesc = this.getRhythmDescription(f1.tempo, f1.danceability);
-    const harmonyDesc = this.getHarmonyDescription(f1.key, f1.mode);
-    const styleDesc = this.getStyleDescription(f1.genres, f1.artist);
+    return {
+      locale: DEFAULT_LOCALE,
+      summary: this.messages.message(summary),
+      hits,
+      gaps,
+    };
+  }
+
+  /**
+   * Describe how a component misses the target, quoting the value and the bound
+   */
+  private describeTargetGap(
+    component: MatchComponent,
+    features: AudioFeatures,
+    target: TargetProfile
+  ): ExplanationMessage {
+    const message = (code: MessageCode, params: MessageParams) =>
+      this.messages.message(code, params);
+
+    switch (component) {
+      case 'keyMode':
+        return message('TARGET_WRONG_MODE', {
+          mode: features.mode === 1 ? 'major' : 'minor',
+          target: target.mode === 1 ? 'major' : 'minor',
+        });
+      case 'genre':
+        return message('TARGET_GENRE_MISS', {
+          genre: features.genres?.[0] ?? '',
+          target: (target.genres ?? []).join(', '),
+        });
+      case 'era': {
+        const year = features.releaseYear!;
+        const { from, to } = target.era!;
+        return year < from
+          ? message('TARGET_TOO_OLD', { year, from })
+          : message('TARGET_TOO_NEW', { year, to });
+      }
+      case 'tempo': {
+        const { min, max } = target.features.tempo!;
+        return min !== undefined && features.tempo < min
+          ? message('TARGET_TOO_SLOW', { value: features.tempo, min })
+          : message('TARGET_TOO_FAST', { value: features.tempo, max: max! });
+      }
+      case 'loudness': {
+        const { min, max } = target.features.loudness!;
+        return min !== undefined && features.loudness < min
+          ? message('TARGET_TOO_QUIET', { value: features.loudness, min })
+          : message('TARGET_TOO_LOUD', { value: features.loudness, max: max! });
+      }
+      case 'duration': {
+        const { min, max } = target.features.durationMs!;
+        const value = this.formatDuration(features.durationMs);
+        return min !== undefined && features.durationMs < min
+          ? message('TARGET_TOO_SHORT', { value, min: this.formatDuration(min) })
+          : message('TARGET_TOO_LONG', { value, max: this.formatDuration(max!) });
+      }
+      default: {
+        // 0-1 features share one message that names the feature
+        const feature = component as Exclude<TargetFeature, 'tempo' | 'loudness' | 'durationMs'>;
+        const value = features[feature]!;
+        const { min, max } = target.features[feature]!;
+        return min !== undefined && value < min
+          ? message('TARGET_TOO_LOW', { feature, value, min })
+          : message('TARGET_TOO_HIGH', { feature, value, max: max! });
+      }
+    }
+  }
 
+  /**
+   * Key names and modes of both songs, e.g. { key1: 'C', mode1: 'major', ... }
+   */
+  private keyParams(f1: AudioFeatures, f2: AudioFeatures): MessageParams {
     return {
-      summary,
-      strengths,
-      weaknesses,
-      details: {
-        mood: moodDesc,
-        rhythm: rhythmDesc,
-        harmony: harmonyDesc,
-        style: styleDesc,
-      },
+      key1: this.KEY_NAMES[f1.key] ?? '?',
+      mode1: f1.mode === 1 ? 'major' : 'minor',
+      key2: this.KEY_NAMES[f2.key] ?? '?',
+      mode2: f2.mode === 1 ? 'major' : 'minor',
     };
   }
 
-  private getMoodDescription(valence: number, energy: number): string {
-    if (valence > 0.7 && energy > 0.7) return 'Upbeat and energetic';
-    if (valence > 0.7 && energy < 0.4) return 'Happy but calm';
-    if (valence < 0.4 && energy > 0.7) return 'Intense and dark';
-    if (valence < 0.4 && energy < 0.4) return 'Melancholic and subdued';
-    return 'Moderate mood and energy';
+  /**
+   * Format milliseconds as m:ss
+   */
+  private formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private getMoodDescription(valence: number, energy: number): ExplanationMessage {
+    let mood: MessageCode = 'MOOD_MODERATE';
+    if (valence > 0.7 && energy > 0.7) mood = 'MOOD_UPBEAT_ENERGETIC';
+    else if (valence > 0.7 && energy < 0.4) mood = 'MOOD_HAPPY_CALM';
+    else if (valence < 0.4 && energy > 0.7) mood = 'MOOD_INTENSE_DARK';
+    else if (valence < 0.4 && energy < 0.4) mood = 'MOOD_MELANCHOLIC';
+    return this.messages.message(mood);
   }
 
-  private getRhythmDescription(tempo: number, danceability: number): string {
+  private getRhythmDescription(tempo: number, danceability: number): ExplanationMessage {
     const speed = tempo < 90 ? 'slow' : tempo < 120 ? 'moderate' : 'fast';
-    const dance = danceability > 0.7 ? 'very danceable' : danceability > 0.4 ? 'somewhat danceable' : 'not very danceable';
-    return `${speed} tempo (${Math.round(tempo)} BPM), ${dance}`;
+    const dance =
+      danceability > 0.7
+        ? 'very_danceable'
+        : danceability > 0.4
+          ? 'somewhat_danceable'
+          : 'not_danceable';
+    return this.messages.message('RHYTHM', { speed, bpm: tempo, dance });
   }
 
-  private getHarmonyDescription(key: number, mode: number): string {
-    const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-    const keyName = keys[key];
-    const modeName = mode === 1 ? 'Major' : 'Minor';
-    return `${keyName} ${modeName}`;
+  private getHarmonyDescription(key: number, mode: number): ExplanationMessage {
+    const keyName = this.KEY_NAMES[key];
+    if (!keyName) return this.messages.message('HARMONY_UNKNOWN_KEY');
+    return this.messages.message('HARMONY_KEY', {
+      key: keyName,
+      mode: mode === 1 ? 'major' : 'minor',
+    });
   }
 
-  private getStyleDescription(genres: string[] | undefined, artist: string | undefined): string {
-    if (!genres || genres.length === 0) return artist || 'Unknown style';
-    return `${genres.slice(0, 2).join(', ')}${artist ? ` by ${artist}` : ''}`;
+  /**
+   * Describe a harmonic mix in DJ terms, e.g. "8B → 8A, relative minor"
+   */
+  private getHarmonicMixDescription(f1: AudioFeatures, f2: AudioFeatures): ExplanationMessage {
+    const mix = this.harmonicMix(f1, f2);
+    if (!mix) return this.messages.message('HARMONY_UNKNOWN_KEY');
+
+    const params = this.harmonicMixParams(mix);
+    if (mix.pitchShift !== 0) {
+      return this.messages.message('HARMONY_MIX_PITCHED', {
+        ...params,
+        native: formatCamelot(mix.native),
+        shift: `${mix.pitchShift > 0 ? '+' : ''}${mix.pitchShift}`,
+        unit: Math.abs(mix.pitchShift) === 1 ? 'semitone' : 'semitones',
+      });
+    }
+    if (!mix.beatmatchable) {
+      return this.messages.message('HARMONY_MIX_UNBEATMATCHABLE', params);
+    }
+    return this.messages.message('HARMONY_MIX', params);
+  }
+
+  /**
+   * Camelot codes and relation of a harmonic mix, e.g. { from: '8B', to: '8A', ... }
+   */
+  private harmonicMixParams(mix: HarmonicMix): MessageParams {
+    const relations: Record<CamelotRelation, string> = {
+      same: 'same_key',
+      relative: mix.to.letter === 'A' ? 'relative_minor' : 'relative_major',
+      adjacent: mix.to.number === (mix.from.number % 12) + 1 ? 'up_a_fifth' : 'down_a_fifth',
+      diagonal: 'diagonal_mix',
+      distant: 'key_clash',
+    };
+
+    return {
+      from: formatCamelot(mix.from),
+      to: formatCamelot(mix.to),
+      relation: relations[mix.relation],
+    };
+  }
+
+  private getStyleDescription(
+    genres: string[] | undefined,
+    artist: string | undefined
+  ): ExplanationMessage {
+    if (!genres || genres.length === 0) {
+      return artist
+        ? this.messages.message('STYLE_ARTIST', { artist })
+        : this.messages.message('STYLE_UNKNOWN');
+    }
+    const genreList = genres.slice(0, 2).join(', ');
+    return artist
+      ? this.messages.message('STYLE_GENRES_BY_ARTIST', { genres: genreList, artist })
+      : this.messages.message('STYLE_GENRES', { genres: genreList });
+  }
+
+  private getTextureDescription(features: AudioFeatures): ExplanationMessage {
+    const { instrumentalness, speechiness, liveness } = features;
+    if (instrumentalness === undefined && speechiness === undefined) {
+      return this.messages.message('TEXTURE_UNKNOWN');
+    }
+
+    let texture: string;
+    if (speechiness !== undefined && speechiness > 0.66) texture = 'spoken_word';
+    else if (speechiness !== undefined && speechiness > 0.33) texture = 'rap';
+    else if (instrumentalness !== undefined && instrumentalness > 0.5) texture = 'instrumental';
+    else texture = 'sung';
+
+    const live = liveness !== undefined && liveness > 0.8;
+    return this.messages.message(live ? 'TEXTURE_LIVE' : 'TEXTURE', { texture });
   }
 }
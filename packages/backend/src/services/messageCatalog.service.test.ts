@@ -0,0 +1,85 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import en from '../data/locales/en.json' with { type: 'json' };
+import es from '../data/locales/es.json' with { type: 'json' };
+import pt from '../data/locales/pt.json' with { type: 'json' };
+import { MessageCatalogService } from './messageCatalog.service';
+import { MatchingService } from './matching.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('MessageCatalogService', () => {
+  let service: MessageCatalogService;
+
+  beforeEach(() => {
+    service = new MessageCatalogService();
+  });
+
+  const placeholders = (template: string) => (template.match(/\{[^}]+\}/g) ?? []).sort();
+
+  it('should render codes with formatted params', () => {
+    expect(service.message('ENERGY_CLOSE', { a: 0.82, b: 0.85 })).toEqual({
+      code: 'ENERGY_CLOSE',
+      params: { a: 0.82, b: 0.85 },
+      message: 'Energy levels are very close (0.82 vs 0.85)',
+    });
+    expect(service.format('TEMPO_SIMILAR', { a: 124.6, b: 128.1 }, 'en')).toBe(
+      'Similar tempo (125 BPM vs 128 BPM)'
+    );
+  });
+
+  it('should format numbers and translate terms for the locale', () => {
+    expect(service.format('ENERGY_CLOSE', { a: 0.82, b: 0.85 }, 'es')).toBe(
+      'Niveles de energía muy parecidos (0,82 vs 0,85)'
+    );
+    const keys = { key1: 'C', mode1: 'major', key2: 'G', mode2: 'major' };
+    expect(service.format('KEY_SAME_MODE', keys, 'pt')).toBe('As duas músicas estão em tom maior (C maior vs G maior)');
+  });
+
+  it('should keep unknown terms and codes readable', () => {
+    expect(service.format('ARTIST_DIFFERENT', { a: 'Rosalía', b: 'unknown' }, 'es')).toBe(
+      'Artistas diferentes (Rosalía vs desconocido)'
+    );
+    expect(service.format('NOT_A_CODE', {}, 'es')).toBe('NOT_A_CODE');
+  });
+
+  it('should translate every message and term with the same placeholders', () => {
+    for (const catalog of [es, pt]) {
+      expect(Object.keys(catalog.messages).sort()).toEqual(Object.keys(en.messages).sort());
+      expect(Object.keys(catalog.terms).sort()).toEqual(Object.keys(en.terms).sort());
+
+      for (const [code, template] of Object.entries(en.messages)) {
+        const translated = (catalog.messages as Record<string, string>)[code]!;
+        expect(placeholders(translated), code).toEqual(placeholders(template));
+      }
+    }
+  });
+
+  it('should re-render a match explanation in another locale', () => {
+    const song: AudioFeatures = {
+      valence: 0.8,
+      energy: 0.7,
+      danceability: 0.75,
+      tempo: 120,
+      acousticness: 0.3,
+      key: 0,
+      mode: 1,
+      timeSignature: 4,
+      loudness: -5,
+      durationMs: 200000,
+    };
+    const { explanation } = new MatchingService().calculateMatch(song, { ...song, energy: 0.68 });
+
+    const spanish = service.localizeExplanation(explanation, 'es');
+
+    expect(spanish.locale).toBe('es');
+    expect(spanish.summary.code).toBe(explanation.summary.code);
+    expect(spanish.topReasons.map((reason) => reason.code)).toEqual(
+      explanation.topReasons.map((reason) => reason.code)
+    );
+    expect(spanish.topReasons.map((reason) => reason.message)).toContain(
+      'Niveles de energía muy parecidos (0,70 vs 0,68)'
+    );
+    expect(spanish.details.harmony.message).toBe('C mayor');
+    expect(service.localizeExplanation(explanation, 'en')).toBe(explanation);
+  });
+});
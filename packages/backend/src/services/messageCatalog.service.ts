@@ -0,0 +1,126 @@
+import { injectable } from 'tsyringe';
+import en from '../data/locales/en.json' with { type: 'json' };
+import es from '../data/locales/es.json' with { type: 'json' };
+import pt from '../data/locales/pt.json' with { type: 'json' };
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from '../config/locales';
+import { ExplanationMessage, MatchExplanation, TargetExplanation } from '../types/music.types';
+
+export type MessageCode = keyof typeof en.messages;
+export type MessageParams = ExplanationMessage['params'];
+
+interface MessageCatalog {
+  messages: Record<string, string>;
+  terms: Record<string, string>; // Translations for {@param} values
+}
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, es, pt };
+
+// Built once at startup: the first Intl.NumberFormat is slow to create (ICU data)
+const MAX_DECIMALS = 2;
+const NUMBER_FORMATS = new Map<string, Intl.NumberFormat>(
+  SUPPORTED_LOCALES.flatMap((locale) =>
+    Array.from({ length: MAX_DECIMALS + 1 }, (_, digits) => [
+      `${locale}:${digits}`,
+      new Intl.NumberFormat(locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+        useGrouping: false,
+      }),
+    ])
+  )
+);
+
+/**
+ * MessageCatalogService
+ *
+ * Renders explanation messages from the per-locale catalogs in
+ * data/locales/. Codes and params are stable, so clients can also ignore
+ * `message` and render their own copy.
+ *
+ * Placeholders: {name} inserts the value as-is, {name:2} formats a number
+ * with 2 decimals for the locale, {@name} translates the value via `terms`.
+ */
+@injectable()
+export class MessageCatalogService {
+  /**
+   * Build a message rendered in the given locale
+   */
+  message(
+    code: MessageCode,
+    params: MessageParams = {},
+    locale: Locale = DEFAULT_LOCALE
+  ): ExplanationMessage {
+    return { code, params, message: this.format(code, params, locale) };
+  }
+
+  /**
+   * Render a message code
+   * Falls back to English for codes missing from a catalog, then to the code itself
+   */
+  format(code: string, params: MessageParams, locale: Locale): string {
+    const catalog = CATALOGS[locale];
+    const template = catalog.messages[code] ?? CATALOGS[DEFAULT_LOCALE].messages[code] ?? code;
+
+    return template.replace(/\{(@?)(\w+)(?::(\d))?\}/g, (placeholder, term, name, digits) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+
+      if (term) {
+        const key = String(value);
+        return catalog.terms[key] ?? CATALOGS[DEFAULT_LOCALE].terms[key] ?? key;
+      }
+      const numberFormat = digits !== undefined && NUMBER_FORMATS.get(`${locale}:${digits}`);
+      if (numberFormat && typeof value === 'number') {
+        return numberFormat.format(value);
+      }
+      return String(value);
+    });
+  }
+
+  /**
+   * Re-render a message in another locale
+   */
+  localizeMessage(message: ExplanationMessage, locale: Locale): ExplanationMessage {
+    return { ...message, message: this.format(message.code, message.params, locale) };
+  }
+
+  /**
+   * Re-render every message of an explanation in another locale
+   */
+  localizeExplanation(explanation: MatchExplanation, locale: Locale): MatchExplanation {
+    if (explanation.locale === locale) return explanation;
+
+    const localize = (message: ExplanationMessage) => this.localizeMessage(message, locale);
+
+    return {
+      ...explanation,
+      locale,
+      summary: localize(explanation.summary),
+      topReasons: explanation.topReasons.map(localize),
+      differences: explanation.differences.map(localize),
+      details: {
+        mood: localize(explanation.details.mood),
+        rhythm: localize(explanation.details.rhythm),
+        harmony: localize(explanation.details.harmony),
+        style: localize(explanation.details.style),
+        texture: localize(explanation.details.texture),
+      },
+    };
+  }
+
+  /**
+   * Re-render every message of a target match explanation in another locale
+   */
+  localizeTargetExplanation(explanation: TargetExplanation, locale: Locale): TargetExplanation {
+    if (explanation.locale === locale) return explanation;
+
+    const localize = (message: ExplanationMessage) => this.localizeMessage(message, locale);
+
+    return {
+      locale,
+      summary: localize(explanation.summary),
+      hits: explanation.hits.map(localize),
+      gaps: explanation.gaps.map(localize),
+    };
+  }
+}
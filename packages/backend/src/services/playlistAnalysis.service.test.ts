@@ -0,0 +1,164 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Redis } from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import { PlaylistAnalysisService } from './playlistAnalysis.service';
+import { MatchCacheService } from './matchCache.service';
+import { MatchingService } from './matching.service';
+import { SongCacheService } from './songCache.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('PlaylistAnalysisService', () => {
+  const dance: AudioFeatures = {
+    valence: 0.8,
+    energy: 0.8,
+    danceability: 0.85,
+    tempo: 124,
+    acousticness: 0.05,
+    key: 0,
+    mode: 1,
+    timeSignature: 4,
+    loudness: -5,
+    durationMs: 200000,
+    genres: ['dance pop'],
+    releaseYear: 2020,
+  };
+
+  const catalogue = new Map<string, AudioFeatures>([
+    ['a', dance],
+    ['b', { ...dance, energy: 0.75, tempo: 122, key: 7 }],
+    ['c', { ...dance, valence: 0.7, tempo: 126, key: 9, mode: 0 }],
+    ['d', { ...dance, energy: 0.85, danceability: 0.8, tempo: 128 }],
+    [
+      'ballad',
+      {
+        ...dance,
+        valence: 0.15,
+        energy: 0.1,
+        danceability: 0.2,
+        tempo: 0, // Unknown
+        acousticness: 0.95,
+        key: 6,
+        mode: 0,
+        timeSignature: 3,
+        loudness: -20,
+        durationMs: 420000,
+        genres: ['classical'],
+        releaseYear: 1975,
+      },
+    ],
+  ]);
+
+  let prisma: { userPlaylist: { findUnique: ReturnType<typeof vi.fn> } };
+  let service: PlaylistAnalysisService;
+
+  beforeEach(() => {
+    const redis = {
+      mget: vi.fn(async (...keys: string[]) => keys.map(() => null)),
+      pipeline: vi.fn(() => ({ setex: vi.fn(), exec: vi.fn().mockResolvedValue([]) })),
+    };
+    const songCacheService = {
+      getAudioFeaturesBatch: vi.fn(
+        async (ids: string[]) =>
+          new Map(ids.filter((id) => catalogue.has(id)).map((id) => [id, catalogue.get(id)!]))
+      ),
+    };
+    prisma = { userPlaylist: { findUnique: vi.fn() } };
+
+    service = new PlaylistAnalysisService(
+      prisma as unknown as PrismaClient,
+      songCacheService as unknown as SongCacheService,
+      new MatchCacheService(redis as unknown as Redis, new MatchingService())
+    );
+  });
+
+  it('should score transitions between adjacent songs', async () => {
+    const analysis = await service.analyzePlaylist(['a', 'b', 'c', 'd']);
+
+    expect(analysis.transitions.map((t) => [t.fromId, t.toId])).toEqual([
+      ['a', 'b'],
+      ['b', 'c'],
+      ['c', 'd'],
+    ]);
+    expect(analysis.transitions.every((t) => !t.weak && t.issues.length === 0)).toBe(true);
+    expect(analysis.cohesion).toBeGreaterThan(75);
+    expect(analysis.outliers).toEqual([]);
+  });
+
+  it('should flag the song that breaks the flow', async () => {
+    const analysis = await service.analyzePlaylist(['a', 'b', 'ballad', 'c', 'd']);
+
+    expect(analysis.outliers).toHaveLength(1);
+    expect(analysis.outliers[0]).toMatchObject({ position: 2, songId: 'ballad' });
+    expect(analysis.outliers[0]!.gap).toBeGreaterThanOrEqual(10);
+
+    const weak = analysis.transitions.filter((t) => t.weak);
+    expect(weak.map((t) => [t.from, t.to])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+    expect(weak[0]!.issues.length).toBeGreaterThan(0);
+    expect(weak[0]!.issues.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should rate flow by order and cohesion regardless of order', async () => {
+    const middle = await service.analyzePlaylist(['a', 'b', 'ballad', 'c', 'd']);
+    const end = await service.analyzePlaylist(['a', 'b', 'c', 'd', 'ballad']);
+
+    expect(end.cohesion).toBe(middle.cohesion);
+    expect(end.flow).toBeGreaterThan(middle.flow);
+  });
+
+  it('should return energy and tempo curves with unknown tempos as null', async () => {
+    const analysis = await service.analyzePlaylist(['a', 'ballad', 'd']);
+
+    expect(analysis.curves.energy).toEqual([0.8, 0.1, 0.85]);
+    expect(analysis.curves.tempo).toEqual([124, null, 128]);
+  });
+
+  it('should allow a song to repeat', async () => {
+    const analysis = await service.analyzePlaylist(['a', 'a', 'b']);
+
+    expect(analysis.songIds).toEqual(['a', 'a', 'b']);
+    expect(analysis.transitions[0]!.score).toBe(100);
+  });
+
+  it('should reject unknown songs', async () => {
+    await expect(service.analyzePlaylist(['a', 'nope'])).rejects.toThrow('Songs not found: nope');
+  });
+
+  describe('analyzeSavedPlaylist', () => {
+    it('should analyze stored items in order', async () => {
+      prisma.userPlaylist.findUnique.mockResolvedValue({
+        items: [
+          { songId: 'spotify:d', platform: 'SPOTIFY' },
+          { songId: 'spotify:a', platform: 'SPOTIFY' },
+        ],
+      });
+
+      const analysis = await service.analyzeSavedPlaylist('4b7e2a52-0c1f-4e0e-9a55-0d8f3c1c2f10');
+
+      expect(analysis.songIds).toEqual(['d', 'a']);
+    });
+
+    it('should reject missing, short and mixed-platform playlists', async () => {
+      const id = '4b7e2a52-0c1f-4e0e-9a55-0d8f3c1c2f10';
+
+      prisma.userPlaylist.findUnique.mockResolvedValueOnce(null);
+      await expect(service.analyzeSavedPlaylist(id)).rejects.toThrow('Playlist not found');
+
+      prisma.userPlaylist.findUnique.mockResolvedValueOnce({
+        items: [{ songId: 'spotify:a', platform: 'SPOTIFY' }],
+      });
+      await expect(service.analyzeSavedPlaylist(id)).rejects.toThrow('At least 2 songs');
+
+      prisma.userPlaylist.findUnique.mockResolvedValueOnce({
+        items: [
+          { songId: 'spotify:a', platform: 'SPOTIFY' },
+          { songId: 'apple:123', platform: 'APPLE' },
+        ],
+      });
+      await expect(service.analyzeSavedPlaylist(id)).rejects.toThrow('mixing platforms');
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { inject, injectable } from 'tsyringe';
+import type { MusicService, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { Platform, platformForService } from '../config/platforms';
+import { mean, median, medianAbsoluteDeviation } from '../utils/stats';
+import {
+  AudioFeatures,
+  ExplanationMessage,
+  MatchMatrix,
+  MatchOptions,
+} from '../types/music.types';
+import { MatchCacheService } from './matchCache.service';
+import { SongCacheService } from './songCache.service';
+
+/**
+ * Match between two adjacent songs of a playlist
+ */
+export interface PlaylistTransition {
+  from: number; // Position of the first song
+  to: number;
+  fromId: string;
+  toId: string;
+  score: number; // 0-100 match score
+  confidence: number;
+  weak: boolean; // Below WEAK_TRANSITION_SCORE
+  issues: ExplanationMessage[]; // Biggest differences, for weak transitions only
+}
+
+/**
+ * Song that fits the rest of the playlist much worse than the others do
+ */
+export interface PlaylistOutlier {
+  position: number;
+  songId: string;
+  fit: number; // Average match score against every other song
+  gap: number; // Points below the median fit
+}
+
+/**
+ * Songs of a playlist with every pair scored
+ */
+export interface ScoredPlaylist {
+  songs: { id: string; features: AudioFeatures }[];
+  matrix: MatchMatrix;
+}
+
+/**
+ * Item of a saved playlist, with the plain track ID
+ */
+export interface PlaylistItemRef {
+  id: string;
+  songId: string;
+  platform: Platform;
+}
+
+export interface PlaylistAnalysis {
+  songIds: string[];
+  cohesion: number; // 0-100 average match score over all pairs (order-independent)
+  flow: number; // 0-100 average transition score (depends on the order)
+  transitions: PlaylistTransition[];
+  outliers: PlaylistOutlier[]; // Worst fit first
+  curves: {
+    energy: (number | null)[]; // Per position
+    tempo: (number | null)[]; // BPM, null when unknown
+  };
+  cacheHits: number;
+  algorithmVersion: string;
+}
+
+/**
+ * PlaylistAnalysisService
+ *
+ * Scores how well an ordered list of songs hangs together: overall
+ * cohesion from every pair, flow from adjacent transitions, and the songs
+ * that stand out from the rest. Pairs are scored through MatchCacheService,
+ * so re-analyzing an edited playlist only computes the new pairs.
+ */
+@injectable()
+export class PlaylistAnalysisService {
+  // Transitions below this score are flagged, with the differences that cost the most
+  private readonly WEAK_TRANSITION_SCORE = 50;
+  private readonly MAX_TRANSITION_ISSUES = 2;
+
+  // A song is an outlier when its fit is more than OUTLIER_MAD_FACTOR robust
+  // deviations and at least OUTLIER_MIN_GAP points below the median fit
+  private readonly OUTLIER_MAD_FACTOR = 2.5;
+  private readonly OUTLIER_MIN_GAP = 10;
+  private readonly OUTLIER_MIN_SONGS = 4;
+
+  // Scales the median absolute deviation to a standard deviation for normal data
+  private readonly MAD_SCALE = 1.4826;
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private songCacheService: SongCacheService,
+    private matchCacheService: MatchCacheService
+  ) {}
+
+  /**
+   * Analyze an ordered list of songs
+   * Songs may repeat; every ID must resolve to a song
+   */
+  async analyzePlaylist(
+    songIds: string[],
+    platform: Platform = 'spotify',
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<PlaylistAnalysis> {
+    const { songs, matrix } = await this.scoreSongs(songIds, platform, bypassCache, options);
+
+    logger.debug(`Analyzed playlist of ${songs.length} songs (${matrix.cacheHits} cached pairs)`);
+    return this.analyze(songs, matrix);
+  }
+
+  /**
+   * Analyze a saved playlist in its stored order
+   */
+  async analyzeSavedPlaylist(
+    playlistId: string,
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<PlaylistAnalysis> {
+    const items = await this.getPlaylistItems(playlistId);
+    return this.analyzePlaylist(
+      items.map((item) => item.songId),
+      items[0]!.platform,
+      bypassCache,
+      options
+    );
+  }
+
+  /**
+   * Fetch features for a list of songs and score every pair
+   * Songs may repeat; every ID must resolve to a song
+   */
+  async scoreSongs(
+    songIds: string[],
+    platform: Platform = 'spotify',
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<ScoredPlaylist> {
+    const featuresById = await this.songCacheService.getAudioFeaturesBatch(
+      [...new Set(songIds)],
+      platform
+    );
+
+    const missing = songIds.filter((id) => !featuresById.has(id));
+    if (missing.length > 0) {
+      throw new AppError(404, 'NOT_FOUND', `Songs not found: ${[...new Set(missing)].join(', ')}`);
+    }
+
+    const songs = songIds.map((id) => ({ id, features: featuresById.get(id)! }));
+    const matrix = await this.matchCacheService.getMatchMatrix(songs, bypassCache, options);
+    return { songs, matrix };
+  }
+
+  /**
+   * Items of a saved playlist in stored order
+   * Only playlists of at least 2 songs, all from the same platform, can be scored
+   */
+  async getPlaylistItems(playlistId: string): Promise<PlaylistItemRef[]> {
+    const playlist = await this.prisma.userPlaylist.findUnique({
+      where: { id: playlistId },
+      select: {
+        items: {
+          select: { id: true, songId: true, platform: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!playlist) {
+      throw new AppError(404, 'NOT_FOUND', `Playlist not found: ${playlistId}`);
+    }
+
+    const items: { id: string; songId: string; platform: string }[] = playlist.items;
+    if (items.length < 2) {
+      throw new AppError(400, 'PLAYLIST_TOO_SHORT', 'At least 2 songs are required');
+    }
+    // Songs are only scored against songs from the same platform
+    if (items.some((item) => item.platform !== items[0]!.platform)) {
+      throw new AppError(
+        400,
+        'UNSUPPORTED_PLATFORM',
+        'Playlists mixing platforms cannot be analyzed'
+      );
+    }
+
+    // Items store platform:trackId
+    return items.map((item) => ({
+      id: item.id,
+      songId: item.songId.slice(item.songId.indexOf(':') + 1),
+      platform: platformForService(item.platform as MusicService),
+    }));
+  }
+
+  /**
+   * Derive cohesion, transitions, outliers and curves from a match matrix
+   */
+  private analyze(
+    songs: { id: string; features: AudioFeatures }[],
+    matrix: MatchMatrix
+  ): PlaylistAnalysis {
+    const n = songs.length;
+
+    // Average score of each song against every other song
+    const fits = songs.map((_, i) => mean(matrix.scores[i]!.filter((_, j) => j !== i)));
+    const pairScores = matrix.scores.flatMap((row, i) => row.slice(i + 1));
+
+    const transitions = songs.slice(1).map((song, index): PlaylistTransition => {
+      const result = matrix.results[index]![index + 1];
+      const score = result?.overallScore ?? 100; // null only when a song repeats itself
+      const weak = score < this.WEAK_TRANSITION_SCORE;
+      return {
+        from: index,
+        to: index + 1,
+        fromId: songs[index]!.id,
+        toId: song.id,
+        score,
+        confidence: result?.confidence ?? 1,
+        weak,
+        issues:
+          weak && result
+            ? result.explanation.differences.slice(0, this.MAX_TRANSITION_ISSUES)
+            : [],
+      };
+    });
+
+    return {
+      songIds: matrix.songIds,
+      cohesion: Math.round(mean(pairScores)),
+      flow: Math.round(mean(transitions.map((transition) => transition.score))),
+      transitions,
+      outliers: n >= this.OUTLIER_MIN_SONGS ? this.findOutliers(songs, fits) : [],
+      curves: {
+        energy: songs.map(({ features }) =>
+          Number.isFinite(features.energy) ? features.energy : null
+        ),
+        tempo: songs.map(({ features }) =>
+          features.tempo > 0 ? Math.round(features.tempo * 10) / 10 : null
+        ),
+      },
+      cacheHits: matrix.cacheHits,
+      algorithmVersion: matrix.algorithmVersion,
+    };
+  }
+
+  /**
+   * Songs whose fit is far below the rest, using median and MAD so a single
+   * bad song can't hide itself by dragging the average down
+   */
+  private findOutliers(songs: { id: string }[], fits: number[]): PlaylistOutlier[] {
+    const center = median(fits);
+    const spread = medianAbsoluteDeviation(fits) * this.MAD_SCALE;
+
+    return fits
+      .map((fit, position) => ({ position, songId: songs[position]!.id, fit, gap: center - fit }))
+      .filter(({ gap }) => gap >= this.OUTLIER_MIN_GAP && gap > this.OUTLIER_MAD_FACTOR * spread)
+      .sort((a, b) => b.gap - a.gap)
+      .map((outlier) => ({
+        ...outlier,
+        fit: Math.round(outlier.fit),
+        gap: Math.round(outlier.gap),
+      }));
+  }
+}
@@ -0,0 +1,55 @@
+import 'reflect-metadata';
+import { bench, describe } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PlaylistSequencerService } from './playlistSequencer.service';
+import { PlaylistAnalysisService, ScoredPlaylist } from './playlistAnalysis.service';
+import { AudioFeatures } from '../types/music.types';
+
+/**
+ * Sequencing time for a 100-song playlist (target: < 500ms)
+ * Run with `pnpm bench`; scores are precomputed, so this measures the search only
+ */
+describe('PlaylistSequencerService', () => {
+  const song: AudioFeatures = {
+    valence: 0.5,
+    energy: 0.5,
+    danceability: 0.5,
+    tempo: 120,
+    acousticness: 0.5,
+    key: 0,
+    mode: 1,
+    timeSignature: 4,
+    loudness: -8,
+    durationMs: 200000,
+  };
+
+  // Deterministic points in the plane; scores fall off with distance
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  const points = Array.from({ length: 100 }, () => [random(), random()] as const);
+  const songIds = points.map((_, i) => `p${i}`);
+  const playlist: ScoredPlaylist = {
+    songs: songIds.map((id) => ({ id, features: song })),
+    matrix: {
+      songIds,
+      scores: points.map(([ax, ay]) =>
+        points.map(([bx, by]) => 100 - Math.round(Math.hypot(ax - bx, ay - by) * 60))
+      ),
+      results: [],
+      cacheHits: 0,
+      algorithmVersion: '1.4',
+    },
+  };
+
+  const service = new PlaylistSequencerService(
+    {} as PrismaClient,
+    { scoreSongs: async () => playlist } as unknown as PlaylistAnalysisService
+  );
+
+  bench('sequencePlaylist (100 songs)', async () => {
+    await service.sequencePlaylist(songIds);
+  });
+});
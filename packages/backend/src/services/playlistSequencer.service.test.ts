@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PlaylistSequencerService } from './playlistSequencer.service';
+import { PlaylistAnalysisService, ScoredPlaylist } from './playlistAnalysis.service';
+import { AudioFeatures } from '../types/music.types';
+
+describe('PlaylistSequencerService', () => {
+  const baseSong: AudioFeatures = {
+    valence: 0.5,
+    energy: 0.5,
+    danceability: 0.5,
+    tempo: 120,
+    acousticness: 0.5,
+    key: 0,
+    mode: 1,
+    timeSignature: 4,
+    loudness: -8,
+    durationMs: 200000,
+  };
+
+  // Songs on a line: the closer two songs are, the better they match, so the
+  // smoothest order walks the line from one end to the other
+  const lineSongs = (positions: number[]) =>
+    positions.map((x, i) => ({
+      id: `s${i}`,
+      x,
+      features: { ...baseSong, energy: x, tempo: 80 + x * 100 },
+    }));
+
+  const scoreLine = (songs: { id: string; x: number; features: AudioFeatures }[]) => {
+    const scores = songs.map((a) => songs.map((b) => 100 - Math.round(Math.abs(a.x - b.x) * 50)));
+    return {
+      songs: songs.map(({ id, features }) => ({ id, features })),
+      matrix: {
+        songIds: songs.map((song) => song.id),
+        scores,
+        results: songs.map(() => songs.map(() => null)),
+        cacheHits: 0,
+        algorithmVersion: '1.4',
+      },
+    } satisfies ScoredPlaylist;
+  };
+
+  const shuffled = lineSongs([0.5, 0.1, 0.9, 0.3, 0.7, 0.2, 0.8, 0.4, 0.6, 0]);
+
+  let prisma: {
+    $transaction: ReturnType<typeof vi.fn>;
+    playlistItem: { update: ReturnType<typeof vi.fn> };
+  };
+  let scoreSongs: ReturnType<typeof vi.fn>;
+  let getPlaylistItems: ReturnType<typeof vi.fn>;
+  let service: PlaylistSequencerService;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: vi.fn(async (operations: unknown[]) => operations),
+      playlistItem: { update: vi.fn((args) => args) },
+    };
+    scoreSongs = vi.fn(async () => scoreLine(shuffled));
+    getPlaylistItems = vi.fn();
+    service = new PlaylistSequencerService(
+      prisma as unknown as PrismaClient,
+      { scoreSongs, getPlaylistItems } as unknown as PlaylistAnalysisService
+    );
+  });
+
+  const energies = (songIds: string[]) =>
+    songIds.map((id) => shuffled.find((song) => song.id === id)!.x);
+
+  it('should order songs for the smoothest transitions', async () => {
+    const result = await service.sequencePlaylist(shuffled.map((song) => song.id));
+    const path = energies(result.songIds);
+
+    const ascending = [...path].sort((a, b) => a - b);
+    expect([ascending, [...ascending].reverse()]).toContainEqual(path);
+    expect(result.flow).toBe(95);
+    expect(result.flow).toBeGreaterThan(result.originalFlow);
+    expect(result.order.map((i) => shuffled[i]!.id)).toEqual(result.songIds);
+  });
+
+  it('should keep the opener first and the closer last', async () => {
+    const result = await service.sequencePlaylist(
+      shuffled.map((song) => song.id),
+      { opener: 's0', closer: 's2' } // 0.5 first, 0.9 last
+    );
+
+    expect(result.songIds[0]).toBe('s0');
+    expect(result.songIds[result.songIds.length - 1]).toBe('s2');
+    expect(new Set(result.songIds).size).toBe(shuffled.length);
+  });
+
+  it('should follow a rising energy arc', async () => {
+    const result = await service.sequencePlaylist(shuffled.map((song) => song.id), {
+      arc: 'rising_energy',
+    });
+
+    const path = energies(result.songIds);
+    expect(path).toEqual([...path].sort((a, b) => a - b));
+  });
+
+  it('should follow a tempo ramp', async () => {
+    const result = await service.sequencePlaylist(shuffled.map((song) => song.id), {
+      arc: 'tempo_ramp',
+    });
+
+    // Tempo rises with x
+    const path = energies(result.songIds);
+    expect(path).toEqual([...path].sort((a, b) => a - b));
+  });
+
+  it('should reject constraints that cannot be met', async () => {
+    const ids = shuffled.map((song) => song.id);
+
+    await expect(service.sequencePlaylist(ids, { opener: 'nope' })).rejects.toThrow(
+      'opener is not in the list'
+    );
+    await expect(service.sequencePlaylist(ids, { opener: 's1', closer: 's1' })).rejects.toThrow(
+      'must be different songs'
+    );
+  });
+
+  it('should sequence 100 songs', async () => {
+    // Deterministic points in the plane; scores fall off with distance
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+    const points = Array.from({ length: 100 }, () => [random(), random()] as const);
+    const scores = points.map(([ax, ay]) =>
+      points.map(([bx, by]) => 100 - Math.round(Math.hypot(ax - bx, ay - by) * 60))
+    );
+    scoreSongs.mockResolvedValue({
+      songs: points.map((_, i) => ({ id: `p${i}`, features: baseSong })),
+      matrix: {
+        songIds: points.map((_, i) => `p${i}`),
+        scores,
+        results: [],
+        cacheHits: 0,
+        algorithmVersion: '1.4',
+      },
+    });
+
+    const result = await service.sequencePlaylist(points.map((_, i) => `p${i}`));
+
+    expect(new Set(result.songIds).size).toBe(100);
+    expect(result.flow).toBeGreaterThan(result.originalFlow + 20);
+  });
+
+  describe('sequenceSavedPlaylist', () => {
+    it('should rewrite item positions in the new order', async () => {
+      getPlaylistItems.mockResolvedValue(
+        shuffled.map((song, i) => ({ id: `item-${i}`, songId: song.id }))
+      );
+
+      const result = await service.sequenceSavedPlaylist('4b7e2a52-0c1f-4e0e-9a55-0d8f3c1c2f10');
+
+      const operations = prisma.$transaction.mock.calls[0]![0] as {
+        where: { id: string };
+        data: { position: number };
+      }[];
+      const n = shuffled.length;
+      expect(operations).toHaveLength(2 * n);
+
+      // Parked on negative positions first, so the unique index never collides
+      expect(operations.slice(0, n).every((op) => op.data.position < 0)).toBe(true);
+      expect(operations.slice(n)).toEqual(
+        result.order.map((index, position) => ({
+          where: { id: `item-${index}` },
+          data: { position },
+        }))
+      );
+    });
+  });
+});
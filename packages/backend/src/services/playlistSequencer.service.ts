@@ -0,0 +1,282 @@
+import { inject, injectable } from 'tsyringe';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { Platform } from '../config/platforms';
+import { mean } from '../utils/stats';
+import { AudioFeatures, MatchOptions } from '../types/music.types';
+import { PlaylistAnalysisService, ScoredPlaylist } from './playlistAnalysis.service';
+
+/**
+ * Shape the order should follow besides smooth transitions
+ * rising_energy: prefer each song at least as energetic as the one before
+ * tempo_ramp: prefer each song at least as fast as the one before
+ */
+export type SequenceArc = 'none' | 'rising_energy' | 'tempo_ramp';
+
+export interface SequenceConstraints {
+  opener?: string; // Song ID to play first
+  closer?: string; // Song ID to play last
+  arc?: SequenceArc; // Default: 'none'
+}
+
+export interface PlaylistSequence {
+  songIds: string[]; // New order
+  order: number[]; // Original position of each song in the new order
+  flow: number; // 0-100 average transition score of the new order
+  originalFlow: number; // Same for the original order
+  transitionScores: number[]; // Adjacent match scores of the new order
+  cacheHits: number;
+  algorithmVersion: string;
+}
+
+/**
+ * PlaylistSequencerService
+ *
+ * Reorders songs so adjacent songs match well: a shortest Hamiltonian path
+ * over the match matrix, where moving from song A to song B costs the score
+ * points the pair falls short of 100, plus any penalty for breaking the
+ * requested arc. Solved with nearest-neighbour tours from every allowed
+ * start, then improved with 2-opt; 100 songs take a few milliseconds on top
+ * of scoring the matrix.
+ */
+@injectable()
+export class PlaylistSequencerService {
+  // Cost in score points per unit the arc goes the wrong way
+  private readonly ENERGY_DROP_PENALTY = 100; // A 0.2 energy drop costs 20 points
+  private readonly TEMPO_DROP_PENALTY = 1; // Per BPM slower
+
+  // Safety net for 2-opt; it normally converges in a handful of passes
+  private readonly MAX_2OPT_PASSES = 20;
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private playlistAnalysisService: PlaylistAnalysisService
+  ) {}
+
+  /**
+   * Find a smooth order for a set of songs
+   */
+  async sequencePlaylist(
+    songIds: string[],
+    constraints: SequenceConstraints = {},
+    platform: Platform = 'spotify',
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<PlaylistSequence> {
+    const scored = await this.playlistAnalysisService.scoreSongs(
+      songIds,
+      platform,
+      bypassCache,
+      options
+    );
+    return this.sequence(scored, constraints);
+  }
+
+  /**
+   * Reorder a saved playlist and store the new item positions
+   */
+  async sequenceSavedPlaylist(
+    playlistId: string,
+    constraints: SequenceConstraints = {},
+    bypassCache = false,
+    options: MatchOptions = {}
+  ): Promise<PlaylistSequence> {
+    const items = await this.playlistAnalysisService.getPlaylistItems(playlistId);
+    const result = await this.sequencePlaylist(
+      items.map((item) => item.songId),
+      constraints,
+      items[0]!.platform,
+      bypassCache,
+      options
+    );
+
+    // (playlistId, position) is unique, so park every item on a negative
+    // position before writing the final ones
+    const ordered = result.order.map((index) => items[index]!);
+    await this.prisma.$transaction([
+      ...ordered.map((item, position) =>
+        this.prisma.playlistItem.update({
+          where: { id: item.id },
+          data: { position: -(position + 1) },
+        })
+      ),
+      ...ordered.map((item, position) =>
+        this.prisma.playlistItem.update({ where: { id: item.id }, data: { position } })
+      ),
+    ]);
+
+    logger.info(
+      `Resequenced playlist ${playlistId} (flow ${result.originalFlow} -> ${result.flow})`
+    );
+    return result;
+  }
+
+  /**
+   * Order scored songs under the given constraints
+   */
+  private sequence(
+    { songs, matrix }: ScoredPlaylist,
+    constraints: SequenceConstraints
+  ): PlaylistSequence {
+    const opener = this.findSong(songs, constraints.opener, 'opener');
+    const closer = this.findSong(songs, constraints.closer, 'closer');
+    if (opener !== undefined && opener === closer) {
+      throw new AppError(400, 'INVALID_CONSTRAINTS', 'Opener and closer must be different songs');
+    }
+
+    const n = songs.length;
+    const cost = songs.map((from, i) =>
+      songs.map((to, j) =>
+        i === j
+          ? 0
+          : 100 - matrix.scores[i]![j]! + this.arcPenalty(from.features, to.features, constraints)
+      )
+    );
+
+    const starts =
+      opener !== undefined ? [opener] : songs.map((_, i) => i).filter((i) => i !== closer);
+    let best: number[] = [];
+    let bestCost = Infinity;
+    for (const start of starts) {
+      const path = this.improve(this.nearestNeighbour(cost, start, closer), cost, opener, closer);
+      const pathCost = this.pathCost(path, cost);
+      if (pathCost < bestCost) {
+        best = path;
+        bestCost = pathCost;
+      }
+    }
+
+    const transitionScores = (path: number[]) =>
+      path.slice(1).map((j, k) => matrix.scores[path[k]!]![j]!);
+    const scores = transitionScores(best);
+    const original = transitionScores(songs.map((_, i) => i));
+
+    logger.debug(`Sequenced ${n} songs from ${starts.length} starts (cost ${bestCost.toFixed(1)})`);
+
+    return {
+      songIds: best.map((i) => songs[i]!.id),
+      order: best,
+      flow: Math.round(mean(scores)),
+      originalFlow: Math.round(mean(original)),
+      transitionScores: scores,
+      cacheHits: matrix.cacheHits,
+      algorithmVersion: matrix.algorithmVersion,
+    };
+  }
+
+  /**
+   * Cost of breaking the arc between two consecutive songs
+   * Songs without a known tempo are never penalized on tempo
+   */
+  private arcPenalty(
+    from: AudioFeatures,
+    to: AudioFeatures,
+    { arc = 'none' }: SequenceConstraints
+  ): number {
+    if (arc === 'rising_energy') {
+      return Math.max(0, from.energy - to.energy) * this.ENERGY_DROP_PENALTY;
+    }
+    if (arc === 'tempo_ramp' && from.tempo > 0 && to.tempo > 0) {
+      return Math.max(0, from.tempo - to.tempo) * this.TEMPO_DROP_PENALTY;
+    }
+    return 0;
+  }
+
+  /**
+   * Greedy path: always move to the cheapest unvisited song, keeping the
+   * closer (if any) for last
+   */
+  private nearestNeighbour(cost: number[][], start: number, closer?: number): number[] {
+    const n = cost.length;
+    const visited = new Array<boolean>(n).fill(false);
+    const path = [start];
+    visited[start] = true;
+    if (closer !== undefined) visited[closer] = true;
+
+    let current = start;
+    while (path.length < (closer !== undefined ? n - 1 : n)) {
+      let next = -1;
+      for (let j = 0; j < n; j++) {
+        if (!visited[j] && (next === -1 || cost[current]![j]! < cost[current]![next]!)) next = j;
+      }
+      path.push(next);
+      visited[next] = true;
+      current = next;
+    }
+
+    if (closer !== undefined) path.push(closer);
+    return path;
+  }
+
+  /**
+   * 2-opt on an open path: reverse the segment path[i..j] whenever that makes
+   * the path cheaper, until a full pass finds nothing. Costs may be asymmetric
+   * (arcs), so reversed segments are priced with prefix sums of the edge costs
+   * walked forwards and backwards. Fixed ends are never moved.
+   */
+  private improve(path: number[], cost: number[][], opener?: number, closer?: number): number[] {
+    const n = path.length;
+    const first = opener !== undefined ? 1 : 0;
+    const last = closer !== undefined ? n - 2 : n - 1;
+    const edge = (from: number | undefined, to: number | undefined) =>
+      from === undefined || to === undefined ? 0 : cost[from]![to]!;
+
+    // forward[k]: cost of path[0..k]; backward[k]: the same edges walked backwards
+    const forward = new Array<number>(n).fill(0);
+    const backward = new Array<number>(n).fill(0);
+    const updatePrefixSums = () => {
+      for (let k = 1; k < n; k++) {
+        forward[k] = forward[k - 1]! + edge(path[k - 1], path[k]);
+        backward[k] = backward[k - 1]! + edge(path[k], path[k - 1]);
+      }
+    };
+    updatePrefixSums();
+
+    for (let pass = 0; pass < this.MAX_2OPT_PASSES; pass++) {
+      let improved = false;
+
+      for (let i = first; i < last; i++) {
+        for (let j = i + 1; j <= last; j++) {
+          const before = path[i - 1]; // undefined at the start of the path
+          const after = path[j + 1];
+
+          const current =
+            edge(before, path[i]) + (forward[j]! - forward[i]!) + edge(path[j], after);
+          const reversed =
+            edge(before, path[j]) + (backward[j]! - backward[i]!) + edge(path[i], after);
+
+          if (reversed < current - 1e-9) {
+            path = [...path.slice(0, i), ...path.slice(i, j + 1).reverse(), ...path.slice(j + 1)];
+            updatePrefixSums();
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    return path;
+  }
+
+  private pathCost(path: number[], cost: number[][]): number {
+    return path.slice(1).reduce((sum, j, k) => sum + cost[path[k]!]![j]!, 0);
+  }
+
+  /**
+   * Position of a constrained song (first occurrence)
+   */
+  private findSong(
+    songs: { id: string }[],
+    songId: string | undefined,
+    role: 'opener' | 'closer'
+  ): number | undefined {
+    if (songId === undefined) return undefined;
+
+    const index = songs.findIndex((song) => song.id === songId);
+    if (index === -1) {
+      throw new AppError(400, 'INVALID_CONSTRAINTS', `The ${role} is not in the list: ${songId}`);
+    }
+    return index;
+  }
+}
@@ -0,0 +1,36 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { MusicProvider } from '../types/provider.types';
+
+describe('ProviderRegistryService', () => {
+  const provider = (platform: MusicProvider['platform']) =>
+    ({ platform }) as unknown as MusicProvider;
+
+  it('should look up providers by platform and stored service', () => {
+    const spotify = provider('spotify');
+    const apple = provider('apple');
+    const registry = new ProviderRegistryService([spotify, apple]);
+
+    expect(registry.get('spotify')).toBe(spotify);
+    expect(registry.forService('APPLE')).toBe(apple);
+    expect(registry.platforms()).toEqual(['spotify', 'apple']);
+  });
+
+  it('should reject platforms without a provider', () => {
+    const registry = new ProviderRegistryService([provider('spotify')]);
+
+    expect(registry.has('youtube')).toBe(false);
+    expect(() => registry.get('youtube')).toThrow('Platform not available: youtube');
+  });
+
+  it('should replace the provider of an already registered platform', () => {
+    const registry = new ProviderRegistryService([provider('spotify')]);
+    const replacement = provider('spotify');
+
+    registry.register(replacement);
+
+    expect(registry.get('spotify')).toBe(replacement);
+    expect(registry.platforms()).toHaveLength(1);
+  });
+});
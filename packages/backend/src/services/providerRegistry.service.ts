@@ -0,0 +1,62 @@
+import { injectable, injectAll } from 'tsyringe';
+import type { MusicService } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { Platform, platformForService } from '../config/platforms';
+import { MusicProvider } from '../types/provider.types';
+
+/**
+ * ProviderRegistryService
+ *
+ * Looks up the MusicProvider for a platform. Every provider registered in
+ * the DI container under 'MusicProvider' is picked up, so a new platform only
+ * needs its provider class and one registration in di/container.ts.
+ */
+@injectable()
+export class ProviderRegistryService {
+  private readonly providers = new Map<Platform, MusicProvider>();
+
+  constructor(@injectAll('MusicProvider') providers: MusicProvider[]) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  /**
+   * Add a provider, replacing any provider for the same platform
+   */
+  register(provider: MusicProvider): void {
+    this.providers.set(provider.platform, provider);
+    logger.debug(`Registered music provider: ${provider.platform}`);
+  }
+
+  /**
+   * Get the provider for a platform
+   * Throws if no provider is registered for it
+   */
+  get(platform: Platform): MusicProvider {
+    const provider = this.providers.get(platform);
+    if (!provider) {
+      throw new AppError(400, 'UNSUPPORTED_PLATFORM', `Platform not available: ${platform}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Get the provider for a stored MusicService value (users, game sessions)
+   */
+  forService(service: MusicService): MusicProvider {
+    return this.get(platformForService(service));
+  }
+
+  has(platform: Platform): boolean {
+    return this.providers.has(platform);
+  }
+
+  /**
+   * Platforms with a registered provider
+   */
+  platforms(): Platform[] {
+    return [...this.providers.keys()];
+  }
+}
@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScoreCalibrationService } from './scoreCalibration.service';
+
+describe('ScoreCalibrationService', () => {
+  let service: ScoreCalibrationService;
+
+  beforeEach(() => {
+    service = new ScoreCalibrationService();
+  });
+
+  describe('calibrate', () => {
+    it('should map raw scores onto percentiles of the bundled distribution', () => {
+      const median = service.calibrate(64, '1.4')!;
+      const high = service.calibrate(80, '1.4')!;
+
+      expect(median).toBeGreaterThan(40);
+      expect(median).toBeLessThan(60);
+      expect(high).toBeGreaterThan(95);
+      expect(service.calibrate(0, '1.4')).toBe(0);
+      expect(service.calibrate(100, '1.4')).toBe(100);
+    });
+
+    it('should be monotonic in the raw score', () => {
+      const calibrated = Array.from({ length: 101 }, (_, raw) => service.calibrate(raw, '1.4')!);
+
+      calibrated.slice(1).forEach((value, i) => {
+        expect(value).toBeGreaterThanOrEqual(calibrated[i]!);
+      });
+    });
+
+    it('should return null for versions without a distribution', () => {
+      expect(service.hasDistribution('1.0')).toBe(false);
+      expect(service.calibrate(70, '1.0')).toBeNull();
+    });
+
+    it("should not use another profile's distribution", () => {
+      expect(service.hasDistribution('1.4', 'party')).toBe(false);
+      expect(service.calibrate(70, '1.4', 'party')).toBeNull();
+    });
+  });
+
+  describe('buildDistribution', () => {
+    it('should rank tied scores at the midpoint', () => {
+      const distribution = service.buildDistribution([50, 50, 60, 70], 'test');
+
+      expect(distribution.samples).toBe(4);
+      expect(distribution.percentiles).toHaveLength(101);
+      expect(distribution.percentiles[49]).toBe(0);
+      expect(distribution.percentiles[50]).toBe(25);
+      expect(distribution.percentiles[55]).toBe(50);
+      expect(distribution.percentiles[60]).toBe(62.5);
+      expect(distribution.percentiles[70]).toBe(87.5);
+      expect(distribution.percentiles[100]).toBe(100);
+    });
+
+    it('should reject an empty sample', () => {
+      expect(() => service.buildDistribution([], 'test')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { injectable } from 'tsyringe';
+import distributions from '../data/scoreDistributions.json' with { type: 'json' };
+import { DEFAULT_WEIGHT_PROFILE } from '../config/weightProfiles';
+
+/**
+ * Empirical distribution of raw match scores for one algorithm version and
+ * weight profile
+ */
+export interface ScoreDistribution {
+  source: string; // Where the sample came from
+  samples: number;
+  percentiles: number[]; // 101 entries: percentile rank (0-100) of each raw score 0-100
+}
+
+/**
+ * ScoreCalibrationService
+ *
+ * Maps raw match scores onto a percentile scale. Component similarities are
+ * linear on 0-1 features, so most pairs land between 60 and 80; the
+ * calibrated score is instead the share of scored pairs that the match beats.
+ *
+ * Distributions are bundled per algorithm version and weight profile
+ * (data/scoreDistributions.json), as profiles shift where scores land, and
+ * rebuilt from similarity matches in MatchHistory with `pnpm calibrate:scores`.
+ * The bundled 1.4 default-profile distribution is a synthetic reference
+ * sample (random pairs of songs drawn from genre priors), not real matches.
+ */
+@injectable()
+export class ScoreCalibrationService {
+  private readonly distributions = new Map<string, ScoreDistribution>(
+    Object.entries(
+      distributions.distributions as Record<string, Record<string, ScoreDistribution>>
+    ).flatMap(([version, profiles]) =>
+      Object.entries(profiles).map(
+        ([profile, distribution]) => [`${version}:${profile}`, distribution] as const
+      )
+    )
+  );
+
+  /**
+   * Percentile rank (0-100) of a raw score
+   * Returns null when there is no distribution for the algorithm version and profile
+   */
+  calibrate(
+    rawScore: number,
+    algorithmVersion: string,
+    weightProfile = DEFAULT_WEIGHT_PROFILE
+  ): number | null {
+    const distribution = this.distributions.get(`${algorithmVersion}:${weightProfile}`);
+    if (!distribution) return null;
+
+    const score = Math.min(100, Math.max(0, Math.round(rawScore)));
+    return Math.round(distribution.percentiles[score]!);
+  }
+
+  /**
+   * Whether scores of an algorithm version and profile can be calibrated
+   */
+  hasDistribution(algorithmVersion: string, weightProfile = DEFAULT_WEIGHT_PROFILE): boolean {
+    return this.distributions.has(`${algorithmVersion}:${weightProfile}`);
+  }
+
+  /**
+   * Build a distribution from a sample of raw scores
+   * Tied scores share the midpoint of their ranks, so a score shared by every
+   * pair sits at the 50th percentile
+   */
+  buildDistribution(scores: number[], source: string): ScoreDistribution {
+    if (scores.length === 0) throw new Error('Cannot build a score distribution without scores');
+
+    const counts = Array<number>(101).fill(0);
+    for (const score of scores) {
+      counts[Math.min(100, Math.max(0, Math.round(score)))]!++;
+    }
+
+    const percentiles: number[] = [];
+    let below = 0;
+    for (const count of counts) {
+      const rank = ((below + count / 2) / scores.length) * 100;
+      percentiles.push(Math.round(rank * 10) / 10);
+      below += count;
+    }
+
+    return { source, samples: scores.length, percentiles };
+  }
+}
@@ -0,0 +1,243 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { SongCacheService } from './songCache.service';
+import { SpotifyService } from './spotify.service';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { SpotifyProvider } from '../providers/spotify.provider';
+import { ArtistGraphService } from './artistGraph.service';
+import { FeatureEstimationService } from './featureEstimation.service';
+import { AudioAnalysisService } from './audioAnalysis.service';
+import { SpotifyAudioFeatures, SpotifyTrack } from '../types/spotify.types';
+
+describe('SongCacheService', () => {
+  const track = (id: string): SpotifyTrack => ({
+    id,
+    name: `Song ${id}`,
+    artists: [
+      {
+        id: 'artist-1',
+        name: 'Night Drive',
+        genres: ['house'],
+        external_urls: { spotify: 'https://open.spotify.com/artist/artist-1' },
+      },
+    ],
+    album: {
+      id: 'album-1',
+      name: 'Album',
+      artists: [],
+      release_date: '2019-05-01',
+      images: [],
+      external_urls: { spotify: 'https://open.spotify.com/album/album-1' },
+    },
+    duration_ms: 200000,
+    preview_url: null,
+    external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    popularity: 60,
+    explicit: false,
+    external_ids: { isrc: 'USABC1900001' },
+  });
+
+  const features = (id: string): SpotifyAudioFeatures => ({
+    id,
+    valence: 0.5,
+    energy: 0.7,
+    danceability: 0.8,
+    tempo: 124,
+    acousticness: 0.1,
+    key: 5,
+    mode: 1,
+    time_signature: 4,
+    loudness: -6,
+    duration_ms: 200000,
+    instrumentalness: 0.3,
+    liveness: 0.1,
+    speechiness: 0.05,
+  });
+
+  const estimated = (id: string): SpotifyAudioFeatures => ({
+    ...features(id),
+    tempo: 0,
+    key: -1,
+    time_signature: 0,
+  });
+
+  let prisma: { songCache: Record<'findUnique' | 'upsert', ReturnType<typeof vi.fn>> };
+  let rows: Map<string, { data: string; expiresAt: Date }>;
+  let spotifyService: Record<
+    | 'getTrack'
+    | 'getMultipleTracks'
+    | 'searchTracks'
+    | 'getAudioFeatures'
+    | 'getMultipleAudioFeatures',
+    ReturnType<typeof vi.fn>
+  >;
+  let estimate: ReturnType<typeof vi.fn>;
+  let analyzePreview: ReturnType<typeof vi.fn>;
+  let service: SongCacheService;
+
+  beforeEach(() => {
+    rows = new Map();
+    prisma = {
+      songCache: {
+        findUnique: vi.fn(async ({ where }) => rows.get(where.platform_songId.songId) ?? null),
+        upsert: vi.fn(async ({ where, create }) => rows.set(where.platform_songId.songId, create)),
+      },
+    };
+    spotifyService = {
+      getTrack: vi.fn(async (id: string) => track(id)),
+      getMultipleTracks: vi.fn(async (ids: string[]) => ids.map(track)),
+      searchTracks: vi.fn(),
+      getAudioFeatures: vi.fn().mockRejectedValue(new Error('403 Forbidden')),
+      getMultipleAudioFeatures: vi.fn().mockRejectedValue(new Error('403 Forbidden')),
+    };
+    estimate = vi.fn(async ({ id }: { id: string }) => estimated(id));
+    analyzePreview = vi.fn().mockResolvedValue(null);
+    service = new SongCacheService(
+      prisma as unknown as PrismaClient,
+      new ProviderRegistryService([
+        new SpotifyProvider(spotifyService as unknown as SpotifyService),
+      ]),
+      {} as ArtistGraphService,
+      { estimate } as unknown as FeatureEstimationService,
+      { analyzePreview } as unknown as AudioAnalysisService
+    );
+  });
+
+  it('should estimate features when Spotify has none', async () => {
+    const song = await service.getSongById('t1');
+
+    expect(estimate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 't1',
+        artist: 'Night Drive',
+        genres: ['house'],
+        releaseYear: 2019,
+        popularity: 60,
+      }),
+      'spotify'
+    );
+    expect(song.featuresEstimated).toBe(true);
+    expect(song.audioFeatures.key).toBe(-1);
+    expect(song.expiresAt - song.cachedAt).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(prisma.songCache.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ featuresEstimated: true, isrc: 'USABC1900001' }),
+      })
+    );
+  });
+
+  it('should refine estimates with what the preview clip reveals', async () => {
+    spotifyService.getTrack.mockResolvedValue({
+      ...track('t1'),
+      preview_url: 'https://p.scdn.co/mp3-preview/t1',
+    });
+    analyzePreview.mockResolvedValue({
+      valence: NaN,
+      energy: 0.35,
+      danceability: NaN,
+      tempo: 128,
+      acousticness: 0.7,
+      key: 9,
+      mode: 0,
+      timeSignature: 0,
+      loudness: -16,
+      durationMs: 30000,
+    });
+
+    const served = await service.getSongById('t1');
+    await service.flushPreviewAnalysis();
+    const song = await service.getSongById('t1');
+
+    // Served with its estimates while the clip is analyzed in the background
+    expect(served.audioFeatures.key).toBe(-1);
+    expect(analyzePreview).toHaveBeenCalledWith('https://p.scdn.co/mp3-preview/t1');
+    expect(song.featuresEstimated).toBe(true);
+    expect(song.audioFeatures).toMatchObject({
+      tempo: 128,
+      key: 9,
+      mode: 0,
+      energy: 0.35,
+      acousticness: 0.7,
+      loudness: -16,
+      valence: 0.5, // Estimated
+      time_signature: 0,
+      duration_ms: 200000, // The track's, not the clip's
+    });
+  });
+
+  it('should keep measured features when Spotify has them', async () => {
+    spotifyService.getAudioFeatures.mockResolvedValue(features('t1'));
+
+    const song = await service.getSongById('t1');
+
+    expect(estimate).not.toHaveBeenCalled();
+    expect(song.featuresEstimated).toBeUndefined();
+    expect(song.audioFeatures.tempo).toBe(124);
+  });
+
+  it('should no longer drop search results without features', async () => {
+    spotifyService.searchTracks.mockResolvedValue({
+      tracks: { items: [track('t1'), track('t2')], total: 2, limit: 20, offset: 0, next: null },
+    });
+
+    const result = await service.searchSongs({ query: 'night drive' });
+
+    expect(result.songs.map((song) => song.id)).toEqual(['t1', 't2']);
+    expect(result.songs.every((song) => song.featuresEstimated)).toBe(true);
+  });
+
+  it('should estimate only the tracks missing from a bulk lookup', async () => {
+    spotifyService.getMultipleAudioFeatures.mockResolvedValue([features('t1'), null]);
+
+    const songs = await service.getSongsByIds(['t1', 't2']);
+
+    expect(songs.map((song) => [song.id, song.featuresEstimated ?? false])).toEqual([
+      ['t1', false],
+      ['t2', true],
+    ]);
+    expect(estimate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not overwrite borrowed features with a late preview analysis', async () => {
+    spotifyService.getTrack.mockResolvedValue({
+      ...track('t1'),
+      preview_url: 'https://p.scdn.co/mp3-preview/t1',
+    });
+    let finishAnalysis = () => {};
+    analyzePreview.mockReturnValue(
+      new Promise((resolve) => {
+        finishAnalysis = () => resolve({ tempo: 90, key: 2, mode: 1 });
+      })
+    );
+
+    const song = await service.getSongById('t1');
+    const copy = { ...song, id: 'ap-1', audioFeatures: features('ap-1') };
+    copy.platform = 'apple';
+    await service.borrowFeatures(song, copy);
+    finishAnalysis();
+    await service.flushPreviewAnalysis();
+
+    expect(analyzePreview).toHaveBeenCalled();
+
+    expect((await service.getSongById('t1')).audioFeatures).toEqual(features('t1'));
+  });
+
+  it('should cache features borrowed from another platform as measured', async () => {
+    const song = await service.getSongById('t1');
+    const copy = { ...song, id: 'ap-1', audioFeatures: features('ap-1') };
+    copy.platform = 'apple';
+
+    const borrowed = await service.borrowFeatures({ ...song, genres: [] }, copy);
+
+    expect(borrowed).toMatchObject({ featuresEstimated: false, featuresFrom: 'apple' });
+    expect(borrowed.audioFeatures).toEqual(features('t1'));
+    expect(borrowed.genres).toEqual(song.genres);
+    expect(borrowed.expiresAt - borrowed.cachedAt).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(prisma.songCache.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ songId: 't1', featuresEstimated: false }),
+      })
+    );
+  });
+});
@@ -2,37 +2,58 @@ import { inject, injectable } from 'tsyringe';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { CachedSong, SongSearchResult, SongSearchFilters } from '../types/spotify.types';
-import { SpotifyService } from './spotify.service';
+import { ProviderAudioFeatures, ProviderTrack } from '../types/provider.types';
+import { Platform } from '../config/platforms';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { ArtistGraphService } from './artistGraph.service';
+import { FeatureEstimationService } from './featureEstimation.service';
+import { AudioAnalysisService } from './audioAnalysis.service';
 import { AudioFeatures } from '../types/music.types';
 
 /**
  * SongCacheService
  *
  * Manages song caching in PostgreSQL with 30-day TTL.
- * Reduces Spotify API calls and improves response times.
+ * Reduces provider API calls and improves response times.
  *
  * Cache Strategy:
  * - Store complete song data (metadata + audio features) in database
  * - 30-day TTL (as per DEVELOPMENT_PLAN.md)
  * - Automatic cache invalidation on expiry
- * - Fallback to Spotify API on cache miss
+ * - Fallback to the platform's MusicProvider on cache miss
+ * - Estimated features when the provider has none (from metadata), cached for
+ *   7 days so they are replaced by measured ones once available
+ * - Preview clips of those songs are analyzed in the background, one at a
+ *   time, and the cached estimates refined when done; requests never wait
+ *   for an analysis
  */
 @injectable()
 export class SongCacheService {
   private readonly CACHE_TTL_DAYS = 30;
   private readonly CACHE_TTL_MS = this.CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+  private readonly ESTIMATED_TTL_DAYS = 7;
+  private readonly ESTIMATED_TTL_MS = this.ESTIMATED_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+  // Preview analyses run one after another off the request path
+  private analysisQueue: Promise<void> = Promise.resolve();
+  private readonly queuedAnalyses = new Set<string>(); // platform:songId
 
   constructor(
     @inject('PrismaClient') private prisma: PrismaClient,
-    private spotifyService: SpotifyService
+    private providers: ProviderRegistryService,
+    private artistGraphService: ArtistGraphService,
+    private featureEstimationService: FeatureEstimationService,
+    private audioAnalysisService: AudioAnalysisService
   ) {}
 
   /**
    * Get song by ID with caching
    * Returns cached version if available and not expired
-   * Otherwise fetches from Spotify and caches
+   * Otherwise fetches from the platform's provider and caches
    */
-  async getSongById(songId: string, platform: 'spotify' = 'spotify'): Promise<CachedSong> {
+  async getSongById(songId: string, platform: Platform = 'spotify'): Promise<CachedSong> {
+    const provider = this.providers.get(platform);
+
     // Try cache first
     const cached = await this.getCachedSong(songId, platform);
     if (cached) {
@@ -40,37 +61,82 @@ export class SongCacheService {
       return cached;
     }
 
-    // Cache miss - fetch from Spotify
-    logger.debug(`Cache miss for song: ${songId}, fetching from Spotify`);
-    const track = await this.spotifyService.getTrack(songId);
-    const song = await this.spotifyService.convertToCachedSong(track);
+    // Cache miss - fetch from the provider
+    logger.debug(`Cache miss for song: ${songId}, fetching from ${platform}`);
+    const track = await provider.getTrack(songId);
+    const song = await this.convertTrack(track, await this.fetchAudioFeatures(track));
 
     // Store in cache
     await this.cacheSong(song);
+    this.queuePreviewAnalysis(song);
 
     return song;
   }
 
+  /**
+   * Get multiple songs by ID with caching
+   * Cache misses are fetched from the provider in bulk (tracks + audio features)
+   * Returns songs in request order; unknown IDs are skipped, tracks without
+   * audio features get estimated ones
+   */
+  async getSongsByIds(songIds: string[], platform: Platform = 'spotify'): Promise<CachedSong[]> {
+    const provider = this.providers.get(platform);
+    const cached = await Promise.all(songIds.map((id) => this.getCachedSong(id, platform)));
+
+    const songsById = new Map<string, CachedSong>();
+    cached.forEach((song) => {
+      if (song) songsById.set(song.id, song);
+    });
+
+    const missingIds = songIds.filter((id) => !songsById.has(id));
+    logger.debug(`Bulk song lookup: ${songsById.size} cached, ${missingIds.length} to fetch`);
+
+    if (missingIds.length > 0) {
+      const tracks = await provider.getTracks(missingIds);
+      let featuresById = new Map<string, ProviderAudioFeatures>();
+      try {
+        featuresById = await provider.getFeaturesBatch(tracks);
+      } catch (error) {
+        logger.warn('Audio features unavailable for bulk lookup, estimating:', error);
+      }
+
+      for (const track of tracks) {
+        const song = await this.convertTrack(track, featuresById.get(track.id) ?? null);
+        await this.cacheSong(song);
+        this.queuePreviewAnalysis(song);
+        songsById.set(song.id, song);
+      }
+    }
+
+    return songIds
+      .map((id) => songsById.get(id))
+      .filter((song): song is CachedSong => song !== undefined);
+  }
+
   /**
    * Search songs with caching
-   * Uses cached results when possible, fetches from Spotify otherwise
+   * Uses cached results when possible, fetches from the provider otherwise
    */
-  async searchSongs(filters: SongSearchFilters): Promise<SongSearchResult> {
-    // For search, we'll fetch fresh results from Spotify
+  async searchSongs(
+    filters: SongSearchFilters,
+    platform: Platform = 'spotify'
+  ): Promise<SongSearchResult> {
+    // For search, we'll fetch fresh results from the provider
     // but individual songs will be cached
-    const searchResponse = await this.spotifyService.searchTracks(filters);
+    const searchResponse = await this.providers.get(platform).search(filters);
 
     // Convert tracks to cached songs (will use cache for ones we've seen before)
     const songs: CachedSong[] = [];
-    for (const track of searchResponse.tracks.items) {
+    for (const track of searchResponse.tracks) {
       try {
         // Check if we have this song cached
-        let cachedSong = await this.getCachedSong(track.id, 'spotify');
+        let cachedSong = await this.getCachedSong(track.id, platform);
 
         if (!cachedSong) {
           // Not cached - convert and cache it
-          cachedSong = await this.spotifyService.convertToCachedSong(track);
+          cachedSong = await this.convertTrack(track, await this.fetchAudioFeatures(track));
           await this.cacheSong(cachedSong);
+          this.queuePreviewAnalysis(cachedSong);
         }
 
         songs.push(cachedSong);
@@ -82,19 +148,180 @@ export class SongCacheService {
 
     return {
       songs,
-      total: searchResponse.tracks.total,
-      limit: searchResponse.tracks.limit,
-      offset: searchResponse.tracks.offset,
-      hasMore: searchResponse.tracks.next !== null,
+      total: searchResponse.total,
+      limit: searchResponse.limit,
+      offset: searchResponse.offset,
+      hasMore: searchResponse.hasMore,
+    };
+  }
+
+  /**
+   * Convert a provider track to a cached song
+   * Without measured audio features, features are estimated from metadata
+   * and the song expires sooner
+   */
+  private async convertTrack(
+    track: ProviderTrack,
+    audioFeatures: ProviderAudioFeatures | null
+  ): Promise<CachedSong> {
+    const cachedAt = Date.now();
+
+    if (audioFeatures) {
+      return { ...track, audioFeatures, cachedAt, expiresAt: cachedAt + this.CACHE_TTL_MS };
+    }
+
+    const estimated = await this.featureEstimationService.estimate(
+      {
+        id: track.id,
+        artist: track.artist,
+        artistId: track.artistId,
+        genres: track.genres,
+        releaseYear: track.releaseYear,
+        durationMs: track.durationMs,
+        popularity: track.popularity,
+      },
+      track.platform
+    );
+
+    return {
+      ...track,
+      audioFeatures: estimated,
+      featuresEstimated: true,
+      cachedAt,
+      expiresAt: cachedAt + this.ESTIMATED_TTL_MS,
+    };
+  }
+
+  /**
+   * Analyze the preview clip of a song with estimated features in the
+   * background; the song is served with its estimates until then
+   */
+  private queuePreviewAnalysis(song: CachedSong): void {
+    const key = `${song.platform}:${song.id}`;
+    if (!song.featuresEstimated || !song.previewUrl || this.queuedAnalyses.has(key)) return;
+
+    this.queuedAnalyses.add(key);
+    this.analysisQueue = this.analysisQueue
+      .then(() => this.refineWithPreview(song.id, song.platform, song.previewUrl!))
+      .finally(() => this.queuedAnalyses.delete(key));
+  }
+
+  /**
+   * Wait for queued preview analyses to finish
+   */
+  async flushPreviewAnalysis(): Promise<void> {
+    while (this.queuedAnalyses.size > 0) await this.analysisQueue;
+  }
+
+  /**
+   * Refine the cached estimates of a song with what its preview clip reveals
+   * Skipped when the song has since expired or got measured features
+   */
+  private async refineWithPreview(
+    songId: string,
+    platform: Platform,
+    previewUrl: string
+  ): Promise<void> {
+    try {
+      const analyzed = await this.audioAnalysisService.analyzePreview(previewUrl);
+      if (!analyzed) return;
+
+      const song = await this.getCachedSong(songId, platform);
+      if (!song?.featuresEstimated) return;
+
+      await this.cacheSong({
+        ...song,
+        audioFeatures: this.withAnalyzedFeatures(song.audioFeatures, analyzed),
+      });
+    } catch (error) {
+      logger.warn(`Preview analysis failed for ${platform}:${songId}:`, error);
+    }
+  }
+
+  /**
+   * Overlay features measured from a preview clip on estimated ones
+   * Anything the analysis couldn't determine keeps its estimate
+   */
+  private withAnalyzedFeatures(
+    estimated: ProviderAudioFeatures,
+    analyzed: AudioFeatures
+  ): ProviderAudioFeatures {
+    const features = { ...estimated };
+    if (analyzed.tempo > 0) features.tempo = analyzed.tempo;
+    if (analyzed.key >= 0) {
+      features.key = analyzed.key;
+      features.mode = analyzed.mode;
+    }
+    if (Number.isFinite(analyzed.loudness)) features.loudness = analyzed.loudness;
+    if (Number.isFinite(analyzed.energy)) features.energy = analyzed.energy;
+    if (Number.isFinite(analyzed.acousticness)) features.acousticness = analyzed.acousticness;
+    return features;
+  }
+
+  /**
+   * Fetch measured audio features for a track, or null if the provider has none
+   */
+  private async fetchAudioFeatures(track: ProviderTrack): Promise<ProviderAudioFeatures | null> {
+    try {
+      return await this.providers.get(track.platform).getFeatures(track);
+    } catch (error) {
+      logger.warn(`Audio features unavailable for ${track.id}, estimating:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store measured features borrowed from the same recording on another
+   * platform, so the song isn't resolved again until it expires
+   * Genres and release year come from the copy where the song has none
+   */
+  async borrowFeatures(song: CachedSong, copy: CachedSong): Promise<CachedSong> {
+    const cachedAt = Date.now();
+    const borrowed: CachedSong = {
+      ...song,
+      audioFeatures: { ...copy.audioFeatures, id: song.id },
+      featuresEstimated: false,
+      featuresFrom: copy.platform,
+      genres: song.genres.length > 0 ? song.genres : copy.genres,
+      releaseYear: song.releaseYear || copy.releaseYear,
+      cachedAt,
+      expiresAt: cachedAt + this.CACHE_TTL_MS,
     };
+
+    await this.cacheSong(borrowed);
+    return borrowed;
   }
 
   /**
    * Get audio features for a song (with caching)
-   * Converts to our internal AudioFeatures format
+   * Converts to our internal AudioFeatures format, with related artists
    */
-  async getAudioFeatures(songId: string, platform: 'spotify' = 'spotify'): Promise<AudioFeatures> {
+  async getAudioFeatures(songId: string, platform: Platform = 'spotify'): Promise<AudioFeatures> {
     const song = await this.getSongById(songId, platform);
+    return this.withRelatedArtists(this.toAudioFeatures(song), platform);
+  }
+
+  /**
+   * Get audio features for multiple songs (with caching)
+   * Returns a map keyed by song ID; unknown IDs are missing from the map
+   */
+  async getAudioFeaturesBatch(
+    songIds: string[],
+    platform: Platform = 'spotify'
+  ): Promise<Map<string, AudioFeatures>> {
+    const songs = await this.getSongsByIds(songIds, platform);
+    const features = await Promise.all(
+      songs.map((song) => this.withRelatedArtists(this.toAudioFeatures(song), platform))
+    );
+    return new Map(songs.map((song, i) => [song.id, features[i]!]));
+  }
+
+  /**
+   * Convert a cached song to our internal AudioFeatures format
+   * Songs cached before all credits were stored fall back to the main artist
+   */
+  toAudioFeatures(song: CachedSong): AudioFeatures {
+    const artists = song.artists ?? [{ id: song.artistId, name: song.artist }];
 
     return {
       valence: song.audioFeatures.valence,
@@ -109,10 +336,31 @@ export class SongCacheService {
       durationMs: song.audioFeatures.duration_ms,
       genres: song.genres,
       artist: song.artist,
+      artists: artists.map((artist) => artist.name),
+      artistIds: artists.map((artist) => artist.id).filter(Boolean),
       releaseYear: song.releaseYear,
+      instrumentalness: song.audioFeatures.instrumentalness,
+      liveness: song.audioFeatures.liveness,
+      speechiness: song.audioFeatures.speechiness,
+      featuresEstimated: song.featuresEstimated ?? false,
     };
   }
 
+  /**
+   * Add related artists from the artist graph
+   */
+  private async withRelatedArtists(
+    features: AudioFeatures,
+    platform: Platform
+  ): Promise<AudioFeatures> {
+    if (!features.artistIds || features.artistIds.length === 0) return features;
+    const relatedArtistIds = await this.artistGraphService.getRelatedArtistIds(
+      features.artistIds,
+      platform
+    );
+    return { ...features, relatedArtistIds };
+  }
+
   /**
    * Get cached song from database
    */
@@ -145,6 +393,24 @@ export class SongCacheService {
     }
   }
 
+  /**
+   * Get an unexpired cached song with an ISRC on a platform
+   * Returns null when none is cached
+   */
+  async getCachedSongByIsrc(isrc: string, platform: Platform): Promise<CachedSong | null> {
+    try {
+      const cached: { data: string } | null = await this.prisma.songCache.findFirst({
+        where: { isrc, platform, expiresAt: { gt: new Date() } },
+        select: { data: true },
+      });
+
+      return cached ? (JSON.parse(cached.data) as CachedSong) : null;
+    } catch (error) {
+      logger.error('Error retrieving cached song by ISRC:', error);
+      return null;
+    }
+  }
+
   /**
    * Cache song in database
    */
@@ -164,14 +430,18 @@ export class SongCacheService {
           songId: song.id,
           title: song.name,
           artist: song.artist,
+          isrc: song.isrc ?? null,
           data,
+          featuresEstimated: song.featuresEstimated ?? false,
           cachedAt: new Date(song.cachedAt),
           expiresAt: new Date(song.expiresAt),
         },
         update: {
           title: song.name,
           artist: song.artist,
+          isrc: song.isrc ?? null,
           data,
+          featuresEstimated: song.featuresEstimated ?? false,
           cachedAt: new Date(song.cachedAt),
           expiresAt: new Date(song.expiresAt),
         },
@@ -234,7 +504,11 @@ export class SongCacheService {
     byPlatform: Record<string, number>;
   }> {
     try {
-      const [total, expired, spotify] = await Promise.all([
+      const [total, expired, platforms]: [
+        number,
+        number,
+        { platform: string; _count: { _all: number } }[],
+      ] = await Promise.all([
         this.prisma.songCache.count(),
         this.prisma.songCache.count({
           where: {
@@ -243,19 +517,16 @@ export class SongCacheService {
             },
           },
         }),
-        this.prisma.songCache.count({
-          where: {
-            platform: 'spotify',
-          },
+        this.prisma.songCache.groupBy({
+          by: ['platform'],
+          _count: { _all: true },
         }),
       ]);
 
       return {
         totalCached: total,
         expired,
-        byPlatform: {
-          spotify,
-        },
+        byPlatform: Object.fromEntries(platforms.map((row) => [row.platform, row._count._all])),
       };
     } catch (error) {
       logger.error('Error getting cache stats:', error);
@@ -270,7 +541,7 @@ export class SongCacheService {
   /**
    * Invalidate specific song cache
    */
-  async invalidateSong(songId: string, platform: 'spotify' = 'spotify'): Promise<void> {
+  async invalidateSong(songId: string, platform: Platform = 'spotify'): Promise<void> {
     await this.deleteCachedSong(songId, platform);
     logger.info(`Invalidated cache for song: ${songId}`);
   }
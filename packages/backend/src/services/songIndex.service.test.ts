@@ -0,0 +1,194 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { SongIndexService } from './songIndex.service';
+import { MatchingService } from './matching.service';
+import { SongCacheService } from './songCache.service';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { ArtistGraphService } from './artistGraph.service';
+import { FeatureEstimationService } from './featureEstimation.service';
+import { AudioAnalysisService } from './audioAnalysis.service';
+import { CachedSong } from '../types/spotify.types';
+
+describe('SongIndexService', () => {
+  // Deterministic pseudo-random generator so the catalogue is stable
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const makeSong = (id: string, overrides: Partial<CachedSong> = {}): CachedSong => ({
+    id,
+    name: `Song ${id}`,
+    artist: `Artist ${Math.floor(random() * 20)}`,
+    artistId: 'artist',
+    album: 'Album',
+    albumId: 'album',
+    releaseYear: 1970 + Math.floor(random() * 55),
+    durationMs: 150000 + Math.floor(random() * 150000),
+    previewUrl: null,
+    externalUrl: `https://open.spotify.com/track/${id}`,
+    spotifyUrl: `https://open.spotify.com/track/${id}`,
+    imageUrl: null,
+    popularity: 50,
+    explicit: random() < 0.3,
+    audioFeatures: {
+      id,
+      valence: random(),
+      energy: random(),
+      danceability: random(),
+      tempo: 60 + random() * 120,
+      acousticness: random(),
+      key: Math.floor(random() * 12),
+      mode: random() < 0.5 ? 0 : 1,
+      time_signature: random() < 0.9 ? 4 : 3,
+      loudness: -20 + random() * 18,
+      duration_ms: 200000,
+      instrumentalness: random() * 0.5,
+      liveness: random() * 0.4,
+      speechiness: random() * 0.3,
+    },
+    genres: [random() < 0.5 ? 'indie rock' : 'dance pop'],
+    cachedAt: Date.now(),
+    expiresAt: Date.now() + 1000000,
+    platform: 'spotify',
+    ...overrides,
+  });
+
+  const catalogue = Array.from({ length: 300 }, (_, i) => makeSong(`song-${i}`));
+  const seedSong = catalogue[0]!;
+
+  let prisma: { songCache: { findMany: ReturnType<typeof vi.fn> } };
+  let matchingService: MatchingService;
+  let songCacheService: SongCacheService;
+  let service: SongIndexService;
+
+  beforeEach(() => {
+    prisma = {
+      songCache: {
+        findMany: vi
+          .fn()
+          .mockResolvedValue(catalogue.map((song) => ({ data: JSON.stringify(song) }))),
+      },
+    };
+    matchingService = new MatchingService();
+    songCacheService = new SongCacheService(
+      prisma as unknown as PrismaClient,
+      new ProviderRegistryService([]),
+      {} as ArtistGraphService,
+      {} as FeatureEstimationService,
+      {} as AudioAnalysisService
+    );
+    vi.spyOn(songCacheService, 'getAudioFeatures').mockImplementation(async () =>
+      songCacheService.toAudioFeatures(seedSong)
+    );
+    service = new SongIndexService(
+      prisma as unknown as PrismaClient,
+      matchingService,
+      songCacheService
+    );
+  });
+
+  const bruteForce = (filter: (song: CachedSong) => boolean = () => true) => {
+    const seedFeatures = songCacheService.toAudioFeatures(seedSong);
+    return catalogue
+      .filter((song) => song.id !== seedSong.id && filter(song))
+      .map((song) => ({
+        id: song.id,
+        score: matchingService.calculateMatch(seedFeatures, songCacheService.toAudioFeatures(song))
+          .overallScore,
+      }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  it('should return the same top-K scores as scoring every song', async () => {
+    const result = await service.findSimilar(seedSong.id, 'spotify', 10);
+    const expected = bruteForce().slice(0, 10);
+
+    expect(result.results.map((r) => r.score)).toEqual(expected.map((r) => r.score));
+    expect(result.results.map((r) => r.song.id)).not.toContain(seedSong.id);
+  });
+
+  it('should prune candidates instead of scoring every cached song', async () => {
+    const result = await service.findSimilar(seedSong.id, 'spotify', 5);
+
+    expect(result.candidates).toBe(catalogue.length - 1);
+    expect(result.scored).toBeLessThan(result.candidates);
+  });
+
+  it('should not prune songs whose missing tempo is left out of the score', async () => {
+    // Under 1.4 the unknown tempo is excluded, so the twin scores a perfect match
+    const twin = {
+      ...seedSong,
+      id: 'twin',
+      audioFeatures: { ...seedSong.audioFeatures, tempo: 0 },
+    };
+    const close = {
+      ...seedSong,
+      id: 'close',
+      audioFeatures: { ...seedSong.audioFeatures, valence: seedSong.audioFeatures.valence + 0.02 },
+    };
+    prisma.songCache.findMany.mockResolvedValue(
+      [seedSong, close, twin].map((song) => ({ data: JSON.stringify(song) }))
+    );
+
+    const result = await service.findSimilar(
+      seedSong.id,
+      'spotify',
+      1,
+      {},
+      { algorithmVersion: '1.4' }
+    );
+
+    expect(result.results.map((r) => r.song.id)).toEqual(['twin']);
+    expect(result.results[0]!.score).toBe(100);
+  });
+
+  it('should apply year, explicit and genre filters', async () => {
+    const result = await service.findSimilar(seedSong.id, 'spotify', 20, {
+      yearFrom: 1990,
+      yearTo: 2009,
+      explicit: false,
+      genre: 'rock',
+    });
+
+    expect(result.results.length).toBeGreaterThan(0);
+    for (const { song } of result.results) {
+      expect(song.releaseYear).toBeGreaterThanOrEqual(1990);
+      expect(song.releaseYear).toBeLessThanOrEqual(2009);
+      expect(song.explicit).toBe(false);
+    }
+
+    const expected = bruteForce(
+      (song) =>
+        song.releaseYear >= 1990 &&
+        song.releaseYear <= 2009 &&
+        !song.explicit &&
+        song.genres.includes('indie rock')
+    ).slice(0, 20);
+    expect(result.results.map((r) => r.score)).toEqual(expected.map((r) => r.score));
+  });
+
+  it('should find the songs closest to a hypothetical target', async () => {
+    const features = songCacheService.toAudioFeatures(catalogue[7]!);
+    const target = { ...features, energy: Math.abs(features.energy - 0.05) };
+
+    const nearest = await service.findNearest(target, 'spotify', 3, ['song-8']);
+
+    expect(nearest).toHaveLength(3);
+    expect(nearest[0]!.song.id).toBe('song-7');
+    expect(nearest[0]!.features.valence).toBe(features.valence);
+    expect(nearest.map(({ song }) => song.id)).not.toContain('song-8');
+  });
+
+  it('should reuse the index between queries until invalidated', async () => {
+    await service.findSimilar(seedSong.id);
+    await service.findSimilar(seedSong.id);
+    expect(prisma.songCache.findMany).toHaveBeenCalledTimes(1);
+
+    service.invalidate('spotify');
+    await service.findSimilar(seedSong.id);
+    expect(prisma.songCache.findMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,344 @@
+import { inject, injectable } from 'tsyringe';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { CachedSong } from '../types/spotify.types';
+import { Platform } from '../config/platforms';
+import { AudioFeatures, ComponentWeights, MatchOptions } from '../types/music.types';
+import { MatchingService } from './matching.service';
+import { SongCacheService } from './songCache.service';
+
+/**
+ * Filters for nearest-neighbour search
+ */
+export interface SimilarSongFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  explicit?: boolean; // Only explicit (true) or only clean (false) songs
+  genre?: string; // Substring match, e.g. "rock" matches "indie rock"
+}
+
+/**
+ * A ranked nearest-neighbour result
+ */
+export interface SimilarSong {
+  song: Pick<
+    CachedSong,
+    'id' | 'name' | 'artist' | 'album' | 'releaseYear' | 'imageUrl' | 'previewUrl' | 'explicit'
+  >;
+  score: number; // 0-100 match score against the seed
+  confidence: number;
+}
+
+/**
+ * A cached song close to a target feature vector
+ */
+export interface NearestSong {
+  song: SimilarSong['song'];
+  features: AudioFeatures;
+}
+
+export interface SimilarSongsResult {
+  seedId: string;
+  results: SimilarSong[];
+  candidates: number; // Songs passing the filters
+  scored: number; // Songs fully scored (the rest were pruned)
+}
+
+/**
+ * Index entry: song plus pre-normalized Layer 1 vector
+ */
+interface IndexEntry {
+  song: CachedSong;
+  features: AudioFeatures;
+  // [valence, energy, danceability, acousticness, tempo / TEMPO_SCALE]
+  vector: Float64Array;
+  genres: string[]; // Lowercased
+}
+
+/**
+ * SongIndexService
+ *
+ * In-process feature index over the SongCache table for "find best matches"
+ * queries. Candidates are ranked by an upper bound computed from Layer 1
+ * features alone; full MatchingService scoring stops as soon as no remaining
+ * candidate can beat the current top-K.
+ *
+ * The index is rebuilt lazily once it is older than INDEX_TTL_MS.
+ */
+@injectable()
+export class SongIndexService {
+  private readonly INDEX_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+  // Tempo similarity is linear over 50 BPM, so this makes |a - b| the tempo penalty
+  private readonly TEMPO_SCALE = 50;
+
+  // Octave-related tempos still score 0.7 (see MatchingService.tempoSimilarity)
+  private readonly TEMPO_OCTAVE_FLOOR = 0.7;
+
+  private entries = new Map<string, IndexEntry[]>(); // By platform
+  private builtAt = new Map<string, number>();
+  private building = new Map<string, Promise<IndexEntry[]>>();
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private matchingService: MatchingService,
+    private songCacheService: SongCacheService
+  ) {}
+
+  /**
+   * Find the top-K cached songs most similar to a seed song
+   */
+  async findSimilar(
+    seedId: string,
+    platform: Platform = 'spotify',
+    limit = 10,
+    filters: SimilarSongFilters = {},
+    options: MatchOptions = {}
+  ): Promise<SimilarSongsResult> {
+    const [seed, index] = await Promise.all([
+      this.songCacheService.getAudioFeatures(seedId, platform),
+      this.getIndex(platform),
+    ]);
+
+    const weights = this.matchingService.getWeightProfile(
+      options.weightProfile,
+      options.algorithmVersion
+    ).weights;
+    const excludeMissing =
+      this.matchingService.getAlgorithm(options.algorithmVersion).missingFeatures === 'exclude';
+    const seedVector = this.toVector(seed);
+
+    const candidates = index.filter(
+      (entry) => entry.song.id !== seedId && this.matchesFilters(entry, filters)
+    );
+
+    // Rank by optimistic bound so the most promising songs are scored first
+    const ranked = candidates
+      .map((entry) => ({
+        entry,
+        bound: this.upperBound(seedVector, entry.vector, weights, excludeMissing),
+      }))
+      .sort((a, b) => b.bound - a.bound);
+
+    const top: SimilarSong[] = [];
+    let scored = 0;
+
+    for (const { entry, bound } of ranked) {
+      // Scores are rounded, so a candidate can only tie the K-th best if its
+      // raw score is within 0.5 of it
+      const worst = top[top.length - 1];
+      if (top.length === limit && worst && bound * 100 < worst.score - 0.5) break;
+
+      const result = this.matchingService.calculateMatch(seed, entry.features, options);
+      scored++;
+
+      if (top.length < limit || (worst && result.overallScore > worst.score)) {
+        this.insertRanked(top, {
+          song: this.summarize(entry.song),
+          score: result.overallScore,
+          confidence: result.confidence,
+        });
+        if (top.length > limit) top.pop();
+      }
+    }
+
+    logger.debug(
+      `Similar songs for ${seedId}: ${candidates.length} candidates, ${scored} scored`
+    );
+
+    return { seedId, results: top, candidates: candidates.length, scored };
+  }
+
+  /**
+   * Find the cached songs whose Layer 1 features are closest to a target
+   * The target can be a hypothetical song (see CounterfactualService)
+   */
+  async findNearest(
+    target: AudioFeatures,
+    platform: Platform = 'spotify',
+    limit = 10,
+    excludeIds: string[] = []
+  ): Promise<NearestSong[]> {
+    const index = await this.getIndex(platform);
+    const targetVector = this.toVector(target);
+    const excluded = new Set(excludeIds);
+
+    return index
+      .filter((entry) => !excluded.has(entry.song.id))
+      .map((entry) => ({ entry, distance: this.distance(targetVector, entry.vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ entry }) => ({ song: this.summarize(entry.song), features: entry.features }));
+  }
+
+  /**
+   * Drop the index so the next query rebuilds it
+   */
+  invalidate(platform?: string): void {
+    if (platform) {
+      this.entries.delete(platform);
+      this.builtAt.delete(platform);
+    } else {
+      this.entries.clear();
+      this.builtAt.clear();
+    }
+  }
+
+  /**
+   * Get the index for a platform, rebuilding it if stale
+   * Concurrent callers share a single rebuild
+   */
+  private async getIndex(platform: string): Promise<IndexEntry[]> {
+    const builtAt = this.builtAt.get(platform) || 0;
+    const current = this.entries.get(platform);
+    if (current && Date.now() - builtAt < this.INDEX_TTL_MS) {
+      return current;
+    }
+
+    let pending = this.building.get(platform);
+    if (!pending) {
+      pending = this.buildIndex(platform).finally(() => this.building.delete(platform));
+      this.building.set(platform, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Load all unexpired cached songs and pre-compute their vectors
+   */
+  private async buildIndex(platform: string): Promise<IndexEntry[]> {
+    const startTime = performance.now();
+
+    const rows: { data: string }[] = await this.prisma.songCache.findMany({
+      where: {
+        platform,
+        expiresAt: { gt: new Date() },
+      },
+      select: { data: true },
+    });
+
+    const entries: IndexEntry[] = [];
+    for (const row of rows) {
+      try {
+        const song = JSON.parse(row.data) as CachedSong;
+        const features = this.songCacheService.toAudioFeatures(song);
+        entries.push({
+          song,
+          features,
+          vector: this.toVector(features),
+          genres: song.genres.map((genre) => genre.toLowerCase()),
+        });
+      } catch (error) {
+        logger.warn('Skipping unreadable song cache row while building index:', error);
+      }
+    }
+
+    this.entries.set(platform, entries);
+    this.builtAt.set(platform, Date.now());
+
+    const durationMs = Math.round(performance.now() - startTime);
+    logger.info(`Built ${platform} song index: ${entries.length} songs in ${durationMs}ms`);
+
+    return entries;
+  }
+
+  private toVector(features: AudioFeatures): Float64Array {
+    return Float64Array.of(
+      features.valence,
+      features.energy,
+      features.danceability,
+      features.acousticness,
+      features.tempo / this.TEMPO_SCALE
+    );
+  }
+
+  /**
+   * Upper bound on the 0-1 overall score using Layer 1 only
+   * Every other component is assumed to match perfectly. This stays a valid
+   * bound when Layer 4 drops out, because missing layers only shrink the
+   * remaining weight the score is normalized by.
+   * Features missing on either side are bounded the way MatchingService
+   * scores them: left out with the rest renormalized (excludeMissing),
+   * otherwise as a perfect match, above the neutral score they get.
+   */
+  private upperBound(
+    seed: Float64Array,
+    candidate: Float64Array,
+    weights: ComponentWeights,
+    excludeMissing: boolean
+  ): number {
+    // In toVector order; unknown tempos are 0
+    const layer1Weights = [
+      weights.valence,
+      weights.energy,
+      weights.danceability,
+      weights.acousticness,
+      weights.tempo,
+    ];
+    const tempoIndex = 4;
+
+    let bound = 0;
+    let scoredWeight = 0;
+    layer1Weights.forEach((weight, i) => {
+      const [a, b] = [seed[i]!, candidate[i]!];
+      const known = i === tempoIndex ? a > 0 && b > 0 : Number.isFinite(a) && Number.isFinite(b);
+      if (!known && excludeMissing) return;
+
+      const difference = known ? Math.abs(a - b) : 0;
+      const similarity =
+        i === tempoIndex ? Math.max(this.TEMPO_OCTAVE_FLOOR, 1 - difference) : 1 - difference;
+      bound += weight * similarity;
+      scoredWeight += weight;
+    });
+
+    // Every other component, assumed to match perfectly
+    const rest = 1 - layer1Weights.reduce((sum, weight) => sum + weight, 0);
+    return scoredWeight + rest > 0 ? (bound + rest) / (scoredWeight + rest) : 1;
+  }
+
+  /**
+   * L1 distance between two Layer 1 vectors
+   */
+  private distance(a: Float64Array, b: Float64Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i]! - b[i]!);
+    return sum;
+  }
+
+  private matchesFilters(entry: IndexEntry, filters: SimilarSongFilters): boolean {
+    const { releaseYear, explicit } = entry.song;
+
+    if (filters.yearFrom !== undefined && releaseYear < filters.yearFrom) return false;
+    if (filters.yearTo !== undefined && releaseYear > filters.yearTo) return false;
+    if (filters.explicit !== undefined && explicit !== filters.explicit) return false;
+
+    if (filters.genre) {
+      const wanted = filters.genre.toLowerCase();
+      if (!entry.genres.some((genre) => genre.includes(wanted))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Insert keeping results sorted by score (descending)
+   */
+  private insertRanked(top: SimilarSong[], item: SimilarSong): void {
+    const index = top.findIndex((existing) => item.score > existing.score);
+    if (index === -1) top.push(item);
+    else top.splice(index, 0, item);
+  }
+
+  private summarize(song: CachedSong): SimilarSong['song'] {
+    return {
+      id: song.id,
+      name: song.name,
+      artist: song.artist,
+      album: song.album,
+      releaseYear: song.releaseYear,
+      imageUrl: song.imageUrl,
+      previewUrl: song.previewUrl,
+      explicit: song.explicit,
+    };
+  }
+}
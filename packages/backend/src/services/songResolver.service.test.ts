@@ -0,0 +1,196 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SongResolverService } from './songResolver.service';
+import { SongCacheService } from './songCache.service';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { Platform } from '../config/platforms';
+import { CachedSong } from '../types/spotify.types';
+import { MusicProvider, ProviderTrack } from '../types/provider.types';
+
+describe('SongResolverService', () => {
+  const makeSong = (
+    platform: Platform,
+    id: string,
+    overrides: Partial<CachedSong> = {}
+  ): CachedSong => ({
+    id,
+    name: 'We Found Love',
+    artist: 'Rihanna feat. Calvin Harris',
+    artistId: `${platform}-rihanna`,
+    album: 'Talk That Talk',
+    albumId: 'album',
+    releaseYear: 2011,
+    durationMs: 215227,
+    previewUrl: null,
+    externalUrl: `https://example.com/${platform}/${id}`,
+    imageUrl: null,
+    popularity: 50,
+    explicit: false,
+    audioFeatures: {
+      id,
+      valence: 0.6,
+      energy: 0.77,
+      danceability: 0.73,
+      tempo: 128,
+      acousticness: 0.03,
+      key: 1,
+      mode: 1,
+      time_signature: 4,
+      loudness: -4.5,
+      duration_ms: 215227,
+      instrumentalness: 0,
+      liveness: 0.1,
+      speechiness: 0.04,
+    },
+    genres: ['dance pop'],
+    cachedAt: Date.now(),
+    expiresAt: Date.now() + 1000000,
+    platform,
+    ...overrides,
+  });
+
+  const track = (song: CachedSong): ProviderTrack => {
+    const { audioFeatures, featuresEstimated, cachedAt, expiresAt, ...metadata } = song;
+    return metadata;
+  };
+
+  const apple = makeSong('apple', 'ap-1', {
+    isrc: 'USUM71115208',
+    featuresEstimated: true,
+    audioFeatures: { ...makeSong('apple', 'ap-1').audioFeatures, tempo: 100 },
+    genres: [],
+  });
+  const spotify = makeSong('spotify', 'sp-1', { isrc: 'USUM71115208' });
+
+  let songs: Map<string, CachedSong>;
+  let songCacheService: Record<
+    'getSongById' | 'getAudioFeatures' | 'getCachedSongByIsrc' | 'borrowFeatures',
+    ReturnType<typeof vi.fn>
+  >;
+  let spotifyProvider: Record<'search' | 'findByIsrc', ReturnType<typeof vi.fn>>;
+  let resolver: SongResolverService;
+
+  beforeEach(() => {
+    songs = new Map([apple, spotify].map((song) => [`${song.platform}:${song.id}`, song]));
+    const toAudioFeatures = (song: CachedSong) => SongCacheService.prototype.toAudioFeatures(song);
+    const getSongById = async (id: string, platform: Platform) => songs.get(`${platform}:${id}`)!;
+
+    songCacheService = {
+      getSongById: vi.fn(getSongById),
+      getAudioFeatures: vi.fn(async (id: string, platform: Platform) =>
+        toAudioFeatures(await getSongById(id, platform))
+      ),
+      getCachedSongByIsrc: vi.fn(async () => null),
+      borrowFeatures: vi.fn(async (song: CachedSong, copy: CachedSong) => {
+        const borrowed = {
+          ...song,
+          audioFeatures: { ...copy.audioFeatures, id: song.id },
+          featuresEstimated: false,
+          genres: song.genres.length > 0 ? song.genres : copy.genres,
+        };
+        songs.set(`${song.platform}:${song.id}`, borrowed);
+        return borrowed;
+      }),
+    };
+    spotifyProvider = {
+      search: vi.fn(async () => ({ tracks: [], total: 0, limit: 10, offset: 0, hasMore: false })),
+      findByIsrc: vi.fn(async () => [track(spotify)]),
+    };
+
+    const providers = new ProviderRegistryService([
+      { platform: 'spotify', ...spotifyProvider } as unknown as MusicProvider,
+      { platform: 'apple' } as unknown as MusicProvider,
+    ]);
+    resolver = new SongResolverService(
+      Object.assign(songCacheService, { toAudioFeatures }) as unknown as SongCacheService,
+      providers
+    );
+  });
+
+  it('should prefer a cached song with the same ISRC', async () => {
+    songCacheService.getCachedSongByIsrc.mockResolvedValueOnce(spotify);
+
+    const copy = await resolver.findOnPlatform(apple, 'spotify');
+
+    expect(copy).toBe(spotify);
+    expect(songCacheService.getCachedSongByIsrc).toHaveBeenCalledWith('USUM71115208', 'spotify');
+    expect(spotifyProvider.findByIsrc).not.toHaveBeenCalled();
+  });
+
+  it("should look up the ISRC on the other platform when it isn't cached", async () => {
+    const copy = await resolver.findOnPlatform(apple, 'spotify');
+
+    expect(spotifyProvider.findByIsrc).toHaveBeenCalledWith('USUM71115208');
+    expect(copy).toBe(spotify);
+    expect(spotifyProvider.search).not.toHaveBeenCalled();
+  });
+
+  it('should match by title, artist and duration without an ISRC', async () => {
+    const withoutIsrc = { ...apple, isrc: undefined, name: 'We Found Love (feat. Calvin Harris)' };
+    const edit = makeSong('spotify', 'sp-edit', { name: 'We Found Love - Radio Edit' });
+    const short = makeSong('spotify', 'sp-short', { durationMs: 180000 });
+    const cover = makeSong('spotify', 'sp-cover', { artist: 'Cover Band', artists: undefined });
+    songs.set('spotify:sp-edit', edit);
+    spotifyProvider.search.mockResolvedValueOnce({
+      tracks: [edit, short, cover, spotify].map(track),
+      total: 4,
+      limit: 10,
+      offset: 0,
+      hasMore: false,
+    });
+
+    const copy = await resolver.findOnPlatform(withoutIsrc, 'spotify');
+
+    expect(spotifyProvider.search).toHaveBeenCalledWith({
+      query: 'We Found Love (feat. Calvin Harris) Rihanna feat. Calvin Harris',
+      limit: 10,
+    });
+    expect(copy).toBe(spotify);
+  });
+
+  it('should treat lookup failures as not found', async () => {
+    spotifyProvider.findByIsrc.mockRejectedValueOnce(new Error('Spotify is down'));
+
+    await expect(resolver.findOnPlatform(apple, 'spotify')).resolves.toBeNull();
+  });
+
+  it('should borrow measured features and keep the song metadata', async () => {
+    const features = await resolver.getAudioFeatures({ platform: 'apple', id: 'ap-1' });
+
+    expect(features).toMatchObject({
+      tempo: 128,
+      featuresEstimated: false,
+      artistIds: ['apple-rihanna'],
+      genres: ['dance pop'],
+    });
+  });
+
+  it('should only resolve a song once its borrowed features are cached', async () => {
+    await resolver.getAudioFeatures({ platform: 'apple', id: 'ap-1' });
+    const features = await resolver.getAudioFeatures({ platform: 'apple', id: 'ap-1' });
+
+    expect(songCacheService.borrowFeatures).toHaveBeenCalledWith(apple, spotify);
+    expect(spotifyProvider.findByIsrc).toHaveBeenCalledTimes(1);
+    expect(features).toMatchObject({ tempo: 128, featuresEstimated: false });
+  });
+
+  it('should keep measured features without resolving', async () => {
+    const features = await resolver.getAudioFeatures({ platform: 'spotify', id: 'sp-1' });
+
+    expect(features.tempo).toBe(128);
+    expect(spotifyProvider.findByIsrc).not.toHaveBeenCalled();
+  });
+
+  it('should resolve a song to its ISRC and copies', async () => {
+    const recording = await resolver.resolve({ platform: 'apple', id: 'ap-1' });
+
+    expect(recording).toEqual({
+      id: 'isrc:USUM71115208',
+      isrc: 'USUM71115208',
+      songs: [
+        { platform: 'apple', id: 'ap-1' },
+        { platform: 'spotify', id: 'sp-1' },
+      ],
+    });
+  });
+});
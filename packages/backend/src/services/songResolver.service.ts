@@ -0,0 +1,187 @@
+import { injectable } from 'tsyringe';
+import { logger } from '../utils/logger';
+import { normalizeArtistName, splitArtistCredit } from '../utils/artistNames';
+import { Platform } from '../config/platforms';
+import { CachedSong } from '../types/spotify.types';
+import { ProviderTrack, SongRef } from '../types/provider.types';
+import { AudioFeatures } from '../types/music.types';
+import { ProviderRegistryService } from './providerRegistry.service';
+import { SongCacheService } from './songCache.service';
+
+// Bracketed or dashed suffixes that don't change the recording:
+// "(feat. X)", "[with X]", "- Remastered 2011", "- 2011 Remaster"
+const FEATURED_ARTISTS = /\s*[([]\s*(?:feat\.?|ft\.?|featuring|with)\b[^)\]]*[)\]]/gi;
+const REMASTER_LABEL = /\s*-\s+(?:\d{4}\s+)?remaster(?:ed)?\b.*$/i;
+
+/**
+ * The recording behind a platform song, with its copies on other platforms
+ */
+export interface CanonicalRecording {
+  id: string; // isrc:CODE, or platform:trackId when no ISRC is known
+  isrc: string | null;
+  songs: SongRef[]; // Known copies, the requested song first
+}
+
+/**
+ * SongResolverService
+ *
+ * Maps a song on one platform to the same recording on the others:
+ * - By ISRC: a cached song with the same code, then the platform's ISRC lookup
+ * - Otherwise by normalized title and artist, with durations within a few seconds
+ *
+ * Platforms without measured audio features (Apple Music, YouTube without a
+ * Spotify match) borrow them from a copy that has them, so songs from
+ * different platforms can be matched on equal terms.
+ */
+@injectable()
+export class SongResolverService {
+  private readonly SEARCH_CANDIDATES = 10;
+  private readonly MIN_TITLE_SIMILARITY = 0.8; // Share of title words in common
+  private readonly DURATION_TOLERANCE_MS = 5000;
+
+  constructor(
+    private songCacheService: SongCacheService,
+    private providers: ProviderRegistryService
+  ) {}
+
+  /**
+   * The canonical recording of a song, with its copies on all registered platforms
+   */
+  async resolve(ref: SongRef): Promise<CanonicalRecording> {
+    const song = await this.songCacheService.getSongById(ref.id, ref.platform);
+    const songs: SongRef[] = [ref];
+    let isrc = song.isrc ?? null;
+
+    for (const platform of this.otherPlatforms(ref.platform)) {
+      const copy = await this.findOnPlatform(song, platform);
+      if (!copy) continue;
+      songs.push({ platform, id: copy.id });
+      isrc ??= copy.isrc ?? null;
+    }
+
+    return { id: isrc ? `isrc:${isrc}` : `${ref.platform}:${ref.id}`, isrc, songs };
+  }
+
+  /**
+   * Audio features of a song, measured ones from another platform's copy
+   * when the song's own are estimated
+   * Metadata (artists, genres, release year) stays the song's own, filled
+   * in from the copy where the platform has none. Borrowed features are
+   * cached with the song, so each song is only resolved once
+   */
+  async getAudioFeatures(ref: SongRef): Promise<AudioFeatures> {
+    const features = await this.songCacheService.getAudioFeatures(ref.id, ref.platform);
+    if (!features.featuresEstimated) return features;
+
+    const song = await this.songCacheService.getSongById(ref.id, ref.platform);
+    for (const platform of this.otherPlatforms(ref.platform)) {
+      const copy = await this.findOnPlatform(song, platform);
+      if (!copy || copy.featuresEstimated) continue;
+
+      logger.debug(`Using ${platform} features for ${ref.platform}:${ref.id}`);
+      const borrowed = await this.songCacheService.borrowFeatures(song, copy);
+      return {
+        ...this.songCacheService.toAudioFeatures(borrowed),
+        relatedArtistIds: features.relatedArtistIds,
+      };
+    }
+
+    return features;
+  }
+
+  /**
+   * The same recording on another platform, or null if it can't be found
+   * Lookup failures are logged and treated as not found
+   */
+  async findOnPlatform(song: CachedSong, platform: Platform): Promise<CachedSong | null> {
+    if (song.platform === platform) return song;
+
+    try {
+      const provider = this.providers.get(platform);
+
+      if (song.isrc) {
+        const cached = await this.songCacheService.getCachedSongByIsrc(song.isrc, platform);
+        if (cached) return cached;
+
+        const [track] = (await provider.findByIsrc?.(song.isrc)) ?? [];
+        if (track) return this.songCacheService.getSongById(track.id, platform);
+      }
+
+      const { tracks } = await provider.search({
+        query: `${song.name} ${song.artist}`,
+        limit: this.SEARCH_CANDIDATES,
+      });
+      const match = this.bestMatch(song, tracks);
+      return match ? this.songCacheService.getSongById(match.id, platform) : null;
+    } catch (error) {
+      logger.warn(`Could not resolve ${song.platform}:${song.id} on ${platform}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Search result that is the same recording
+   * Same ISRC, or title words and an artist in common with a near-identical
+   * duration; closest title first, then closest duration
+   */
+  private bestMatch(song: CachedSong, candidates: ProviderTrack[]): ProviderTrack | null {
+    const sameIsrc = song.isrc && candidates.find((candidate) => candidate.isrc === song.isrc);
+    if (sameIsrc) return sameIsrc;
+
+    const title = this.titleWords(song.name);
+    const artists = this.artistNames(song);
+
+    const matches = candidates
+      .filter((candidate) => [...this.artistNames(candidate)].some((name) => artists.has(name)))
+      .filter(
+        (candidate) =>
+          song.durationMs > 0 &&
+          Math.abs(candidate.durationMs - song.durationMs) <= this.DURATION_TOLERANCE_MS
+      )
+      .map((candidate) => ({
+        candidate,
+        similarity: this.jaccard(title, this.titleWords(candidate.name)),
+        durationDiff: Math.abs(candidate.durationMs - song.durationMs),
+      }))
+      .filter((match) => match.similarity >= this.MIN_TITLE_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity || a.durationDiff - b.durationDiff);
+
+    return matches[0]?.candidate ?? null;
+  }
+
+  /**
+   * Normalized title words, without featured artists and remaster labels
+   */
+  private titleWords(title: string): Set<string> {
+    const normalized = title
+      .replace(FEATURED_ARTISTS, '')
+      .replace(REMASTER_LABEL, '')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+    return new Set(normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+  }
+
+  /**
+   * Normalized names of every credited artist
+   */
+  private artistNames(song: Pick<CachedSong, 'artist' | 'artists'>): Set<string> {
+    return new Set([
+      ...splitArtistCredit(song.artist),
+      ...(song.artists ?? []).map((artist) => normalizeArtistName(artist.name)),
+    ]);
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    const shared = [...a].filter((word) => b.has(word)).length;
+    const total = new Set([...a, ...b]).size;
+    return total === 0 ? 0 : shared / total;
+  }
+
+  /**
+   * Registered platforms other than the song's, in registration order
+   */
+  private otherPlatforms(platform: Platform): Platform[] {
+    return this.providers.platforms().filter((other) => other !== platform);
+  }
+}
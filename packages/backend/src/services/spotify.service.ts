@@ -10,9 +10,10 @@ import {
   SpotifyTokenResponse,
   SpotifyTopTracksResponse,
   SpotifyRecentlyPlayedResponse,
+  SpotifyRelatedArtistsResponse,
+  SpotifyArtist,
   SpotifyError,
   SongSearchFilters,
-  CachedSong,
 } from '../types/spotify.types';
 
 /**
@@ -159,6 +160,33 @@ export class SpotifyService {
     }
   }
 
+  /**
+   * Get multiple tracks at once (more efficient)
+   */
+  async getMultipleTracks(trackIds: string[], market?: string): Promise<SpotifyTrack[]> {
+    try {
+      // Spotify allows max 50 IDs at once
+      if (trackIds.length > 50) {
+        throw new AppError(400, 'INVALID_REQUEST', 'Maximum 50 track IDs allowed');
+      }
+
+      const params = new URLSearchParams({ ids: trackIds.join(',') });
+      if (market) {
+        params.append('market', market);
+      }
+
+      const response = await this.axiosInstance.get<{ tracks: (SpotifyTrack | null)[] }>(
+        `/tracks?${params.toString()}`
+      );
+
+      // Unknown IDs come back as null entries
+      return response.data.tracks.filter((track): track is SpotifyTrack => track !== null);
+    } catch (error) {
+      logger.error('Error getting multiple tracks:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get audio features for a track
    */
@@ -196,6 +224,23 @@ export class SpotifyService {
     }
   }
 
+  /**
+   * Get artists related to an artist, most related first
+   * Based on similarity of listener behaviour, as computed by Spotify
+   */
+  async getRelatedArtists(artistId: string): Promise<SpotifyArtist[]> {
+    try {
+      const response = await this.axiosInstance.get<SpotifyRelatedArtistsResponse>(
+        `/artists/${artistId}/related-artists`
+      );
+
+      return response.data.artists;
+    } catch (error) {
+      logger.error(`Error getting related artists for ${artistId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get user's top tracks (requires user access token)
    */
@@ -269,53 +314,6 @@ export class SpotifyService {
     }
   }
 
-  /**
-   * Convert Spotify track + audio features to our CachedSong format
-   */
-  async convertToCachedSong(
-    track: SpotifyTrack,
-    audioFeatures?: SpotifyAudioFeatures
-  ): Promise<CachedSong> {
-    // Get audio features if not provided
-    if (!audioFeatures) {
-      audioFeatures = await this.getAudioFeatures(track.id);
-    }
-
-    // Extract release year
-    const releaseYear = track.album.release_date
-      ? parseInt(track.album.release_date.substring(0, 4))
-      : 0;
-
-    // Get largest album image
-    const imageUrl = track.album.images.length > 0
-      ? track.album.images[0].url
-      : null;
-
-    const now = Date.now();
-    const thirtyDays = 30 * 24 * 60 * 60 * 1000;
-
-    return {
-      id: track.id,
-      name: track.name,
-      artist: track.artists[0]?.name || 'Unknown Artist',
-      artistId: track.artists[0]?.id || '',
-      album: track.album.name,
-      albumId: track.album.id,
-      releaseYear,
-      durationMs: track.duration_ms,
-      previewUrl: track.preview_url,
-      spotifyUrl: track.external_urls.spotify,
-      imageUrl,
-      popularity: track.popularity,
-      explicit: track.explicit,
-      audioFeatures,
-      genres: track.artists[0]?.genres || [],
-      cachedAt: now,
-      expiresAt: now + thirtyDays,
-      platform: 'spotify',
-    };
-  }
-
   /**
    * Handle API errors and convert to AppError
    */
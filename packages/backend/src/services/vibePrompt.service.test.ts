@@ -0,0 +1,59 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach } from 'vitest';
+import catalogue from '../data/vibePrompts.json' with { type: 'json' };
+import { VibePromptService } from './vibePrompt.service';
+import { GenreTaxonomyService } from './genreTaxonomy.service';
+import { SUPPORTED_LOCALES } from '../config/locales';
+import { FeatureRange } from '../types/music.types';
+
+describe('VibePromptService', () => {
+  let service: VibePromptService;
+
+  beforeEach(() => {
+    service = new VibePromptService();
+  });
+
+  it('should ship well-formed prompts', () => {
+    const taxonomy = new GenreTaxonomyService();
+    const ids = catalogue.prompts.map((prompt) => prompt.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const prompt of service.list()) {
+      const ranges = Object.values(prompt.target.features) as FeatureRange[];
+      for (const { min, max } of ranges) {
+        expect(min !== undefined || max !== undefined, prompt.id).toBe(true);
+        if (min !== undefined && max !== undefined) expect(min, prompt.id).toBeLessThan(max);
+      }
+      if (prompt.target.era) {
+        expect(prompt.target.era.from, prompt.id).toBeLessThanOrEqual(prompt.target.era.to);
+      }
+      for (const genre of prompt.target.genres ?? []) {
+        expect(taxonomy.resolve(genre), `${prompt.id}: ${genre}`).not.toBeNull();
+      }
+    }
+  });
+
+  it('should translate every prompt', () => {
+    for (const locale of SUPPORTED_LOCALES) {
+      for (const prompt of catalogue.prompts) {
+        expect(prompt.name[locale], `${prompt.id} (${locale})`).toBeTruthy();
+        expect(prompt.description[locale], `${prompt.id} (${locale})`).toBeTruthy();
+      }
+    }
+  });
+
+  it('should get a prompt in the requested locale', () => {
+    const prompt = service.getPrompt('sad-and-slow', 'es');
+
+    expect(prompt.name).toBe('Triste y lenta');
+    expect(prompt.target.features.tempo).toEqual({ max: 90 });
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => service.getPrompt('nope')).toThrow('Prompt not found: nope');
+    expect(() => service.validatePromptIds(['sad-and-slow', 'nope'])).toThrow(
+      'Unknown prompts: nope'
+    );
+    expect(() => service.validatePromptIds(['sad-and-slow', 'study-focus'])).not.toThrow();
+  });
+});
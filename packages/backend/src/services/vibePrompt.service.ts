@@ -0,0 +1,68 @@
+import { injectable } from 'tsyringe';
+import catalogue from '../data/vibePrompts.json' with { type: 'json' };
+import { AppError } from '../middleware/errorHandler';
+import { DEFAULT_LOCALE, Locale } from '../config/locales';
+import { TargetProfile, VibePrompt } from '../types/music.types';
+
+/**
+ * A prompt as stored in data/vibePrompts.json, with text for every locale
+ */
+interface StoredPrompt {
+  id: string;
+  name: Record<Locale, string>;
+  description: Record<Locale, string>;
+  target: TargetProfile;
+}
+
+/**
+ * VibePromptService
+ *
+ * Curated catalogue of prompts for prompt rounds, where players pick the song
+ * that best fits a target profile ("sad and slow", "80s dance floor") instead
+ * of matching the opponent's song. Prompts are chosen by ID when a game is
+ * created (GameSession.promptIds); songs are scored against a prompt's target
+ * with MatchingService.calculateTargetMatch.
+ */
+@injectable()
+export class VibePromptService {
+  private readonly prompts = new Map<string, StoredPrompt>(
+    (catalogue.prompts as StoredPrompt[]).map((prompt) => [prompt.id, prompt])
+  );
+
+  /**
+   * All prompts, in catalogue order
+   */
+  list(locale: Locale = DEFAULT_LOCALE): VibePrompt[] {
+    return [...this.prompts.values()].map((prompt) => this.localize(prompt, locale));
+  }
+
+  /**
+   * Get a prompt by ID
+   */
+  getPrompt(promptId: string, locale: Locale = DEFAULT_LOCALE): VibePrompt {
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) {
+      throw new AppError(404, 'NOT_FOUND', `Prompt not found: ${promptId}`);
+    }
+    return this.localize(prompt, locale);
+  }
+
+  /**
+   * Check prompt IDs chosen for a game, e.g. when it is created
+   */
+  validatePromptIds(promptIds: string[]): void {
+    const unknown = promptIds.filter((id) => !this.prompts.has(id));
+    if (unknown.length > 0) {
+      throw new AppError(400, 'INVALID_PROMPT', `Unknown prompts: ${unknown.join(', ')}`);
+    }
+  }
+
+  private localize(prompt: StoredPrompt, locale: Locale): VibePrompt {
+    return {
+      id: prompt.id,
+      name: prompt.name[locale] ?? prompt.name[DEFAULT_LOCALE],
+      description: prompt.description[locale] ?? prompt.description[DEFAULT_LOCALE],
+      target: prompt.target,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { WeightCalibrationService, RatedMatch } from './weightCalibration.service';
+import { MatchingService } from './matching.service';
+import { MATCH_COMPONENTS, validateComponentWeights } from '../config/weightProfiles';
+import { AudioFeatures, ComponentWeights } from '../types/music.types';
+
+describe('WeightCalibrationService', () => {
+  // Deterministic pseudo-random generator so the samples are stable
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  // Raters in this synthetic set only care about energy and tempo
+  const raterWeights = Object.fromEntries(
+    MATCH_COMPONENTS.map((component) => [component, 0])
+  ) as ComponentWeights;
+  raterWeights.energy = 0.6;
+  raterWeights.tempo = 0.4;
+
+  const samples: RatedMatch[] = Array.from({ length: 120 }, () => {
+    const similarities = Object.fromEntries(
+      MATCH_COMPONENTS.map((component) => [component, random()])
+    ) as ComponentWeights;
+    const score =
+      raterWeights.energy * similarities.energy + raterWeights.tempo * similarities.tempo;
+    return { similarities, humanScore: Math.round(score * 100 + (random() - 0.5) * 10) };
+  });
+
+  let prisma: { matchHistory: { findMany: ReturnType<typeof vi.fn> } };
+  let service: WeightCalibrationService;
+
+  beforeEach(() => {
+    prisma = { matchHistory: { findMany: vi.fn() } };
+    service = new WeightCalibrationService(
+      prisma as unknown as PrismaClient,
+      new MatchingService()
+    );
+  });
+
+  it('should improve correlation with human scores', () => {
+    const report = service.calibrate(samples);
+
+    expect(report.samples).toBe(samples.length);
+    expect(report.after.pearson).toBeGreaterThan(report.before.pearson);
+    expect(report.after.pearson).toBeGreaterThan(report.targetCorrelation);
+    expect(report.after.meanAbsoluteError).toBeLessThan(report.before.meanAbsoluteError);
+  });
+
+  it('should shift weight towards the components raters care about', () => {
+    const { weights } = service.calibrate(samples);
+
+    expect(weights.energy + weights.tempo).toBeGreaterThan(0.6);
+    expect(weights.genre).toBeLessThan(0.05);
+  });
+
+  it('should emit valid, rounded weights', () => {
+    const { weights } = service.calibrate(samples);
+
+    expect(validateComponentWeights(weights)).toEqual([]);
+    for (const component of MATCH_COMPONENTS) {
+      expect(weights[component]).toBeGreaterThanOrEqual(0);
+      expect(Math.round(weights[component] * 1000) / 1000).toBe(weights[component]);
+    }
+  });
+
+  it('should refuse to calibrate from too few ratings', () => {
+    expect(() => service.calibrate(samples.slice(0, 5))).toThrow('At least 30 rated matches');
+  });
+
+  it('should read rated matches of one algorithm version and profile from history', async () => {
+    const song: AudioFeatures = {
+      valence: 0.5,
+      energy: 0.5,
+      danceability: 0.5,
+      tempo: 120,
+      acousticness: 0.5,
+      key: 0,
+      mode: 1,
+      timeSignature: 4,
+      loudness: -6,
+      durationMs: 200000,
+    };
+    const result = new MatchingService().calculateMatch(
+      song,
+      { ...song, energy: 0.2, key: 7 },
+      { algorithmVersion: '1.0' }
+    );
+    prisma.matchHistory.findMany.mockResolvedValue(
+      Array.from({ length: 3 }, () => ({ matchBreakdown: result.breakdown, humanScore: 40 }))
+    );
+
+    const report = await service.calibrateFromHistory({
+      algorithmVersion: '1.0',
+      minSamples: 3,
+    });
+
+    expect(report.algorithmVersion).toBe('1.0');
+    expect(report.samples).toBe(3);
+    expect(prisma.matchHistory.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          algorithmVersion: '1.0',
+          weightProfile: 'default',
+          scoringMode: 'SIMILARITY',
+          humanScore: { not: null },
+        },
+      })
+    );
+  });
+});
@@ -0,0 +1,294 @@
+import { inject, injectable } from 'tsyringe';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { meanAbsoluteError, pearson, spearman } from '../utils/stats';
+import { AppError } from '../middleware/errorHandler';
+import { ComponentWeights, MatchComponent, MatchResult } from '../types/music.types';
+import { DEFAULT_WEIGHT_PROFILE, MATCH_COMPONENTS } from '../config/weightProfiles';
+import { MatchingService } from './matching.service';
+
+/**
+ * A human-rated match reduced to its component similarities (0-1)
+ * Components that were not scored for the pair are absent
+ */
+export interface RatedMatch {
+  similarities: Partial<Record<MatchComponent, number>>;
+  humanScore: number; // 0-100
+}
+
+export interface CalibrationMetrics {
+  pearson: number;
+  spearman: number;
+  meanAbsoluteError: number; // In score points (0-100)
+}
+
+export interface CalibrationOptions {
+  algorithmVersion?: string; // Default: MATCH_ALGORITHM_VERSION
+  weightProfile?: string; // Starting weights, default: 'default'
+  iterations?: number;
+  learningRate?: number;
+  regularization?: number; // Pull towards the starting weights
+  minSamples?: number;
+}
+
+export interface CalibrationReport {
+  algorithmVersion: string;
+  weightProfile: string;
+  samples: number;
+  targetCorrelation: number;
+  before: CalibrationMetrics;
+  after: CalibrationMetrics;
+  weights: ComponentWeights; // Fitted weights, rounded, summing to 1
+}
+
+/**
+ * WeightCalibrationService
+ *
+ * Fits component weights to human ratings stored in MatchHistory.
+ * The overall score is the weighted mean of component similarities, so the
+ * fit minimizes squared error against the human score with weights kept
+ * non-negative and summing to 1 (projected gradient descent on the simplex).
+ */
+@injectable()
+export class WeightCalibrationService {
+  // ALGORITHM_DOCUMENTATION.md: > 0.70 correlation with human judgment
+  private readonly TARGET_CORRELATION = 0.7;
+
+  private readonly DEFAULT_ITERATIONS = 2000;
+  private readonly DEFAULT_LEARNING_RATE = 0.5;
+  private readonly DEFAULT_REGULARIZATION = 0.01;
+  private readonly DEFAULT_MIN_SAMPLES = 30;
+
+  constructor(
+    @inject('PrismaClient') private prisma: PrismaClient,
+    private matchingService: MatchingService
+  ) {}
+
+  /**
+   * Calibrate weights from the human-rated similarity matches of an
+   * algorithm version and weight profile
+   */
+  async calibrateFromHistory(options: CalibrationOptions = {}): Promise<CalibrationReport> {
+    const algorithm = this.matchingService.getAlgorithm(options.algorithmVersion);
+    const weightProfile = options.weightProfile || DEFAULT_WEIGHT_PROFILE;
+
+    // Similarity functions differ between versions, so only use matching rows;
+    // contrast breakdowns score how different songs are, and players rate
+    // matches against what the profile is for (a party mix, a harmonic blend)
+    const rows: { matchBreakdown: unknown; humanScore: number | null }[] =
+      await this.prisma.matchHistory.findMany({
+        where: {
+          algorithmVersion: algorithm.version,
+          weightProfile,
+          scoringMode: 'SIMILARITY',
+          humanScore: { not: null },
+        },
+        select: { matchBreakdown: true, humanScore: true },
+      });
+
+    const samples = rows
+      .filter((row) => row.humanScore !== null)
+      .map((row) => ({
+        similarities: this.toSimilarities(row.matchBreakdown as MatchResult['breakdown']),
+        humanScore: row.humanScore!,
+      }));
+
+    logger.info(
+      `Calibrating ${weightProfile} weights for ${algorithm.version} ` +
+        `from ${samples.length} ratings`
+    );
+
+    return this.calibrate(samples, {
+      ...options,
+      algorithmVersion: algorithm.version,
+      weightProfile,
+    });
+  }
+
+  /**
+   * Fit component weights to rated matches
+   */
+  calibrate(samples: RatedMatch[], options: CalibrationOptions = {}): CalibrationReport {
+    const minSamples = options.minSamples ?? this.DEFAULT_MIN_SAMPLES;
+    if (samples.length < minSamples) {
+      throw new AppError(
+        422,
+        'INSUFFICIENT_RATINGS',
+        `At least ${minSamples} rated matches are needed to calibrate (got ${samples.length})`
+      );
+    }
+
+    const profileName = options.weightProfile || DEFAULT_WEIGHT_PROFILE;
+    const profile = this.matchingService.getWeightProfile(profileName, options.algorithmVersion);
+    const algorithmVersion =
+      options.algorithmVersion || this.matchingService.getAlgorithmVersion();
+
+    const baseWeights = profile.weights;
+    const fitted = this.fit(samples, baseWeights, options);
+    const weights = this.roundWeights(fitted);
+
+    return {
+      algorithmVersion,
+      weightProfile: profile.name,
+      samples: samples.length,
+      targetCorrelation: this.TARGET_CORRELATION,
+      before: this.evaluate(samples, baseWeights),
+      after: this.evaluate(samples, weights),
+      weights,
+    };
+  }
+
+  /**
+   * Correlation and error of the scores a set of weights would produce
+   */
+  evaluate(samples: RatedMatch[], weights: ComponentWeights): CalibrationMetrics {
+    const predicted = samples.map((sample) => this.predict(sample, weights) * 100);
+    const actual = samples.map((sample) => sample.humanScore);
+
+    return {
+      pearson: pearson(predicted, actual),
+      spearman: spearman(predicted, actual),
+      meanAbsoluteError: meanAbsoluteError(predicted, actual),
+    };
+  }
+
+  /**
+   * Projected gradient descent on mean squared error (0-1 scale)
+   * Components never scored in the samples keep their starting weight
+   */
+  private fit(
+    samples: RatedMatch[],
+    baseWeights: ComponentWeights,
+    options: CalibrationOptions
+  ): ComponentWeights {
+    const iterations = options.iterations ?? this.DEFAULT_ITERATIONS;
+    const learningRate = options.learningRate ?? this.DEFAULT_LEARNING_RATE;
+    const regularization = options.regularization ?? this.DEFAULT_REGULARIZATION;
+
+    const free = MATCH_COMPONENTS.filter((component) =>
+      samples.some((sample) => sample.similarities[component] !== undefined)
+    );
+    const fixedTotal = MATCH_COMPONENTS.filter((component) => !free.includes(component)).reduce(
+      (sum, component) => sum + baseWeights[component],
+      0
+    );
+
+    const weights = { ...baseWeights };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const gradient = new Map<MatchComponent, number>(free.map((component) => [component, 0]));
+
+      for (const sample of samples) {
+        const { predicted, present } = this.predictWithWeight(sample, weights);
+        if (present === 0) continue;
+
+        const residual = predicted - sample.humanScore / 100;
+        for (const component of free) {
+          const similarity = sample.similarities[component];
+          if (similarity === undefined) continue;
+
+          // d(predicted)/d(weight) for a weighted mean
+          const derivative = (similarity - predicted) / present;
+          gradient.set(
+            component,
+            gradient.get(component)! + (2 * residual * derivative) / samples.length
+          );
+        }
+      }
+
+      const stepped = free.map(
+        (component) =>
+          weights[component] -
+          learningRate *
+            (gradient.get(component)! +
+              2 * regularization * (weights[component] - baseWeights[component]))
+      );
+
+      this.projectToSimplex(stepped, 1 - fixedTotal).forEach((weight, i) => {
+        weights[free[i]!] = weight;
+      });
+    }
+
+    return weights;
+  }
+
+  private predict(sample: RatedMatch, weights: ComponentWeights): number {
+    return this.predictWithWeight(sample, weights).predicted;
+  }
+
+  /**
+   * Weighted mean of the sample's similarities, plus the weight it was
+   * normalized by (MatchingService drops unscored components the same way)
+   */
+  private predictWithWeight(
+    sample: RatedMatch,
+    weights: ComponentWeights
+  ): { predicted: number; present: number } {
+    let weighted = 0;
+    let present = 0;
+
+    for (const component of MATCH_COMPONENTS) {
+      const similarity = sample.similarities[component];
+      if (similarity === undefined) continue;
+      weighted += weights[component] * similarity;
+      present += weights[component];
+    }
+
+    return { predicted: present > 0 ? weighted / present : 0, present };
+  }
+
+  /**
+   * Euclidean projection onto { w >= 0, sum(w) = total }
+   */
+  private projectToSimplex(values: number[], total: number): number[] {
+    const sorted = [...values].sort((a, b) => b - a);
+
+    let cumulative = 0;
+    let threshold = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      cumulative += sorted[i]!;
+      const candidate = (cumulative - total) / (i + 1);
+      if (sorted[i]! - candidate > 0) threshold = candidate;
+    }
+
+    return values.map((value) => Math.max(0, value - threshold));
+  }
+
+  /**
+   * Round to 3 decimals, keeping the sum at exactly 1
+   * so the result can be pasted into config/weightProfiles.ts
+   */
+  private roundWeights(weights: ComponentWeights): ComponentWeights {
+    const rounded = { ...weights };
+    for (const component of MATCH_COMPONENTS) {
+      rounded[component] = Math.round(weights[component] * 1000) / 1000;
+    }
+
+    const total = MATCH_COMPONENTS.reduce((sum, component) => sum + rounded[component], 0);
+    const largest = MATCH_COMPONENTS.reduce((best, component) =>
+      rounded[component] > rounded[best] ? component : best
+    );
+    rounded[largest] = Math.round((rounded[largest] + 1 - total) * 1000) / 1000;
+
+    return rounded;
+  }
+
+  /**
+   * Extract component similarities from a stored match breakdown
+   */
+  private toSimilarities(
+    breakdown: MatchResult['breakdown']
+  ): Partial<Record<MatchComponent, number>> {
+    const similarities: Partial<Record<MatchComponent, number>> = {};
+
+    for (const layer of Object.values(breakdown)) {
+      for (const [component, score] of Object.entries(layer.components)) {
+        if ((MATCH_COMPONENTS as readonly string[]).includes(component)) {
+          similarities[component as MatchComponent] = score.similarity;
+        }
+      }
+    }
+
+    return similarities;
+  }
+}
@@ -0,0 +1,200 @@
+import { injectable } from 'tsyringe';
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  YouTubeError,
+  YouTubeSearchResponse,
+  YouTubeVideo,
+  YouTubeVideoListResponse,
+} from '../types/youtube.types';
+import { SongSearchFilters } from '../types/spotify.types';
+
+/**
+ * YouTubeService
+ *
+ * Handles all interactions with the YouTube Data API v3 including:
+ * - Music video search (API key)
+ * - Video lookup with duration and statistics
+ * - User library access (liked music videos) with an OAuth access token
+ * - Quota and error handling
+ */
+@injectable()
+export class YouTubeService {
+  private readonly BASE_URL = `${env.YOUTUBE_API_URL}/youtube/v3`;
+  private readonly MUSIC_CATEGORY_ID = '10';
+  private readonly VIDEO_PARTS = 'snippet,contentDetails,statistics';
+  private readonly MAX_RESULTS = 50;
+
+  private axiosInstance: AxiosInstance;
+
+  constructor() {
+    this.axiosInstance = axios.create({
+      baseURL: this.BASE_URL,
+      timeout: 10000,
+    });
+
+    // Add request interceptor to automatically add the API key
+    this.axiosInstance.interceptors.request.use(
+      (config) => {
+        if (!env.YOUTUBE_API_KEY) {
+          throw new AppError(500, 'YOUTUBE_AUTH_ERROR', 'YouTube is not configured');
+        }
+        config.params = { ...config.params, key: env.YOUTUBE_API_KEY };
+        return config;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    // Add response interceptor for error handling
+    this.axiosInstance.interceptors.response.use(
+      (response) => response,
+      this.handleApiError.bind(this)
+    );
+  }
+
+  /**
+   * Search for music videos
+   * Pages are addressed by token, not offset
+   */
+  async searchVideos(
+    filters: SongSearchFilters,
+    pageToken?: string
+  ): Promise<YouTubeSearchResponse> {
+    try {
+      const params: Record<string, string> = {
+        part: 'snippet',
+        type: 'video',
+        videoCategoryId: this.MUSIC_CATEGORY_ID,
+        q: filters.query,
+        maxResults: String(Math.min(filters.limit || 20, this.MAX_RESULTS)),
+      };
+      if (filters.market) params.regionCode = filters.market;
+      if (pageToken) params.pageToken = pageToken;
+
+      const response = await this.axiosInstance.get<YouTubeSearchResponse>('/search', {
+        params,
+      });
+
+      logger.debug(`YouTube search: "${filters.query}" - ${response.data.items.length} results`);
+
+      return response.data;
+    } catch (error) {
+      logger.error('YouTube search error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get video by ID
+   */
+  async getVideo(videoId: string): Promise<YouTubeVideo> {
+    try {
+      const [video] = await this.getMultipleVideos([videoId]);
+      if (!video) {
+        throw new AppError(404, 'NOT_FOUND', 'Video not found on YouTube');
+      }
+      return video;
+    } catch (error) {
+      logger.error(`Error getting video ${videoId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get multiple videos at once (more efficient)
+   * Unknown IDs are left out of the response
+   */
+  async getMultipleVideos(videoIds: string[]): Promise<YouTubeVideo[]> {
+    try {
+      if (videoIds.length > this.MAX_RESULTS) {
+        throw new AppError(
+          400,
+          'INVALID_REQUEST',
+          `Maximum ${this.MAX_RESULTS} video IDs allowed`
+        );
+      }
+
+      const response = await this.axiosInstance.get<YouTubeVideoListResponse>('/videos', {
+        params: { part: this.VIDEO_PARTS, id: videoIds.join(',') },
+      });
+
+      return response.data.items;
+    } catch (error) {
+      logger.error('Error getting multiple videos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get user's liked music videos (requires user access token)
+   */
+  async getLikedMusicVideos(
+    userToken: string,
+    options?: { limit?: number }
+  ): Promise<YouTubeVideo[]> {
+    try {
+      const response = await this.axiosInstance.get<YouTubeVideoListResponse>('/videos', {
+        params: {
+          part: this.VIDEO_PARTS,
+          myRating: 'like',
+          maxResults: String(Math.min(options?.limit || 20, this.MAX_RESULTS)),
+        },
+        headers: {
+          Authorization: `Bearer ${userToken}`,
+        },
+      });
+
+      return response.data.items.filter(
+        (video) => video.snippet.categoryId === this.MUSIC_CATEGORY_ID
+      );
+    } catch (error) {
+      logger.error('Error getting liked videos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle API errors and convert to AppError
+   */
+  private async handleApiError(error: AxiosError<YouTubeError>): Promise<never> {
+    // Raised before the request was sent (API key)
+    if (error instanceof AppError) throw error;
+
+    if (error.response) {
+      const status = error.response.status;
+      const message = error.response.data?.error?.message || error.message;
+      const reason = error.response.data?.error?.errors?.[0]?.reason;
+
+      // Quota is per day, so there is nothing to retry soon
+      if (status === 429 || reason === 'quotaExceeded' || reason === 'rateLimitExceeded') {
+        logger.warn(`YouTube quota exhausted: ${reason ?? status}`);
+        throw new AppError(429, 'RATE_LIMIT_EXCEEDED', 'YouTube API quota exceeded');
+      }
+
+      // Not found
+      if (status === 404) {
+        throw new AppError(404, 'NOT_FOUND', 'Video not found on YouTube');
+      }
+
+      // Bad API key or user token
+      if (status === 401 || status === 403) {
+        logger.error('YouTube authentication failed');
+        throw new AppError(status, 'YOUTUBE_AUTH_ERROR', 'YouTube authentication failed');
+      }
+
+      // Other errors
+      throw new AppError(status, 'YOUTUBE_API_ERROR', message || 'YouTube API error');
+    }
+
+    // Network or timeout errors
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      throw new AppError(504, 'YOUTUBE_TIMEOUT', 'YouTube API request timed out');
+    }
+
+    // Unknown error
+    logger.error('Unknown YouTube API error:', error);
+    throw new AppError(500, 'YOUTUBE_ERROR', 'An error occurred with YouTube API');
+  }
+}
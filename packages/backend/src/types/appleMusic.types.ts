@@ -0,0 +1,96 @@
+/**
+ * Apple Music API Types
+ *
+ * Type definitions for Apple Music API responses.
+ * Based on Apple Music API documentation: https://developer.apple.com/documentation/applemusicapi
+ */
+
+/**
+ * Apple Music Artwork Object
+ * The URL is a template with {w} and {h} placeholders
+ */
+export interface AppleMusicArtwork {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Apple Music Artist Resource (Simplified)
+ */
+export interface AppleMusicArtist {
+  id: string;
+  type: 'artists';
+  attributes?: {
+    name: string;
+    genreNames?: string[];
+  };
+}
+
+/**
+ * Apple Music Album Resource (Simplified)
+ */
+export interface AppleMusicAlbum {
+  id: string;
+  type: 'albums';
+  attributes?: {
+    name: string;
+  };
+}
+
+/**
+ * Apple Music Song Resource (Simplified)
+ * Relationships are present when requested with include=artists,albums
+ */
+export interface AppleMusicSong {
+  id: string;
+  type: 'songs';
+  attributes: {
+    name: string;
+    artistName: string;
+    albumName: string;
+    releaseDate?: string; // YYYY-MM-DD or YYYY
+    durationInMillis: number;
+    genreNames: string[]; // Includes the catch-all "Music"
+    isrc?: string;
+    url: string;
+    artwork?: AppleMusicArtwork;
+    previews: { url: string }[];
+    contentRating?: 'clean' | 'explicit';
+  };
+  relationships?: {
+    artists?: { data: AppleMusicArtist[] };
+    albums?: { data: AppleMusicAlbum[] };
+  };
+}
+
+/**
+ * Apple Music Resource Collection Response
+ */
+export interface AppleMusicSongsResponse {
+  data: AppleMusicSong[];
+  next?: string; // Path of the next page
+}
+
+/**
+ * Apple Music Catalog Search Response
+ * Types without results are left out
+ */
+export interface AppleMusicSearchResponse {
+  results: {
+    songs?: AppleMusicSongsResponse;
+  };
+}
+
+/**
+ * Apple Music API Error Response
+ */
+export interface AppleMusicError {
+  errors: {
+    id: string;
+    status: string;
+    code: string;
+    title: string;
+    detail?: string;
+  }[];
+}
@@ -26,15 +26,77 @@ export interface AudioFeatures {
 
   // Metadata (Layer 3)
   genres?: string[]; // Genre tags
-  artist?: string; // Artist name
+  artist?: string; // Main artist name
+  artists?: string[]; // All credited artist names, main first
+  artistIds?: string[]; // Platform artist IDs, same order as artists
+  relatedArtistIds?: string[]; // Artists related to any credited artist (artist graph)
   releaseYear?: number; // Year released
+
+  // Texture (Layer 4, optional - not every source provides these)
+  instrumentalness?: number; // 0-1: vocal to instrumental
+  liveness?: number; // 0-1: studio to live recording (> 0.8 = likely live)
+  speechiness?: number; // 0-1: music to spoken word (0.33-0.66 = rap/mixed)
+
+  featuresEstimated?: boolean; // Audio features were estimated, not measured (lowers confidence)
+}
+
+/**
+ * Scored components of the matching algorithm, grouped by layer
+ */
+export type Layer1Component = 'valence' | 'energy' | 'danceability' | 'tempo' | 'acousticness';
+export type Layer2Component = 'keyMode' | 'timeSignature' | 'loudness' | 'duration';
+export type Layer3Component = 'genre' | 'artist' | 'era';
+export type Layer4Component = 'instrumentalness' | 'speechiness' | 'liveness';
+export type MatchComponent =
+  | Layer1Component
+  | Layer2Component
+  | Layer3Component
+  | Layer4Component;
+
+/**
+ * Component weights as fractions of the overall score
+ * Layer weights are derived from these, so all values must sum to 1
+ */
+export type ComponentWeights = Record<MatchComponent, number>;
+
+/**
+ * Named weight profile (e.g. "default", "party", "chill")
+ */
+export interface WeightProfile {
+  name: string;
+  description: string;
+  weights: ComponentWeights;
+}
+
+/**
+ * Matching algorithm version (see config/algorithmVersions.ts)
+ */
+export interface AlgorithmVersion {
+  version: string;
+  description: string;
+  texture: boolean; // Score Layer 4
+  genreScoring: 'jaccard' | 'taxonomy'; // Flat overlap or genre tree (GenreTaxonomyService)
+  artistScoring: 'name' | 'graph'; // Exact name match or IDs, credits and related artists
+  missingFeatures: 'neutral' | 'exclude'; // Score missing features as 0.5, or leave them out
+  weightProfiles: Record<string, WeightProfile>; // Profiles available in this version
+}
+
+/**
+ * How a genre of one song relates to a genre of the other
+ */
+export interface GenreLink {
+  genre1: string; // Genre of song 1
+  genre2: string; // Genre of song 2
+  relation: 'same' | 'parent' | 'sibling' | 'related' | 'keyword';
+  sharedGenre?: string; // Common (ancestor) genre, or shared keywords
+  similarity: number; // 0-1
 }
 
 /**
  * Component score with detailed breakdown
  */
 export interface ScoreComponent {
-  similarity: number; // 0-1 similarity score
+  similarity: number; // 0-1 similarity score (contrast score in contrast mode)
   weight: number; // Weight in layer calculation
   values: number[]; // Original values [song1, song2]
   label?: string; // Human-readable label
@@ -45,6 +107,7 @@ export interface ScoreComponent {
  */
 export interface LayerResult {
   score: number; // 0-1 layer score
+  weight: number; // Share of the overall score (sum of component weights)
   components: Record<string, ScoreComponent>; // Individual component scores
 }
 
@@ -52,33 +115,93 @@ export interface LayerResult {
  * Complete match result
  */
 export interface MatchResult {
-  overallScore: number; // 0-100 final match score
-  confidence: number; // 0-1 algorithm confidence
+  overallScore: number; // 0-100 final match score: calibratedScore when calibrated, else rawScore
+  rawScore: number; // 0-100 weighted component score
+  calibratedScore: number | null; // Percentile of rawScore (0-100), null when not calibrated
+  confidence: number; // 0-1: feature coverage and distance from the summary thresholds
   breakdown: {
-    layer1: LayerResult; // High-level features (60%)
-    layer2: LayerResult; // Musical structure (25%)
-    layer3: LayerResult; // Genre & metadata (15%)
+    layer1: LayerResult; // High-level features (55%)
+    layer2: LayerResult; // Musical structure (21%)
+    layer3: LayerResult; // Genre & metadata (14%)
+    layer4: LayerResult; // Texture (10%)
   };
   explanation: MatchExplanation; // Human-readable explanation
   processingTime: number; // Milliseconds
   algorithmVersion: string; // Algorithm version for tracking
+  weightProfile: string; // Weight profile used for scoring
+  keyScoring: KeyScoringMode; // Key similarity scorer used
+  mode: MatchMode; // Whether the score rewards similar or opposite songs
+}
+
+/**
+ * A localizable explanation message
+ * Clients can render their own copy from the stable code and params
+ */
+export interface ExplanationMessage {
+  code: string; // Stable reason code, e.g. ENERGY_CLOSE (see data/locales/en.json)
+  params: Record<string, string | number>; // e.g. { a: 0.82, b: 0.85 }
+  message: string; // Rendered in the explanation's locale
 }
 
 /**
  * Human-readable match explanation
  */
 export interface MatchExplanation {
-  summary: string; // One-sentence summary
-  strengths: string[]; // What matches well
-  weaknesses: string[]; // What doesn't match
+  locale: string; // Locale the messages are rendered in
+  summary: ExplanationMessage; // One-sentence summary
+  topReasons: ExplanationMessage[]; // What matches, biggest contribution to the score first
+  differences: ExplanationMessage[]; // What doesn't match, biggest cost to the score first
+  genreLinks: GenreLink[]; // Genres that link the two songs, strongest first
   details: {
-    mood: string; // Valence/energy description
-    rhythm: string; // Tempo/danceability description
-    harmony: string; // Key/mode description
-    style: string; // Genre/artist description
+    mood: ExplanationMessage; // Valence/energy description
+    rhythm: ExplanationMessage; // Tempo/danceability description
+    harmony: ExplanationMessage; // Key/mode description
+    style: ExplanationMessage; // Genre/artist description
+    texture: ExplanationMessage; // Vocal/instrumental/live description
   };
 }
 
+/**
+ * Chart-ready series for a match (GET /match/explain/:matchId)
+ */
+export interface MatchVisualization {
+  radarChart: {
+    axes: RadarAxis[]; // Feature behind each series value
+    labels: string[]; // Axis labels in the response locale
+    song1: number[]; // 0-1, same order as axes
+    song2: number[];
+  };
+  layerBars: LayerBar[]; // Layers that count toward the score
+  circleOfFifths: {
+    song1: KeyPosition | null; // null when the key is unknown
+    song2: KeyPosition | null;
+    distance: number | null; // Steps around the circle (0-6)
+  };
+}
+
+export type RadarAxis = 'energy' | 'valence' | 'danceability' | 'acousticness';
+
+export interface LayerBar {
+  layer: 'layer1' | 'layer2' | 'layer3' | 'layer4';
+  label: string; // In the response locale
+  score: number; // 0-1 layer score
+  weight: number; // Share of the overall score (0-1)
+  points: number; // Contribution to the 0-100 overall score
+}
+
+/**
+ * A key placed on the circle of fifths
+ * Minor keys sit on the inner ring at the position of their relative major
+ */
+export interface KeyPosition {
+  key: number; // 0-11 pitch class
+  mode: number; // 0 = minor, 1 = major
+  label: string; // e.g. "A minor", in the response locale
+  position: number; // 0-11 clockwise from the top (C major / A minor)
+  ring: 'outer' | 'inner'; // outer = major, inner = minor
+  camelot: string; // e.g. "8A"
+}
+
 /**
  * Cached match data
  */
@@ -90,6 +213,55 @@ export interface CachedMatch {
   expiresAt: number; // Timestamp
 }
 
+/**
+ * Pairwise match results for a set of songs
+ * results[i][j] scores song i against song j; the diagonal is null.
+ * Symmetric (results[i][j] === results[j][i]) except with Camelot key scoring
+ */
+export interface MatchMatrix {
+  songIds: string[];
+  scores: number[][]; // 0-100, diagonal = 100
+  results: (MatchResult | null)[][];
+  cacheHits: number; // Pairs served from cache
+  algorithmVersion: string;
+}
+
+/**
+ * Compact per-pair breakdown (0-1 layer scores)
+ */
+export interface CompactBreakdown {
+  layer1: number;
+  layer2: number;
+  layer3: number;
+  layer4: number;
+  confidence: number;
+}
+
+/**
+ * Key similarity scorer
+ * circle: Circle of Fifths distance between tonics
+ * camelot: Camelot wheel harmonic mixing, adjusted for beatmatching pitch shifts
+ */
+export type KeyScoringMode = 'circle' | 'camelot';
+
+/**
+ * What a match score rewards
+ * similarity: songs that sound alike score high
+ * contrast: songs that are opposites score high ("opposites" game rounds)
+ */
+export type MatchMode = 'similarity' | 'contrast';
+
+/**
+ * Options that change how a match is scored
+ */
+export interface MatchOptions {
+  weightProfile?: string; // Default: 'default'
+  keyScoring?: KeyScoringMode; // Default: 'circle'
+  algorithmVersion?: string; // Default: MATCH_ALGORITHM_VERSION
+  mode?: MatchMode; // Default: 'similarity'
+  calibrate?: boolean; // Default: false - percentile scale (similarity mode, calibrated profiles)
+}
+
 /**
  * Match request
  */
@@ -98,4 +270,81 @@ export interface MatchRequest {
   song2: AudioFeatures;
   includeExplanation?: boolean; // Default: true
   bypassCache?: boolean; // Default: false
+  options?: MatchOptions;
+}
+
+/**
+ * Audio features a target profile can constrain
+ */
+export type TargetFeature =
+  | 'valence'
+  | 'energy'
+  | 'danceability'
+  | 'tempo'
+  | 'acousticness'
+  | 'loudness'
+  | 'durationMs'
+  | 'instrumentalness'
+  | 'speechiness'
+  | 'liveness';
+
+/**
+ * Inclusive range for a feature; either bound may be left open
+ */
+export interface FeatureRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * What a song should sound like, e.g. "sad and slow"
+ * Unspecified features and constraints are not scored
+ */
+export interface TargetProfile {
+  features: Partial<Record<TargetFeature, FeatureRange>>;
+  mode?: number; // 0 = minor, 1 = major
+  genres?: string[]; // Song should be in (or close to) any of these
+  era?: { from: number; to: number }; // Release years, inclusive
+}
+
+/**
+ * Curated prompt for prompt rounds (data/vibePrompts.json)
+ */
+export interface VibePrompt {
+  id: string;
+  name: string; // In the response locale
+  description: string;
+  target: TargetProfile;
+}
+
+/**
+ * How one constrained component of a song scored against the target
+ */
+export interface TargetComponentScore {
+  score: number; // 0-1, 1 = within range
+  weight: number; // Profile weight of the component
+  value: number; // Song's value (mode, release year, or genre similarity for genre)
+}
+
+/**
+ * Result of scoring a song against a target profile
+ */
+export interface TargetMatchResult {
+  overallScore: number; // 0-100
+  confidence: number; // 0-1: share of the target that could be scored
+  components: Partial<Record<MatchComponent, TargetComponentScore>>; // Scored components only
+  explanation: TargetExplanation;
+  processingTime: number; // Milliseconds
+  algorithmVersion: string;
+  weightProfile: string;
+}
+
+/**
+ * Human-readable explanation of a target match
+ */
+export interface TargetExplanation {
+  locale: string;
+  summary: ExplanationMessage;
+  hits: ExplanationMessage[]; // Components within the target, heaviest first
+  gaps: ExplanationMessage[]; // Components outside the target, biggest cost first
 }
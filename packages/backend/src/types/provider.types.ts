@@ -0,0 +1,89 @@
+/**
+ * Music Provider Types
+ *
+ * Platform-neutral interface implemented by each music platform integration
+ * (Spotify, Apple Music, YouTube), and the track data it returns.
+ */
+
+import { Platform } from '../config/platforms';
+import { CachedSong, SongSearchFilters, SpotifyAudioFeatures } from './spotify.types';
+
+/**
+ * Track metadata from a provider, before audio features are attached
+ */
+export type ProviderTrack = Omit<
+  CachedSong,
+  'audioFeatures' | 'featuresEstimated' | 'featuresFrom' | 'cachedAt' | 'expiresAt'
+>;
+
+/**
+ * Audio features in the shape SongCache stores (Spotify's audio-features)
+ */
+export type ProviderAudioFeatures = SpotifyAudioFeatures;
+
+/**
+ * A page of search results
+ */
+export interface ProviderSearchResult {
+  tracks: ProviderTrack[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/**
+ * User library query options
+ */
+export interface LibraryOptions {
+  limit?: number;
+  timeRange?: 'short_term' | 'medium_term' | 'long_term'; // Top tracks only
+}
+
+/**
+ * A related artist, most related first
+ */
+export interface ProviderArtist {
+  id: string;
+  name: string;
+}
+
+/**
+ * A song on a platform
+ */
+export interface SongRef {
+  platform: Platform;
+  id: string; // Platform track ID
+}
+
+/**
+ * MusicProvider
+ *
+ * Catalogue, audio features and user library of one platform. Providers are
+ * registered in the DI container under 'MusicProvider' and looked up by
+ * platform through ProviderRegistryService.
+ *
+ * Lookups of unknown tracks throw AppError 404; batch lookups skip them.
+ */
+export interface MusicProvider {
+  readonly platform: Platform;
+
+  search(filters: SongSearchFilters): Promise<ProviderSearchResult>;
+  getTrack(trackId: string): Promise<ProviderTrack>;
+  getTracks(trackIds: string[]): Promise<ProviderTrack[]>; // Any number of IDs
+
+  // Take the tracks already fetched, so providers that need metadata to find
+  // features don't fetch them again; null when the platform has none
+  getFeatures(track: ProviderTrack): Promise<ProviderAudioFeatures | null>;
+  getFeaturesBatch(tracks: ProviderTrack[]): Promise<Map<string, ProviderAudioFeatures>>;
+
+  // User library (requires the user's access token for the platform)
+  getUserTopTracks(userToken: string, options?: LibraryOptions): Promise<ProviderTrack[]>;
+  getUserRecentlyPlayed(userToken: string, options?: LibraryOptions): Promise<ProviderTrack[]>;
+
+  // Optional: platforms without an artist graph leave it out
+  getRelatedArtists?(artistId: string): Promise<ProviderArtist[]>;
+
+  // Optional: platforms that can't look up recordings by ISRC leave it out
+  findByIsrc?(isrc: string): Promise<ProviderTrack[]>;
+}
@@ -5,6 +5,8 @@
  * Based on Spotify Web API documentation: https://developer.spotify.com/documentation/web-api
  */
 
+import { Platform } from '../config/platforms';
+
 /**
  * Spotify Track Object (Simplified)
  */
@@ -20,6 +22,9 @@ export interface SpotifyTrack {
   };
   popularity: number;
   explicit: boolean;
+  external_ids?: {
+    isrc?: string;
+  };
 }
 
 /**
@@ -34,6 +39,13 @@ export interface SpotifyArtist {
   };
 }
 
+/**
+ * Spotify Related Artists Response
+ */
+export interface SpotifyRelatedArtistsResponse {
+  artists: SpotifyArtist[]; // Most related first (up to 20)
+}
+
 /**
  * Spotify Album Object (Simplified)
  */
@@ -166,20 +178,25 @@ export interface CachedSong {
   // Track metadata
   id: string;
   name: string;
-  artist: string;
+  artist: string; // Main artist
   artistId: string;
+  artists?: { id: string; name: string }[]; // All credited artists, main first
   album: string;
   albumId: string;
   releaseYear: number;
   durationMs: number;
   previewUrl: string | null;
-  spotifyUrl: string;
+  externalUrl: string; // Track page on its platform
+  spotifyUrl?: string; // Spotify songs only
   imageUrl: string | null;
   popularity: number;
   explicit: boolean;
+  isrc?: string; // International Standard Recording Code, when the platform has it
 
   // Audio features
   audioFeatures: SpotifyAudioFeatures;
+  featuresEstimated?: boolean; // Features were estimated rather than measured
+  featuresFrom?: Platform; // Measured features borrowed from this platform's copy
 
   // Genre info (from artist)
   genres: string[];
@@ -187,7 +204,7 @@ export interface CachedSong {
   // Cache metadata
   cachedAt: number; // Timestamp
   expiresAt: number; // Timestamp (30 days)
-  platform: 'spotify';
+  platform: Platform;
 }
 
 /**
@@ -195,7 +212,7 @@ export interface CachedSong {
  */
 export interface SongSearchFilters {
   query: string;
-  limit?: number; // Max 50 for Spotify
+  limit?: number; // Max 50
   offset?: number;
   market?: string; // ISO 3166-1 alpha-2 country code
 }
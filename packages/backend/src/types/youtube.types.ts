@@ -0,0 +1,90 @@
+/**
+ * YouTube Data API Types
+ *
+ * Type definitions for YouTube Data API v3 responses.
+ * Based on YouTube Data API documentation: https://developers.google.com/youtube/v3/docs
+ */
+
+/**
+ * YouTube Thumbnail Object
+ */
+export interface YouTubeThumbnail {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * YouTube Video Snippet (Simplified)
+ */
+export interface YouTubeVideoSnippet {
+  publishedAt: string; // ISO 8601 timestamp
+  channelId: string;
+  channelTitle: string;
+  title: string;
+  description: string;
+  thumbnails: Partial<
+    Record<'default' | 'medium' | 'high' | 'standard' | 'maxres', YouTubeThumbnail>
+  >;
+  categoryId?: string; // Videos only; "10" is Music
+}
+
+/**
+ * YouTube Video Resource (Simplified)
+ * Parts are present when requested
+ */
+export interface YouTubeVideo {
+  id: string;
+  snippet: YouTubeVideoSnippet;
+  contentDetails?: {
+    duration: string; // ISO 8601 duration, e.g. PT3M42S
+    contentRating?: { ytRating?: 'ytAgeRestricted' };
+  };
+  statistics?: {
+    viewCount?: string;
+    likeCount?: string;
+  };
+}
+
+/**
+ * YouTube Search Result (Simplified)
+ */
+export interface YouTubeSearchResult {
+  id: { kind: string; videoId: string };
+  snippet: YouTubeVideoSnippet;
+}
+
+/**
+ * YouTube Search Response
+ */
+export interface YouTubeSearchResponse {
+  nextPageToken?: string;
+  pageInfo: {
+    totalResults: number; // An approximation
+    resultsPerPage: number;
+  };
+  items: YouTubeSearchResult[];
+}
+
+/**
+ * YouTube Video List Response
+ */
+export interface YouTubeVideoListResponse {
+  nextPageToken?: string;
+  pageInfo: {
+    totalResults: number;
+    resultsPerPage: number;
+  };
+  items: YouTubeVideo[];
+}
+
+/**
+ * YouTube API Error Response
+ */
+export interface YouTubeError {
+  error: {
+    code: number;
+    message: string;
+    errors?: { reason: string; message: string }[];
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeArtistCredits, normalizeArtistName, splitArtistCredit } from './artistNames';
+
+describe('artistNames', () => {
+  it('should normalize casing, accents and whitespace', () => {
+    expect(normalizeArtistName('  BEYONCÉ ')).toBe('beyonce');
+    expect(normalizeArtistName('The  Weeknd')).toBe('weeknd');
+    expect(normalizeArtistName('Guns N’ Roses')).toBe("guns n' roses");
+  });
+
+  it('should split featured artists', () => {
+    expect(splitArtistCredit('Calvin Harris feat. Rihanna')).toEqual(['calvin harris', 'rihanna']);
+    expect(splitArtistCredit('Drake (ft. Future)')).toEqual(['drake', 'future']);
+    expect(splitArtistCredit('DJ Khaled featuring Rihanna & Bryson Tiller')).toEqual([
+      'dj khaled',
+      'rihanna',
+      'bryson tiller',
+    ]);
+    expect(splitArtistCredit('Mark Ronson [with Bruno Mars]')).toEqual([
+      'mark ronson',
+      'bruno mars',
+    ]);
+  });
+
+  it('should keep main artist names with separators intact', () => {
+    expect(splitArtistCredit('Simon & Garfunkel')).toEqual(['simon & garfunkel']);
+    expect(splitArtistCredit('Tyler, The Creator')).toEqual(['tyler, the creator']);
+    expect(splitArtistCredit('Florence + the Machine')).toEqual(['florence + the machine']);
+  });
+
+  it('should merge credit lists without duplicates', () => {
+    expect(normalizeArtistCredits(['Daft Punk', 'Pharrell Williams', 'daft punk'])).toEqual([
+      'daft punk',
+      'pharrell williams',
+    ]);
+    expect(normalizeArtistCredits([])).toEqual([]);
+  });
+});
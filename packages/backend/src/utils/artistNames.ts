@@ -0,0 +1,54 @@
+/**
+ * Artist name helpers
+ *
+ * Providers credit featured artists inconsistently: as separate artists, or
+ * inside the name ("Calvin Harris feat. Rihanna", "Drake (ft. Future)").
+ * These helpers reduce a credit to comparable, normalized names.
+ */
+
+// "feat.", "ft.", "featuring", "with", optionally opening a bracket
+const FEATURE_MARKER = /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring|with)\s+/i;
+
+// Separators inside a featured-artist list ("feat. A, B & C")
+const FEATURE_LIST_SEPARATOR = /\s*(?:,|&|\band\b)\s*/i;
+
+/**
+ * Normalize an artist name for comparison
+ * Lowercase, accents stripped, whitespace collapsed, leading "the" dropped
+ */
+export function normalizeArtistName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Split an artist credit into normalized names, main artist first
+ * Only featured artists are split further, so "Simon & Garfunkel" and
+ * "Tyler, The Creator" stay intact as main artists.
+ */
+export function splitArtistCredit(credit: string): string[] {
+  const [main = '', ...featured] = credit.split(FEATURE_MARKER);
+
+  const names = [
+    main,
+    ...featured.flatMap((part) => part.replace(/[)\]]/g, ' ').split(FEATURE_LIST_SEPARATOR)),
+  ]
+    .map(normalizeArtistName)
+    .filter(Boolean);
+
+  return [...new Set(names)];
+}
+
+/**
+ * Normalized names of all credited artists, main artist first
+ * Each credited name may itself contain "feat." credits
+ */
+export function normalizeArtistCredits(artists: string[]): string[] {
+  return [...new Set(artists.flatMap(splitArtistCredit))];
+}
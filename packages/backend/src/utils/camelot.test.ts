@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  beatmatchRatio,
+  camelotCompatibility,
+  camelotRelation,
+  formatCamelot,
+  toCamelot,
+} from './camelot';
+
+describe('camelot', () => {
+  const code = (key: number, mode: number) => {
+    const camelot = toCamelot(key, mode);
+    if (!camelot) throw new Error(`No Camelot code for key ${key}`);
+    return camelot;
+  };
+
+  it('should map keys onto the wheel', () => {
+    expect(formatCamelot(code(0, 1))).toBe('8B'); // C major
+    expect(formatCamelot(code(9, 0))).toBe('8A'); // A minor
+    expect(formatCamelot(code(7, 1))).toBe('9B'); // G major
+    expect(formatCamelot(code(11, 1))).toBe('1B'); // B major
+    expect(formatCamelot(code(8, 0))).toBe('1A'); // G# minor
+    expect(formatCamelot(code(0, 0))).toBe('5A'); // C minor
+  });
+
+  it('should return null for unknown keys', () => {
+    expect(toCamelot(-1, 1)).toBeNull();
+  });
+
+  it('should classify relations across the 12/1 boundary', () => {
+    expect(camelotRelation(code(5, 1), code(11, 1))).toBe('distant'); // 7B → 1B
+    expect(camelotRelation(code(4, 1), code(11, 1))).toBe('adjacent'); // 12B → 1B
+    expect(camelotRelation(code(4, 1), code(8, 0))).toBe('diagonal'); // 12B → 1A
+  });
+
+  it('should rank compatibility from same key down to clashes', () => {
+    const c = code(0, 1);
+    expect(camelotCompatibility(c, c)).toBe(1);
+    expect(camelotCompatibility(c, code(9, 0))).toBeGreaterThan(
+      camelotCompatibility(c, code(7, 1))
+    );
+    expect(camelotCompatibility(c, code(6, 1))).toBe(0); // Opposite side of the wheel
+  });
+
+  it('should fold half and double time when beatmatching', () => {
+    expect(beatmatchRatio(120, 60)).toBe(1);
+    expect(beatmatchRatio(128, 256)).toBe(1);
+    expect(beatmatchRatio(126, 120)).toBeCloseTo(1.05);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Camelot Wheel helpers for harmonic mixing
+ *
+ * The wheel numbers keys 1-12 around the circle of fifths, with minor keys
+ * on the inner ring (A) and major keys on the outer ring (B). DJs treat the
+ * same code, ±1 on the same ring and the relative major/minor switch
+ * (same number, other ring) as compatible.
+ */
+
+export interface CamelotKey {
+  number: number; // 1-12
+  letter: 'A' | 'B'; // A = minor, B = major
+}
+
+export type CamelotRelation =
+  | 'same'
+  | 'relative'
+  | 'adjacent' // ±1 on the same ring
+  | 'diagonal' // ±1 and a ring switch
+  | 'distant';
+
+// Max tempo change a DJ can ride on the pitch fader (±8%)
+export const MAX_PITCH_ADJUSTMENT = 0.08;
+
+/**
+ * Convert a Spotify key (pitch class, 0 = C) and mode (1 = major) to Camelot
+ * Returns null when the key is unknown (-1)
+ */
+export function toCamelot(key: number, mode: number): CamelotKey | null {
+  if (!Number.isInteger(key) || key < 0 || key > 11) return null;
+
+  // Minor keys share a number with their relative major (3 semitones up)
+  const majorKey = mode === 1 ? key : (key + 3) % 12;
+  return {
+    number: ((majorKey * 7 + 7) % 12) + 1, // C major = 8B
+    letter: mode === 1 ? 'B' : 'A',
+  };
+}
+
+export function formatCamelot(code: CamelotKey): string {
+  return `${code.number}${code.letter}`;
+}
+
+/**
+ * Steps between two Camelot numbers around the wheel (0-6)
+ */
+export function camelotDistance(a: CamelotKey, b: CamelotKey): number {
+  const diff = Math.abs(a.number - b.number);
+  return Math.min(diff, 12 - diff);
+}
+
+export function camelotRelation(a: CamelotKey, b: CamelotKey): CamelotRelation {
+  const distance = camelotDistance(a, b);
+  const sameRing = a.letter === b.letter;
+
+  if (distance === 0) return sameRing ? 'same' : 'relative';
+  if (distance === 1) return sameRing ? 'adjacent' : 'diagonal';
+  return 'distant';
+}
+
+/**
+ * Harmonic mixing compatibility (0-1)
+ * Same code = 1.0, relative = 0.9, ±1 = 0.85, diagonal = 0.6,
+ * then falling off by 0.15 per extra step
+ */
+export function camelotCompatibility(a: CamelotKey, b: CamelotKey): number {
+  switch (camelotRelation(a, b)) {
+    case 'same':
+      return 1.0;
+    case 'relative':
+      return 0.9;
+    case 'adjacent':
+      return 0.85;
+    case 'diagonal':
+      return 0.6;
+    default: {
+      const similarity = Math.max(0, 0.6 - 0.15 * (camelotDistance(a, b) - 1));
+      return a.letter === b.letter ? similarity : similarity * 0.8;
+    }
+  }
+}
+
+/**
+ * Tempo stretch needed to beatmatch bpm2 to bpm1
+ * Half/double time counts as a match, so the ratio is folded into [0.75, 1.5)
+ */
+export function beatmatchRatio(bpm1: number, bpm2: number): number {
+  let ratio = bpm1 / bpm2;
+  while (ratio >= 1.5) ratio /= 2;
+  while (ratio < 0.75) ratio *= 2;
+  return ratio;
+}
+
+/**
+ * Semitones a track's pitch moves when its tempo is changed without key lock
+ */
+export function pitchShiftSemitones(ratio: number): number {
+  return 12 * Math.log2(ratio);
+}
+
+/**
+ * Shift a key by a whole number of semitones
+ */
+export function transposeKey(key: number, semitones: number): number {
+  return (((key + semitones) % 12) + 12) % 12;
+}
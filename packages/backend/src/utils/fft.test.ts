@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { fft, hannWindow, magnitudeSpectrum } from './fft';
+
+describe('fft', () => {
+  it('should match a direct DFT', () => {
+    const input = [1, 2, 0, -1, 3, 0.5, -2, 1];
+    const re = Float64Array.from(input);
+    const im = new Float64Array(input.length);
+    fft(re, im);
+
+    input.forEach((_, k) => {
+      let expectedRe = 0;
+      let expectedIm = 0;
+      input.forEach((x, n) => {
+        expectedRe += x * Math.cos((-2 * Math.PI * k * n) / input.length);
+        expectedIm += x * Math.sin((-2 * Math.PI * k * n) / input.length);
+      });
+      expect(re[k]).toBeCloseTo(expectedRe, 9);
+      expect(im[k]).toBeCloseTo(expectedIm, 9);
+    });
+  });
+
+  it('should reject lengths that are not a power of two', () => {
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow('power of two');
+  });
+
+  it('should peak at the bin of a sine', () => {
+    const samples = Float32Array.from({ length: 1024 }, (_, i) =>
+      Math.sin((2 * Math.PI * 32 * i) / 1024)
+    );
+    const spectrum = magnitudeSpectrum(samples, 0, hannWindow(1024));
+
+    expect(spectrum).toHaveLength(513);
+    expect(spectrum.indexOf(Math.max(...spectrum))).toBe(32);
+  });
+});
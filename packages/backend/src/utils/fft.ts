@@ -0,0 +1,87 @@
+/**
+ * Fast Fourier transform helpers for audio analysis
+ */
+
+/**
+ * In-place iterative radix-2 FFT
+ * Both arrays must have the same power-of-two length
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT length must be a power of two');
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    const half = size >> 1;
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b]! * wRe - im[b]! * wIm;
+        const tIm = re[b]! * wIm + im[b]! * wRe;
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Hann window of the given length
+ */
+export function hannWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+/**
+ * Magnitude spectrum (bins 0..n/2) of a windowed frame
+ * Reads n samples from offset; samples past the end count as silence
+ */
+export function magnitudeSpectrum(
+  samples: Float32Array,
+  offset: number,
+  window: Float64Array
+): Float64Array {
+  const n = window.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n && offset + i < samples.length; i++) {
+    re[i] = samples[offset + i]! * window[i]!;
+  }
+
+  fft(re, im);
+
+  const magnitudes = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) {
+    magnitudes[k] = Math.hypot(re[k]!, im[k]!);
+  }
+  return magnitudes;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { meanAbsoluteError, median, medianAbsoluteDeviation, pearson, spearman } from './stats';
+
+describe('stats', () => {
+  it('should compute Pearson correlation', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+    expect(pearson([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    expect(pearson([1, 2, 3], [5, 5, 5])).toBe(0);
+  });
+
+  it('should compute Spearman correlation on ranks', () => {
+    // Monotonic but not linear
+    expect(spearman([1, 2, 3, 4], [1, 4, 9, 100])).toBeCloseTo(1);
+    expect(pearson([1, 2, 3, 4], [1, 4, 9, 100])).toBeLessThan(1);
+  });
+
+  it('should average ranks for ties', () => {
+    expect(spearman([1, 1, 2], [1, 1, 2])).toBeCloseTo(1);
+  });
+
+  it('should compute mean absolute error', () => {
+    expect(meanAbsoluteError([10, 20], [12, 16])).toBe(3);
+  });
+
+  it('should compute the median and its absolute deviation', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBe(0);
+    // Deviations from 2: 1, 1, 0, 0, 98
+    expect(medianAbsoluteDeviation([1, 2, 2, 3, 100])).toBe(1);
+  });
+
+  it('should reject series of different lengths', () => {
+    expect(() => pearson([1, 2], [1])).toThrow('same length');
+  });
+});
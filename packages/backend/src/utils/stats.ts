@@ -0,0 +1,85 @@
+/**
+ * Statistics helpers for validating match scores against human ratings
+ * and for spotting outliers in sets of scores
+ */
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+/**
+ * Median absolute deviation from the median (robust spread)
+ */
+export function medianAbsoluteDeviation(values: number[]): number {
+  const center = median(values);
+  return median(values.map((value) => Math.abs(value - center)));
+}
+
+/**
+ * Pearson correlation coefficient (-1 to 1)
+ * Returns 0 when either series has no variance
+ */
+export function pearson(xs: number[], ys: number[]): number {
+  if (xs.length !== ys.length) {
+    throw new Error('Series must have the same length');
+  }
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i]! - meanX;
+    const dy = ys[i]! - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return 0;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Spearman rank correlation (-1 to 1)
+ * Tied values share their average rank
+ */
+export function spearman(xs: number[], ys: number[]): number {
+  return pearson(rank(xs), rank(ys));
+}
+
+export function meanAbsoluteError(predicted: number[], actual: number[]): number {
+  return mean(predicted.map((value, i) => Math.abs(value - actual[i]!)));
+}
+
+/**
+ * 1-based ranks with ties averaged
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1]!.value === order[i]!.value) j++;
+
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]!.index] = averageRank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
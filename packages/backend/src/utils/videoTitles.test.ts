@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { channelArtist, parseVideoTitle } from './videoTitles';
+
+describe('videoTitles', () => {
+  describe('parseVideoTitle', () => {
+    it('should split artist and title and drop video labels', () => {
+      expect(parseVideoTitle('Daft Punk - Around the World (Official Video)', 'x')).toEqual({
+        artist: 'Daft Punk',
+        title: 'Around the World',
+      });
+      expect(parseVideoTitle('Tame Impala – The Less I Know The Better [HD]', 'x')).toEqual({
+        artist: 'Tame Impala',
+        title: 'The Less I Know The Better',
+      });
+    });
+
+    it('should move featured artists to the artist credit', () => {
+      expect(
+        parseVideoTitle('Rihanna - We Found Love ft. Calvin Harris (Official Music Video)', 'x')
+      ).toEqual({ artist: 'Rihanna feat. Calvin Harris', title: 'We Found Love' });
+      expect(parseVideoTitle('Drake - Jumpman (feat. Future) [Lyric Video]', 'x')).toEqual({
+        artist: 'Drake feat. Future',
+        title: 'Jumpman',
+      });
+    });
+
+    it('should keep version labels', () => {
+      expect(parseVideoTitle('Adele - Hello (Live at the NRJ Awards)', 'x').title).toBe(
+        'Hello (Live at the NRJ Awards)'
+      );
+    });
+
+    it('should read quoted titles', () => {
+      expect(parseVideoTitle('Kendrick Lamar "HUMBLE." | Official Audio', 'x')).toEqual({
+        artist: 'Kendrick Lamar',
+        title: 'HUMBLE.',
+      });
+    });
+
+    it('should take the artist from the channel when the title has none', () => {
+      expect(parseVideoTitle('Midnight City', 'M83 - Topic')).toEqual({
+        artist: 'M83',
+        title: 'Midnight City',
+      });
+    });
+  });
+
+  describe('channelArtist', () => {
+    it('should strip channel suffixes', () => {
+      expect(channelArtist('RihannaVEVO')).toBe('Rihanna');
+      expect(channelArtist('Daft Punk Official')).toBe('Daft Punk');
+      expect(channelArtist('Bonobo')).toBe('Bonobo');
+    });
+  });
+});
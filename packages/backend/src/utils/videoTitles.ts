@@ -0,0 +1,79 @@
+/**
+ * Video title helpers
+ *
+ * Music videos name the artist in the title ("Artist - Song (Official Video)")
+ * or only through the channel ("Artist - Topic", "ArtistVEVO"). These helpers
+ * recover the artist credit and song title from either.
+ */
+
+// Bracketed video labels: "(Official Video)", "[Lyric Video]", "(HD)", "(Visualizer)"
+// Versions such as "(Live)" or "(Remastered)" are kept, they are different recordings
+const VIDEO_LABEL =
+  /\s*[([][^)\]]*\b(?:official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|mv|m\/v)\b[^)\]]*[)\]]/gi;
+
+// Anything after " | " or " // " is channel or playlist noise
+const TRAILING_NOISE = /\s+(?:\||\/\/)\s+.*$/;
+
+// "Artist - Song", with any dash or tilde
+const ARTIST_SEPARATOR = /\s+[-–—~]\s+/;
+
+// Artist "Song"
+const QUOTED_TITLE = /^(.+?)\s+["“'‘](.+)["”'’]$/;
+
+// "ft. X", "feat. X", "featuring X", optionally in brackets
+const FEATURING = /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring)\s+([^)\]]+)[)\]]?/i;
+
+// Channel suffixes that aren't part of the artist name
+const CHANNEL_SUFFIX = /(?:\s+-\s+topic|vevo|\s+official)$/i;
+
+export interface ParsedVideoTitle {
+  artist: string; // Artist credit, featured artists as "feat."
+  title: string;
+}
+
+/**
+ * Artist name from a channel name ("M83 - Topic", "RihannaVEVO")
+ */
+export function channelArtist(channelTitle: string): string {
+  return channelTitle.replace(CHANNEL_SUFFIX, '').trim();
+}
+
+/**
+ * Split a music video title into artist credit and song title
+ * Falls back to the channel for the artist when the title doesn't name one.
+ * Featured artists move from the title to the artist credit.
+ */
+export function parseVideoTitle(videoTitle: string, channelTitle: string): ParsedVideoTitle {
+  const cleaned = videoTitle
+    .replace(VIDEO_LABEL, '')
+    .replace(TRAILING_NOISE, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let artist: string;
+  let title: string;
+  const separator = cleaned.match(ARTIST_SEPARATOR);
+  const quoted = cleaned.match(QUOTED_TITLE);
+
+  if (separator?.index !== undefined) {
+    artist = cleaned.slice(0, separator.index);
+    title = cleaned.slice(separator.index + separator[0].length);
+  } else if (quoted) {
+    artist = quoted[1]!;
+    title = quoted[2]!;
+  } else {
+    artist = channelArtist(channelTitle);
+    title = cleaned;
+  }
+
+  const featuring = title.match(FEATURING);
+  if (featuring) {
+    title = title.replace(featuring[0], '');
+    artist = `${artist} feat. ${featuring[1]!.trim()}`;
+  }
+
+  return {
+    artist: artist.trim(),
+    title: title.replace(/^["“'‘]|["”'’]$/g, '').trim(),
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { isWav, parseWav } from './wav';
+
+describe('wav', () => {
+  // 2 frames of stereo audio in the given encoding
+  const build = (format: number, bits: number, samples: number[], extraChunk = false) => {
+    const bytes = bits / 8;
+    const dataSize = samples.length * bytes;
+    const extra = extraChunk ? 8 + 3 + 1 : 0; // Odd-sized chunk plus pad byte
+    const buffer = new ArrayBuffer(44 + extra + dataSize);
+    const view = new DataView(buffer);
+    const text = (offset: number, value: string) =>
+      [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+    text(0, 'RIFF');
+    view.setUint32(4, buffer.byteLength - 8, true);
+    text(8, 'WAVE');
+    text(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, format, true);
+    view.setUint16(22, 2, true);
+    view.setUint32(24, 8000, true);
+    view.setUint32(28, 8000 * 2 * bytes, true);
+    view.setUint16(32, 2 * bytes, true);
+    view.setUint16(34, bits, true);
+
+    let offset = 36;
+    if (extraChunk) {
+      text(offset, 'LIST');
+      view.setUint32(offset + 4, 3, true);
+      offset += extra;
+    }
+    text(offset, 'data');
+    view.setUint32(offset + 4, dataSize, true);
+    samples.forEach((sample, i) => {
+      const at = offset + 8 + i * bytes;
+      if (format === 3) view.setFloat32(at, sample, true);
+      else if (bits === 16) view.setInt16(at, sample, true);
+      else if (bits === 24) {
+        view.setUint8(at, sample & 0xff);
+        view.setUint8(at + 1, (sample >> 8) & 0xff);
+        view.setInt8(at + 2, sample >> 16);
+      }
+    });
+    return new Uint8Array(buffer);
+  };
+
+  it('should read 16-bit PCM into channels', () => {
+    const audio = parseWav(build(1, 16, [16384, -32768, 0, 32767]));
+
+    expect(audio.sampleRate).toBe(8000);
+    expect([...audio.channelData[0]!]).toEqual([0.5, 0]);
+    expect(audio.channelData[1]![0]).toBe(-1);
+    expect(audio.channelData[1]![1]).toBeCloseTo(1, 4);
+  });
+
+  it('should read 24-bit PCM and 32-bit float', () => {
+    expect(parseWav(build(1, 24, [-4194304, 0, 0, 0])).channelData[0]![0]).toBe(-0.5);
+    expect(parseWav(build(3, 32, [0.25, -0.75, 0, 0])).channelData[1]![0]).toBe(-0.75);
+  });
+
+  it('should skip unknown chunks, including odd-sized ones', () => {
+    const audio = parseWav(build(1, 16, [16384, 0, 0, 0], true));
+
+    expect(audio.channelData[0]![0]).toBe(0.5);
+  });
+
+  it('should reject files that are not PCM WAV', () => {
+    expect(isWav(new TextEncoder().encode('ID3 not a wav file'))).toBe(false);
+    expect(() => parseWav(new TextEncoder().encode('ID3 not a wav file'))).toThrow('Not a WAV');
+    expect(() => parseWav(build(2, 16, [0, 0, 0, 0]))).toThrow('Unsupported WAV encoding');
+  });
+});
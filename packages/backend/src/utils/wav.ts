@@ -0,0 +1,107 @@
+/**
+ * Minimal WAV (RIFF/WAVE) reader for audio analysis
+ *
+ * Supports uncompressed PCM (8/16/24/32-bit integer) and 32-bit float,
+ * including WAVE_FORMAT_EXTENSIBLE files. Samples are returned as floats
+ * in -1..1, one array per channel.
+ */
+
+export interface PcmAudio {
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * True if the data starts with a RIFF/WAVE header
+ */
+export function isWav(data: Uint8Array): boolean {
+  return data.length >= 12 && ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WAVE';
+}
+
+/**
+ * Decode a WAV file
+ * Throws on anything that isn't PCM or float WAV
+ */
+export function parseWav(data: Uint8Array): PcmAudio {
+  if (!isWav(data)) throw new Error('Not a WAV file');
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let format: { tag: number; channels: number; sampleRate: number; bits: number } | null = null;
+
+  // Chunks are word-aligned: odd sizes are followed by a pad byte
+  for (let offset = 12; offset + 8 <= data.length; ) {
+    const id = ascii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let tag = view.getUint16(body, true);
+      if (tag === FORMAT_EXTENSIBLE && size >= 26) {
+        tag = view.getUint16(body + 24, true); // First two bytes of the subformat GUID
+      }
+      format = {
+        tag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk before fmt chunk');
+      const length = Math.min(size, data.length - body); // Tolerate truncated files
+      return {
+        sampleRate: format.sampleRate,
+        channelData: readSamples(view, body, length, format),
+      };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+function readSamples(
+  view: DataView,
+  start: number,
+  length: number,
+  format: { tag: number; channels: number; bits: number }
+): Float32Array[] {
+  const { tag, channels, bits } = format;
+  const bytes = bits / 8;
+  if (channels < 1) throw new Error('WAV file has no channels');
+
+  let read: (offset: number) => number;
+  if (tag === FORMAT_FLOAT && bits === 32) {
+    read = (offset) => view.getFloat32(offset, true);
+  } else if (tag === FORMAT_PCM && bits === 8) {
+    read = (offset) => (view.getUint8(offset) - 128) / 128; // 8-bit is unsigned
+  } else if (tag === FORMAT_PCM && bits === 16) {
+    read = (offset) => view.getInt16(offset, true) / 32768;
+  } else if (tag === FORMAT_PCM && bits === 24) {
+    read = (offset) => {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8);
+      return ((view.getInt8(offset + 2) << 16) | value) / 8388608;
+    };
+  } else if (tag === FORMAT_PCM && bits === 32) {
+    read = (offset) => view.getInt32(offset, true) / 2147483648;
+  } else {
+    throw new Error(`Unsupported WAV encoding (format ${tag}, ${bits}-bit)`);
+  }
+
+  const frames = Math.floor(length / (bytes * channels));
+  const channelData = Array.from({ length: channels }, () => new Float32Array(frames));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      channelData[c]![i] = read(start + (i * channels + c) * bytes);
+    }
+  }
+  return channelData;
+}
+
+function ascii(data: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...data.subarray(start, start + length));
+}